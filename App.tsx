@@ -1,14 +1,32 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { Movie, AppView, User, SyncStatus } from './types';
+import { Movie, AppView, User, SyncStatus, LibrarySettings, MatchEvent, RankingSession, Tournament, DefinitiveList, ImportReport } from './types';
 import FileUpload from './components/FileUpload';
 import VotingArena from './components/VotingArena';
 import Leaderboard from './components/Leaderboard';
 import SimulationView from './components/SimulationView';
-import { Film, Trash2, Cloud, Check, RefreshCw, AlertCircle } from 'lucide-react';
-import { STORAGE_KEY } from './constants';
+import SettingsModal from './components/SettingsModal';
+import ReimportModal from './components/ReimportModal';
+import TournamentView from './components/TournamentView';
+import DefinitiveListView from './components/DefinitiveListView';
+import ImportReportModal from './components/ImportReportModal';
+import DuplicateFinderModal from './components/DuplicateFinderModal';
+import { Film, Trash2, Cloud, Check, RefreshCw, AlertCircle, Settings, FileUp } from 'lucide-react';
 import Button from './components/Button';
 import AuthButton from './components/AuthButton';
+import { getRatingEngine } from './services/ratingEngine';
+import { replayMatchLog } from './services/matchLog';
+import { getMatchmakingStrategy } from './services/matchmaking';
+import { appendImportReport } from './services/importReport';
+import { mergeDuplicateFilms } from './services/duplicates';
+import {
+  LibraryData,
+  DEFAULT_SETTINGS,
+  hydrateLibrary,
+  loadLocalLibrary,
+  saveLocalLibrary,
+  clearLocalLibrary
+} from './services/libraryStorage';
 
 // Mock Cloud Storage Key (In a real app, this would be your Firebase Firestore path)
 const CLOUD_STORAGE_MOCK_KEY = 'filmelo_cloud_db_mock';
@@ -16,7 +34,22 @@ const CLOUD_STORAGE_MOCK_KEY = 'filmelo_cloud_db_mock';
 const App: React.FC = () => {
   const [view, setView] = useState<AppView>(AppView.UPLOAD);
   const [movies, setMovies] = useState<Movie[]>([]);
+  const [settings, setSettings] = useState<LibrarySettings>(DEFAULT_SETTINGS);
+  const [matchLog, setMatchLog] = useState<MatchEvent[]>([]);
+  const [tournaments, setTournaments] = useState<Tournament[]>([]);
+  const [definitiveList, setDefinitiveList] = useState<DefinitiveList | null>(null);
+  const [importReports, setImportReports] = useState<ImportReport[]>([]);
+  // Focused arena session; lives here so it survives trips to the leaderboard
+  const [session, setSession] = useState<RankingSession | null>(null);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showReimport, setShowReimport] = useState(false);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+  // Report on screen: shown after each import, or opened from settings
+  const [viewedReport, setViewedReport] = useState<ImportReport | null>(null);
   const [isInitialized, setIsInitialized] = useState(false);
+
+  const ratingEngine = getRatingEngine(settings.ratingEngine);
+  const matchmaking = getMatchmakingStrategy(settings.matchmaking);
   
   // Auth & Sync State
   const [user, setUser] = useState<User | null>(null);
@@ -40,26 +73,24 @@ const App: React.FC = () => {
 
   // --- 2. Data Management ---
 
-  const loadLocalData = () => {
-    const savedData = localStorage.getItem(STORAGE_KEY);
-    if (savedData) {
-      try {
-        const parsed = JSON.parse(savedData);
-        if (Array.isArray(parsed) && parsed.length > 0) {
-          setMovies(parsed);
-          setView(AppView.VOTE);
-        }
-      } catch (e) {
-        console.error("Failed to load saved data", e);
-      }
-    }
+  const applyLibrary = (library: LibraryData) => {
+    setMovies(library.movies);
+    setSettings(library.settings);
+    setMatchLog(library.matchLog);
+    setTournaments(library.tournaments);
+    setDefinitiveList(library.definitiveList);
+    setImportReports(library.importReports);
   };
 
-  const saveLocalData = (data: Movie[]) => {
-    if (data.length > 0) {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
-    } else {
-      localStorage.removeItem(STORAGE_KEY);
+  const loadLocalData = () => {
+    try {
+      const library = loadLocalLibrary();
+      if (library) {
+        applyLibrary(library);
+        setView(AppView.VOTE);
+      }
+    } catch (e) {
+      console.error("Failed to load saved data", e);
     }
   };
 
@@ -69,7 +100,7 @@ const App: React.FC = () => {
    * INSTRUCTIONS FOR REAL FIREBASE INTEGRATION:
    * 1. Initialize Firebase App with your config.
    * 2. Replace handleLogin with `signInWithPopup(auth, provider)`.
-   * 3. Replace saveToCloud with `setDoc(doc(db, 'users', user.id), { movies })`.
+   * 3. Replace saveToCloud with `setDoc(doc(db, 'users', user.id), { movies, settings, matchLog, tournaments, definitiveList, importReports })`.
    * 4. Replace loadFromCloud with `getDoc(...)`.
    */
 
@@ -115,11 +146,12 @@ const App: React.FC = () => {
     
     if (cloudDataJson) {
       try {
-        const cloudMovies = JSON.parse(cloudDataJson);
+        // Older cloud saves are a bare movie array; hydrateLibrary handles both
+        const cloudLibrary = hydrateLibrary(JSON.parse(cloudDataJson));
         // Simple strategy: Cloud wins on login if it has data
-        if (cloudMovies.length > 0) {
-          setMovies(cloudMovies);
-          saveLocalData(cloudMovies); // Sync local to match cloud
+        if (cloudLibrary.movies.length > 0) {
+          applyLibrary(cloudLibrary);
+          saveLocalLibrary(cloudLibrary); // Sync local to match cloud
           if (view === AppView.UPLOAD) setView(AppView.VOTE);
         }
       } catch (e) {
@@ -127,16 +159,16 @@ const App: React.FC = () => {
       }
     } else if (movies.length > 0) {
       // First time sync: Push local to cloud
-      saveToCloud(movies, currentUser);
+      saveToCloud({ movies, settings, matchLog, tournaments, definitiveList, importReports }, currentUser);
     }
     
     setSyncStatus('saved');
     setTimeout(() => setSyncStatus('idle'), 2000);
   };
 
-  const saveToCloud = (data: Movie[], currentUser: User) => {
+  const saveToCloud = (library: LibraryData, currentUser: User) => {
     // MOCK: Save to separate storage key
-    localStorage.setItem(`${CLOUD_STORAGE_MOCK_KEY}_${currentUser.id}`, JSON.stringify(data));
+    localStorage.setItem(`${CLOUD_STORAGE_MOCK_KEY}_${currentUser.id}`, JSON.stringify(library));
   };
 
   // --- 4. Reactive Updates ---
@@ -145,7 +177,7 @@ const App: React.FC = () => {
     if (!isInitialized) return;
 
     // 1. Always save to local device
-    saveLocalData(movies);
+    saveLocalLibrary({ movies, settings, matchLog, tournaments, definitiveList, importReports });
 
     // 2. If logged in, debounce save to cloud
     if (user) {
@@ -154,7 +186,7 @@ const App: React.FC = () => {
       if (syncTimeoutRef.current) clearTimeout(syncTimeoutRef.current);
       
       syncTimeoutRef.current = setTimeout(() => {
-        saveToCloud(movies, user);
+        saveToCloud({ movies, settings, matchLog, tournaments, definitiveList, importReports }, user);
         setSyncStatus('saved');
         
         // Hide "Saved" status after 2 seconds
@@ -163,14 +195,45 @@ const App: React.FC = () => {
         }, 2000);
       }, 1000); // 1 second debounce
     }
-  }, [movies, user, isInitialized]);
+  }, [movies, settings, matchLog, tournaments, definitiveList, importReports, user, isInitialized]);
 
 
   // --- 5. Handlers ---
 
-  const handleDataLoaded = (data: Movie[]) => {
+  const handleDataLoaded = (data: Movie[], report: ImportReport) => {
     setMovies(data);
+    setMatchLog([]);
+    setTournaments([]);
+    setDefinitiveList(null);
+    setImportReports([report]);
+    setSession(null);
     setView(AppView.VOTE);
+    setViewedReport(report);
+  };
+
+  const handleReimport = (updater: (prev: Movie[]) => Movie[], report: ImportReport) => {
+    setMovies(updater);
+    setImportReports(prev => appendImportReport(prev, report));
+    setViewedReport(report);
+  };
+
+  const handleMergeDuplicates = (keepId: string, dropId: string) => {
+    const merged = mergeDuplicateFilms(
+      { movies, settings, matchLog, tournaments, definitiveList, importReports },
+      keepId,
+      dropId,
+      ratingEngine
+    );
+    applyLibrary(merged);
+    setSession(prev => prev && {
+      ...prev,
+      filmIds: Array.from(new Set(prev.filmIds.map(id => (id === dropId ? keepId : id))))
+    });
+  };
+
+  // Rebuilds every rating from the match log under the current engine and parameters
+  const handleRecompute = () => {
+    setMovies(prev => replayMatchLog(prev, matchLog, ratingEngine));
   };
 
   const handleReset = (e: React.MouseEvent) => {
@@ -183,7 +246,13 @@ const App: React.FC = () => {
 
     if (window.confirm(msg)) {
       setMovies([]);
-      localStorage.removeItem(STORAGE_KEY);
+      setSettings(DEFAULT_SETTINGS);
+      setMatchLog([]);
+      setTournaments([]);
+      setDefinitiveList(null);
+      setImportReports([]);
+      setSession(null);
+      clearLocalLibrary();
       
       if (user) {
          // Wipe cloud data too
@@ -197,20 +266,56 @@ const App: React.FC = () => {
   const renderContent = () => {
     switch (view) {
       case AppView.UPLOAD:
-        return <FileUpload onDataLoaded={handleDataLoaded} />;
+        return <FileUpload onDataLoaded={handleDataLoaded} ratingEngine={ratingEngine} />;
       case AppView.VOTE:
         return (
           <VotingArena 
             movies={movies} 
             onUpdateMovies={setMovies} 
+            matchLog={matchLog}
+            onUpdateMatchLog={setMatchLog}
+            ratingEngine={ratingEngine}
+            matchmaking={matchmaking}
+            pairCooldown={settings.pairCooldown}
+            convergenceGoal={settings.convergenceGoal}
+            onChangeConvergenceGoal={(convergenceGoal) => setSettings(prev => ({ ...prev, convergenceGoal }))}
+            session={session}
+            onChangeSession={setSession}
             onFinish={() => setView(AppView.LEADERBOARD)}
             onSimulate={() => setView(AppView.SIMULATION)}
+            onTournament={() => setView(AppView.TOURNAMENT)}
+          />
+        );
+      case AppView.TOURNAMENT:
+        return (
+          <TournamentView
+            movies={movies}
+            tournaments={tournaments}
+            onUpdateTournaments={setTournaments}
+            onUpdateMovies={setMovies}
+            onUpdateMatchLog={setMatchLog}
+            ratingEngine={ratingEngine}
+            onBack={() => setView(AppView.VOTE)}
+          />
+        );
+      case AppView.DEFINITIVE:
+        return (
+          <DefinitiveListView
+            movies={movies}
+            matchLog={matchLog}
+            definitiveList={definitiveList}
+            onUpdateDefinitiveList={setDefinitiveList}
+            onUpdateMovies={setMovies}
+            onUpdateMatchLog={setMatchLog}
+            ratingEngine={ratingEngine}
+            onBack={() => setView(AppView.LEADERBOARD)}
           />
         );
       case AppView.SIMULATION:
         return (
           <SimulationView
              movies={movies}
+             ratingEngine={ratingEngine}
              onBack={() => setView(AppView.VOTE)}
           />
         );
@@ -218,6 +323,11 @@ const App: React.FC = () => {
         return (
           <Leaderboard 
             movies={movies} 
+            matchLog={matchLog}
+            ratingEngine={ratingEngine}
+            onUpdateMovies={setMovies}
+            onDefinitive={() => setView(AppView.DEFINITIVE)}
+            onFindDuplicates={() => setShowDuplicates(true)}
             onBack={() => setView(AppView.VOTE)} 
           />
         );
@@ -292,6 +402,22 @@ const App: React.FC = () => {
                  <div className="hidden lg:flex items-center gap-2 px-4 py-1 bg-bauhaus-black text-white font-mono text-xs font-bold border-2 border-transparent">
                     <span className="text-bauhaus-yellow">●</span> {movies.length} FILMS
                  </div>
+                 <button 
+                    type="button"
+                    onClick={() => setShowReimport(true)}
+                    className="relative z-10 p-2 text-bauhaus-black hover:text-bauhaus-blue transition-colors cursor-pointer"
+                    title="Merge New Export"
+                 >
+                   <FileUp size={20} />
+                 </button>
+                 <button 
+                    type="button"
+                    onClick={() => setShowSettings(true)}
+                    className="relative z-10 p-2 text-bauhaus-black hover:text-bauhaus-blue transition-colors cursor-pointer"
+                    title="Library Settings"
+                 >
+                   <Settings size={20} />
+                 </button>
                  <button 
                     type="button"
                     onClick={handleReset}
@@ -306,6 +432,39 @@ const App: React.FC = () => {
         </div>
       </nav>
 
+      {showSettings && (
+        <SettingsModal
+          settings={settings}
+          matchCount={matchLog.length}
+          onChange={setSettings}
+          onRecompute={handleRecompute}
+          importReports={importReports}
+          onViewReport={setViewedReport}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+
+      {showReimport && (
+        <ReimportModal
+          movies={movies}
+          ratingEngine={ratingEngine}
+          onApply={handleReimport}
+          onClose={() => setShowReimport(false)}
+        />
+      )}
+
+      {showDuplicates && (
+        <DuplicateFinderModal
+          movies={movies}
+          onMerge={handleMergeDuplicates}
+          onClose={() => setShowDuplicates(false)}
+        />
+      )}
+
+      {viewedReport && (
+        <ImportReportModal report={viewedReport} onClose={() => setViewedReport(null)} />
+      )}
+
       <main className="flex-1 w-full animate-fade-in py-8">
         {renderContent()}
       </main>
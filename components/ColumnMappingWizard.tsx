@@ -0,0 +1,171 @@
+import React, { useMemo, useState } from 'react';
+import { X, Columns, Upload } from 'lucide-react';
+import { ImportReport } from '../types';
+import { ImportedFilm } from '../services/importService';
+import {
+  RawTable,
+  ColumnMapping,
+  IMPORT_PRESETS,
+  RATING_SCALES,
+  detectPreset,
+  guessMapping,
+  resolvePresetMapping,
+  applyColumnMapping
+} from '../services/columnMapping';
+import Button from './Button';
+
+interface ColumnMappingWizardProps {
+  fileName: string;
+  table: RawTable;
+  onImport: (films: ImportedFilm[], report: ImportReport) => void;
+  onCancel: () => void;
+}
+
+const FIELDS: { field: keyof Omit<ColumnMapping, 'ratingScale'>; label: string; hint: string }[] = [
+  { field: 'title', label: 'Title', hint: 'Required' },
+  { field: 'year', label: 'Year', hint: 'A year or a date' },
+  { field: 'rating', label: 'Rating', hint: 'Converted to stars' },
+  { field: 'uri', label: 'Link', hint: 'Letterboxd / IMDb URL' },
+  { field: 'tmdbId', label: 'TMDB ID', hint: 'Matches films across imports' }
+];
+
+const PREVIEW_ROWS = 5;
+
+const selectClass = 'w-full bg-white border-2 border-bauhaus-black px-2 py-2 text-sm font-bold focus:outline-none focus:shadow-hard-sm';
+
+/**
+ * Maps the columns of a non-Letterboxd export (or any CSV/JSON) onto film fields,
+ * with presets for IMDb and Trakt.
+ */
+const ColumnMappingWizard: React.FC<ColumnMappingWizardProps> = ({ fileName, table, onImport, onCancel }) => {
+  const detected = useMemo(() => detectPreset(table.headers), [table]);
+  const [presetId, setPresetId] = useState<string>(detected?.id || '');
+  const [mapping, setMapping] = useState<ColumnMapping>(() => guessMapping(table));
+
+  const preset = IMPORT_PRESETS.find(p => p.id === presetId);
+  const mapped = useMemo(() => applyColumnMapping(table, mapping, fileName, preset), [table, mapping, fileName, preset]);
+  const { films } = mapped;
+
+  const choosePreset = (id: string) => {
+    setPresetId(id);
+    const chosen = IMPORT_PRESETS.find(p => p.id === id);
+    setMapping(chosen ? resolvePresetMapping(table, chosen) : guessMapping(table));
+  };
+
+  const setField = (field: keyof ColumnMapping, value: string) => {
+    setMapping(prev => ({ ...prev, [field]: field === 'ratingScale' ? Number(value) : value }));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-bauhaus-black/60 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white w-full max-w-3xl max-h-[90vh] overflow-y-auto border-4 border-bauhaus-black shadow-hard-xl relative flex flex-col">
+
+        {/* Header */}
+        <div className="sticky top-0 bg-bauhaus-black text-white p-6 border-b-4 border-bauhaus-black flex justify-between items-start z-10">
+          <div>
+            <h2 className="text-3xl font-black uppercase tracking-tighter leading-none mb-2 flex items-center gap-3">
+              <Columns size={28} className="text-bauhaus-yellow" /> Map Columns
+            </h2>
+            <p className="text-xs font-bold uppercase tracking-widest text-gray-400 truncate">
+              {fileName} • {table.rows.length} rows
+            </p>
+          </div>
+          <button onClick={onCancel} className="p-1 hover:bg-white hover:text-bauhaus-black transition-colors">
+            <X size={24} strokeWidth={3} />
+          </button>
+        </div>
+
+        <div className="p-6 md:p-8 space-y-6">
+          {/* Presets */}
+          <section>
+            <h3 className="text-sm font-black uppercase mb-3">Source</h3>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              {[...IMPORT_PRESETS.map(p => ({ id: p.id, label: p.label })), { id: '', label: 'Custom' }].map(option => (
+                <button
+                  key={option.id || 'custom'}
+                  onClick={() => choosePreset(option.id)}
+                  className={`relative px-3 py-3 border-2 border-bauhaus-black text-xs font-black uppercase transition-all ${presetId === option.id ? 'bg-bauhaus-blue text-white' : 'bg-white hover:bg-gray-100 shadow-hard-sm'}`}
+                >
+                  {option.label}
+                  {detected?.id === option.id && option.id && (
+                    <span className="absolute -top-2 -right-2 bg-bauhaus-yellow text-bauhaus-black text-[9px] px-1 border border-bauhaus-black">Detected</span>
+                  )}
+                </button>
+              ))}
+            </div>
+          </section>
+
+          {/* Field Mapping */}
+          <section className="space-y-3">
+            {FIELDS.map(({ field, label, hint }) => (
+              <div key={field} className="grid grid-cols-3 gap-3 items-center">
+                <div>
+                  <div className="text-sm font-black uppercase">{label}</div>
+                  <div className="text-[10px] font-bold uppercase text-gray-400">{hint}</div>
+                </div>
+                <select value={mapping[field]} onChange={(e) => setField(field, e.target.value)} className={`${selectClass} ${field === 'rating' ? '' : 'col-span-2'}`}>
+                  <option value="">— Not mapped —</option>
+                  {table.headers.map(h => <option key={h} value={h}>{h}</option>)}
+                </select>
+                {field === 'rating' && (
+                  <select
+                    value={mapping.ratingScale}
+                    onChange={(e) => setField('ratingScale', e.target.value)}
+                    className={selectClass}
+                    disabled={!mapping.rating}
+                    title="The highest rating in the source"
+                  >
+                    {RATING_SCALES.map(scale => <option key={scale} value={scale}>Out of {scale}</option>)}
+                  </select>
+                )}
+              </div>
+            ))}
+          </section>
+
+          {/* Preview */}
+          <section className="border-2 border-bauhaus-black">
+            <div className="px-4 py-2 bg-gray-100 text-xs font-black uppercase tracking-widest">
+              Preview • {films.length} films
+              {mapped.report.issues.length > 0 && (
+                <span className="text-bauhaus-red"> • {mapped.report.issues.length} rows need a look (listed in the import report)</span>
+              )}
+            </div>
+            {films.length > 0 ? (
+              <table className="w-full text-left text-sm">
+                <thead className="text-[10px] uppercase tracking-widest text-gray-500">
+                  <tr>
+                    <th className="px-4 py-2">Title</th>
+                    <th className="px-4 py-2">Year</th>
+                    <th className="px-4 py-2">Stars</th>
+                    <th className="px-4 py-2 hidden sm:table-cell">ID</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {films.slice(0, PREVIEW_ROWS).map(film => (
+                    <tr key={film.id}>
+                      <td className="px-4 py-2 font-bold uppercase truncate max-w-[14rem]">{film.name}</td>
+                      <td className="px-4 py-2 font-mono">{film.year || '—'}</td>
+                      <td className="px-4 py-2 font-mono">{film.rating ? `★ ${film.rating}` : '—'}</td>
+                      <td className="px-4 py-2 font-mono text-xs text-gray-500 truncate max-w-[10rem] hidden sm:table-cell">{film.id}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="p-4 text-xs font-bold uppercase text-bauhaus-red">Map a title column to see films.</p>
+            )}
+          </section>
+
+          <div className="flex justify-end gap-3">
+            <Button onClick={onCancel} variant="outline">Cancel</Button>
+            <Button onClick={() => onImport(films, mapped.report)} variant="primary" disabled={films.length === 0} className="flex items-center gap-2">
+              <Upload size={18} /> Import {films.length} Films
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnMappingWizard;
@@ -0,0 +1,62 @@
+import React from 'react';
+import { ConvergenceGoal } from '../types';
+import { ConvergenceReport, CONVERGENCE_TOP_N_OPTIONS } from '../services/convergence';
+import { Flag } from 'lucide-react';
+
+interface ConvergenceMeterProps {
+  report: ConvergenceReport;
+  goal: ConvergenceGoal;
+  tracksDeviation: boolean; // Whether the engine's deviation is worth showing
+  onChangeGoal: (goal: ConvergenceGoal) => void;
+}
+
+/**
+ * How settled the top N is, with an estimate of the votes left and an
+ * optional "stop me when it's stable" goal.
+ */
+const ConvergenceMeter: React.FC<ConvergenceMeterProps> = ({ report, goal, tracksDeviation, onChangeGoal }) => {
+  const percent = Math.round(report.progress * 100);
+
+  return (
+    <div className="mt-3 w-full max-w-sm">
+      <div className="flex items-center justify-between gap-2 text-[10px] font-black uppercase tracking-widest mb-1">
+        <span className="flex items-center gap-1">
+          Top
+          <select
+            value={goal.topN}
+            onChange={(e) => onChangeGoal({ ...goal, topN: Number(e.target.value) })}
+            className="bg-white border border-bauhaus-black px-1 font-black focus:outline-none"
+            title="How much of the ranking to track"
+          >
+            {CONVERGENCE_TOP_N_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+          <span className={report.isStable ? 'text-bauhaus-red' : 'text-gray-500'}>
+            {report.isStable ? 'Stable' : `${percent}% Settled`}
+          </span>
+        </span>
+        <span className="text-gray-500">
+          {report.isStable ? '' : `~${report.votesRemaining} votes left`}
+        </span>
+      </div>
+
+      <div
+        className="h-3 border-2 border-bauhaus-black bg-white relative overflow-hidden"
+        title={`Rank stability ${Math.round(report.stability * 100)}%${tracksDeviation ? ` • Avg ± ${Math.round(report.meanRd)} RD` : ''}`}
+      >
+        <div
+          className={`h-full transition-all duration-500 ${report.isStable ? 'bg-bauhaus-yellow' : 'bg-bauhaus-blue'}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+
+      <button
+        onClick={() => onChangeGoal({ ...goal, stopWhenStable: !goal.stopWhenStable })}
+        className={`mt-2 flex items-center gap-1 text-[10px] font-black uppercase tracking-widest ${goal.stopWhenStable ? 'text-bauhaus-red' : 'text-gray-400 hover:text-bauhaus-black'}`}
+      >
+        <Flag size={12} /> {goal.stopWhenStable ? `Stopping when top ${goal.topN} is stable` : 'Stop me when stable'}
+      </button>
+    </div>
+  );
+};
+
+export default ConvergenceMeter;
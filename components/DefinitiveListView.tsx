@@ -0,0 +1,244 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Movie, MatchEvent, DefinitiveList, VoteStrength } from '../types';
+import { RatingEngine } from '../services/ratingEngine';
+import { createMatchEvent, applyMatchEvents } from '../services/matchLog';
+import { buildPairHistory } from '../services/pairHistory';
+import { fetchMoviePoster } from '../services/tmdbService';
+import {
+  DEFINITIVE_SIZES,
+  createDefinitiveList,
+  getDefinitiveComparison,
+  recordDefinitiveResult,
+  resolveKnownResults,
+  estimateDefinitiveComparisons
+} from '../services/definitiveList';
+import { isOnLeaderboard } from '../services/filmStatus';
+import { csvField } from '../services/csv';
+import MovieCard from './MovieCard';
+import Button from './Button';
+import { ArrowLeft, Lock, Download, RotateCcw } from 'lucide-react';
+
+interface DefinitiveListViewProps {
+  movies: Movie[];
+  matchLog: MatchEvent[];
+  definitiveList: DefinitiveList | null;
+  onUpdateDefinitiveList: React.Dispatch<React.SetStateAction<DefinitiveList | null>>;
+  onUpdateMovies: React.Dispatch<React.SetStateAction<Movie[]>>;
+  onUpdateMatchLog: React.Dispatch<React.SetStateAction<MatchEvent[]>>;
+  ratingEngine: RatingEngine;
+  onBack: () => void;
+}
+
+/**
+ * Builds a strictly ordered top N by binary insertion. Each film is compared
+ * against the ones already placed; head-to-heads you've already settled are
+ * answered from the match log, and every new answer is a normal vote.
+ */
+const DefinitiveListView: React.FC<DefinitiveListViewProps> = ({
+  movies,
+  matchLog,
+  definitiveList,
+  onUpdateDefinitiveList,
+  onUpdateMovies,
+  onUpdateMatchLog,
+  ratingEngine,
+  onBack
+}) => {
+  const [isCreating, setIsCreating] = useState(false);
+  const [size, setSize] = useState(25);
+  const [isExiting, setIsExiting] = useState(false);
+  const fetchingIds = useRef<Set<string>>(new Set());
+
+  const moviesById = useMemo(() => new Map(movies.map(m => [m.id, m])), [movies]);
+  const rankedCount = useMemo(() => movies.filter(isOnLeaderboard).length, [movies]);
+  const showSetup = isCreating || !definitiveList;
+
+  const comparison = definitiveList ? getDefinitiveComparison(definitiveList) : null;
+  const candidate = comparison ? moviesById.get(comparison.candidateId) : undefined;
+  const reference = comparison ? moviesById.get(comparison.referenceId) : undefined;
+
+  // Effect: Fetch posters for the films on screen
+  useEffect(() => {
+    [candidate, reference].forEach(movie => {
+      if (!movie || movie.posterPath || fetchingIds.current.has(movie.id)) return;
+      fetchingIds.current.add(movie.id);
+      fetchMoviePoster(movie.name, movie.year).then(path => {
+        if (!path) return;
+        onUpdateMovies(prev => prev.map(m => (m.id === movie.id ? { ...m, posterPath: path } : m)));
+      }).finally(() => {
+        fetchingIds.current.delete(movie.id);
+      });
+    });
+  }, [candidate, reference, onUpdateMovies]);
+
+  const handleStart = () => {
+    if (definitiveList && !window.confirm('Start over? The current definitive list will be replaced.')) return;
+    const list = createDefinitiveList(movies, size);
+    onUpdateDefinitiveList(resolveKnownResults(list, buildPairHistory(matchLog)));
+    setIsCreating(false);
+  };
+
+  const handleVote = (winnerId: string, strength?: VoteStrength) => {
+    if (!definitiveList || !comparison || isExiting) return;
+    const loserId = winnerId === comparison.candidateId ? comparison.referenceId : comparison.candidateId;
+    const event = createMatchEvent(winnerId, loserId, 'WIN', Date.now(), strength);
+    const history = buildPairHistory([...matchLog, event]);
+    const next = resolveKnownResults(
+      recordDefinitiveResult(definitiveList, winnerId === comparison.candidateId),
+      history
+    );
+
+    setIsExiting(true);
+    setTimeout(() => {
+      onUpdateMovies(prev => applyMatchEvents(prev, [event], ratingEngine));
+      onUpdateMatchLog(prev => [...prev, event]);
+      onUpdateDefinitiveList(next);
+      setIsExiting(false);
+    }, 400);
+  };
+
+  const downloadCSV = () => {
+    if (!definitiveList) return;
+    const headers = ['Position', 'Name', 'Year', 'Letterboxd URI'];
+    const rows = definitiveList.sortedIds
+      .map(id => moviesById.get(id))
+      .filter((m): m is Movie => !!m)
+      .map((m, i) => [i + 1, m.name, m.year, m.uri].map(csvField).join(','));
+    const csvContent = [headers.join(','), ...rows].join('\n');
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.setAttribute('download', `filmelo_definitive_top_${definitiveList.size}.csv`);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const nameOf = (id: string) => moviesById.get(id)?.name || 'Removed Film';
+  const searchWindow = definitiveList && comparison ? definitiveList.sortedIds.slice(definitiveList.low, definitiveList.high) : [];
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 md:px-8 py-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row justify-between items-center mb-10 gap-4 border-b-4 border-bauhaus-black pb-6 bg-white p-6 shadow-hard-md">
+        <div>
+          <h2 className="text-4xl font-black uppercase tracking-tighter text-bauhaus-black flex items-center gap-3">
+            <Lock size={32} className="text-bauhaus-red" />
+            {showSetup ? 'Definitive List' : `Definitive Top ${definitiveList!.size}`}
+          </h2>
+          {!showSetup && definitiveList && (
+            <p className="text-bauhaus-blue font-bold uppercase tracking-widest text-sm mt-1">
+              {definitiveList.lockedAt ? 'Locked' : `${definitiveList.sortedIds.length} / ${definitiveList.size} Placed`}
+              <span className="text-gray-400">
+                {' '}• {definitiveList.asked} Asked • {definitiveList.reused} From Past Votes
+                {!definitiveList.lockedAt && ` • ≤${estimateDefinitiveComparisons(definitiveList)} Left`}
+              </span>
+            </p>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-3 items-center justify-center">
+          {!showSetup && (
+            <Button onClick={() => setIsCreating(true)} variant="outline" className="flex items-center gap-2">
+              <RotateCcw size={18} /> <span className="hidden sm:inline">Rebuild</span>
+            </Button>
+          )}
+          {isCreating && definitiveList && (
+            <Button onClick={() => setIsCreating(false)} variant="outline">Cancel</Button>
+          )}
+          {!showSetup && definitiveList?.lockedAt && (
+            <Button onClick={downloadCSV} variant="yellow" className="flex items-center gap-2">
+              <Download size={18} /> Export
+            </Button>
+          )}
+          <Button onClick={onBack} variant="primary" className="flex items-center gap-2">
+            <ArrowLeft size={18} /> Leaderboard
+          </Button>
+        </div>
+      </div>
+
+      {showSetup ? (
+        <section className="max-w-2xl mx-auto bg-white border-4 border-bauhaus-black p-8 shadow-hard-lg">
+          <p className="font-bold text-gray-600 mb-6">
+            Elo is approximate. This takes your current top films and puts them in a strict order, one
+            comparison at a time. Matchups you've already settled are filled in from your votes.
+          </p>
+          <h3 className="text-sm font-black uppercase mb-3">How Many Films</h3>
+          <div className="flex flex-wrap gap-2 mb-8">
+            {DEFINITIVE_SIZES.filter(n => n <= rankedCount).map(n => (
+              <button
+                key={n}
+                onClick={() => setSize(n)}
+                className={`px-4 py-2 border-2 border-bauhaus-black font-black uppercase transition-all ${size === n ? 'bg-bauhaus-black text-white' : 'bg-white hover:shadow-hard-sm'}`}
+              >
+                Top {n}
+              </button>
+            ))}
+          </div>
+          <Button onClick={handleStart} variant="primary" className="w-full flex items-center justify-center gap-2" disabled={rankedCount < 2}>
+            <Lock size={18} /> Start Sorting
+          </Button>
+        </section>
+      ) : definitiveList && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-10">
+          {/* Current Comparison */}
+          <section className="lg:col-span-2">
+            {comparison && candidate && reference ? (
+              <>
+                <p className="text-center text-xs font-black uppercase tracking-widest opacity-60 mb-6">
+                  Which Ranks Higher?
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-8 items-stretch">
+                  <div key={`c-${candidate.id}`} className={isExiting ? 'animate-slide-out-left' : 'animate-slide-in-left'}>
+                    <MovieCard movie={candidate} onClick={(strength) => handleVote(candidate.id, strength)} />
+                  </div>
+                  <div key={`r-${reference.id}`} className={isExiting ? 'animate-slide-out-right' : 'animate-slide-in-right'}>
+                    <MovieCard movie={reference} onClick={(strength) => handleVote(reference.id, strength)} />
+                  </div>
+                </div>
+              </>
+            ) : definitiveList.lockedAt ? (
+              <div className="bg-bauhaus-black text-white border-4 border-bauhaus-black p-10 shadow-hard-lg text-center">
+                <Lock size={40} className="mx-auto mb-4 text-bauhaus-yellow" />
+                <h3 className="text-3xl font-black uppercase tracking-tighter mb-2">List Locked</h3>
+                <p className="text-sm font-bold uppercase tracking-widest text-gray-400">
+                  {definitiveList.asked} comparisons asked • {definitiveList.reused} answered by past votes
+                </p>
+              </div>
+            ) : (
+              <div className="p-12 text-center font-bold uppercase text-gray-400">
+                A film in this list was removed. Rebuild to start again.
+              </div>
+            )}
+          </section>
+
+          {/* Order So Far */}
+          <section className="bg-white border-4 border-bauhaus-black shadow-hard-md self-start">
+            <h3 className="bg-bauhaus-black text-white text-xs font-black uppercase tracking-widest p-3">
+              {definitiveList.lockedAt ? 'Final Order' : 'Order So Far'}
+            </h3>
+            <ol className="divide-y-2 divide-gray-100 max-h-[70vh] overflow-y-auto">
+              {definitiveList.sortedIds.map((id, i) => (
+                <li
+                  key={id}
+                  className={`flex items-center gap-3 px-3 py-2 text-sm font-bold uppercase ${id === comparison?.referenceId ? 'bg-bauhaus-yellow' : searchWindow.includes(id) ? 'bg-bauhaus-yellow/20' : ''}`}
+                >
+                  <span className="w-8 text-right font-black">{i + 1}</span>
+                  <span className="truncate">{nameOf(id)}</span>
+                </li>
+              ))}
+            </ol>
+            {definitiveList.pendingIds.length > 0 && (
+              <p className="p-3 text-[10px] font-black uppercase tracking-widest text-gray-400 border-t-2 border-gray-100">
+                {definitiveList.pendingIds.length} still to place
+              </p>
+            )}
+          </section>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DefinitiveListView;
@@ -0,0 +1,117 @@
+import React, { useMemo, useState } from 'react';
+import { X, Copy, GitMerge, CheckCircle } from 'lucide-react';
+import { Movie } from '../types';
+import { DuplicatePair, DUPLICATE_REASON_LABELS, findDuplicates } from '../services/duplicates';
+import Button from './Button';
+
+interface DuplicateFinderModalProps {
+  movies: Movie[];
+  onMerge: (keepId: string, dropId: string) => void;
+  onClose: () => void;
+}
+
+const PAIR_LIMIT = 50;
+
+/**
+ * Reviews films that look like the same film imported twice, one pair at a
+ * time: pick which entry to keep and merge, or pass on the pair.
+ */
+const DuplicateFinderModal: React.FC<DuplicateFinderModalProps> = ({ movies, onMerge, onClose }) => {
+  const pairs = useMemo(() => findDuplicates(movies), [movies]);
+  // Pairs passed on in this review
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+  // Chosen keeper per pair; defaults to the film with more votes
+  const [keepers, setKeepers] = useState<Record<string, string>>({});
+
+  const shownPairs = pairs.filter(p => !dismissed.has(p.key));
+
+  const keeperOf = (pair: DuplicatePair) => keepers[pair.key] || (pair.b.matches > pair.a.matches ? pair.b.id : pair.a.id);
+
+  const handleMerge = (pair: DuplicatePair) => {
+    const keepId = keeperOf(pair);
+    const [keep, drop] = keepId === pair.a.id ? [pair.a, pair.b] : [pair.b, pair.a];
+    const msg = `Merge "${drop.name}" (${drop.year}) into "${keep.name}" (${keep.year})? Its ${drop.matches} votes move over and every rating is recomputed.`;
+    if (window.confirm(msg)) {
+      onMerge(keep.id, drop.id);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-bauhaus-black/60 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white w-full max-w-3xl max-h-[90vh] overflow-y-auto border-4 border-bauhaus-black shadow-hard-xl relative flex flex-col">
+
+        {/* Header */}
+        <div className="sticky top-0 bg-bauhaus-black text-white p-6 border-b-4 border-bauhaus-black flex justify-between items-start z-10">
+          <div>
+            <h2 className="text-3xl font-black uppercase tracking-tighter leading-none mb-2 flex items-center gap-3">
+              <Copy size={28} className="text-bauhaus-yellow" /> Duplicates
+            </h2>
+            <p className="text-xs font-bold uppercase tracking-widest text-gray-400">
+              {shownPairs.length} possible {shownPairs.length === 1 ? 'pair' : 'pairs'} to review
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1 hover:bg-white hover:text-bauhaus-black transition-colors">
+            <X size={24} strokeWidth={3} />
+          </button>
+        </div>
+
+        <div className="p-6 md:p-8 space-y-4">
+          {shownPairs.length === 0 && (
+            <div className="p-4 border-2 border-bauhaus-black bg-gray-50 flex items-center gap-3 text-sm font-bold uppercase">
+              <CheckCircle size={20} className="text-bauhaus-blue" /> No duplicates found
+            </div>
+          )}
+
+          {shownPairs.slice(0, PAIR_LIMIT).map(pair => {
+            const keepId = keeperOf(pair);
+            return (
+              <div key={pair.key} className="border-4 border-bauhaus-black shadow-hard-sm">
+                <div className="px-4 py-2 bg-gray-100 border-b-2 border-bauhaus-black flex flex-wrap gap-2">
+                  {pair.reasons.map(reason => (
+                    <span key={reason} className="px-2 py-0.5 bg-bauhaus-yellow border border-bauhaus-black text-[10px] font-black uppercase">
+                      {DUPLICATE_REASON_LABELS[reason]}
+                    </span>
+                  ))}
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2">
+                  {[pair.a, pair.b].map((movie, i) => (
+                    <button
+                      key={movie.id}
+                      onClick={() => setKeepers(prev => ({ ...prev, [pair.key]: movie.id }))}
+                      className={`p-4 text-left transition-colors border-bauhaus-black ${i === 0 ? 'border-b-2 sm:border-b-0 sm:border-r-2' : ''} ${keepId === movie.id ? 'bg-bauhaus-blue text-white' : 'bg-white hover:bg-gray-50'}`}
+                    >
+                      <div className="text-[10px] font-black uppercase tracking-widest mb-1 opacity-70">
+                        {keepId === movie.id ? 'Keep' : 'Merge into the other'}
+                      </div>
+                      <div className="font-black uppercase truncate">{movie.name}</div>
+                      <div className="text-xs font-mono opacity-80">
+                        {movie.year || '—'} • {Math.round(movie.elo)} Elo • {movie.matches} votes{movie.rating ? ` • ★ ${movie.rating}` : ''}
+                      </div>
+                      {movie.uri && <div className="text-[10px] font-mono opacity-60 truncate mt-1">{movie.uri}</div>}
+                    </button>
+                  ))}
+                </div>
+                <div className="px-4 py-3 border-t-2 border-bauhaus-black flex justify-end gap-3">
+                  <Button onClick={() => setDismissed(prev => new Set(prev).add(pair.key))} variant="outline">
+                    Not A Duplicate
+                  </Button>
+                  <Button onClick={() => handleMerge(pair)} variant="primary" className="flex items-center gap-2">
+                    <GitMerge size={18} /> Merge
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+
+          {shownPairs.length > PAIR_LIMIT && (
+            <p className="text-[10px] font-black uppercase text-gray-400">
+              + {shownPairs.length - PAIR_LIMIT} more pairs after these
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DuplicateFinderModal;
@@ -4,9 +4,10 @@ import { INITIAL_ELO } from '../constants';
 
 interface EloHistogramProps {
   movies: Movie[];
+  title?: string;
 }
 
-const EloHistogram: React.FC<EloHistogramProps> = ({ movies }) => {
+const EloHistogram: React.FC<EloHistogramProps> = ({ movies, title = 'Distribution Curve' }) => {
   const { data, scaleMax, isScaled } = useMemo(() => {
     // 1. Determine bins (e.g., 50 point increments)
     const binSize = 50;
@@ -76,7 +77,7 @@ const EloHistogram: React.FC<EloHistogramProps> = ({ movies }) => {
        <div className="flex justify-between items-end mb-4">
          <div>
             <h3 className="font-black uppercase text-bauhaus-black flex items-center gap-2">
-            <span className="w-3 h-3 bg-bauhaus-red"></span> Distribution Curve
+            <span className="w-3 h-3 bg-bauhaus-red"></span> {title}
             </h3>
             {isScaled && (
                 <p className="text-[10px] font-bold text-gray-400 mt-1 uppercase tracking-wide">
@@ -1,252 +1,93 @@
 
 import React, { useState, useCallback } from 'react';
-import { Upload, FileText, AlertCircle, Film, Star, Equal, X } from 'lucide-react';
-import { Movie } from '../types';
-import { INITIAL_ELO } from '../constants';
+import { Upload, FileText, AlertCircle, Star, Equal } from 'lucide-react';
+import { Movie, ImportReport } from '../types';
+import type { RatingEngine } from '../services/ratingEngine';
+import { EloStrategy, ImportedFilm, readImportFiles, mergeImportFiles, seedMovies } from '../services/importService';
+import { RawTable, parseRawTable } from '../services/columnMapping';
 import Button from './Button';
+import ColumnMappingWizard from './ColumnMappingWizard';
+import SeedingPreviewModal from './SeedingPreviewModal';
 
 interface FileUploadProps {
-  onDataLoaded: (movies: Movie[]) => void;
+  onDataLoaded: (movies: Movie[], report: ImportReport) => void;
+  ratingEngine: RatingEngine;
 }
 
-type EloStrategy = 'fixed' | 'rating';
-
-const FileUpload: React.FC<FileUploadProps> = ({ onDataLoaded }) => {
+const FileUpload: React.FC<FileUploadProps> = ({ onDataLoaded, ratingEngine }) => {
   const [error, setError] = useState<string | null>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [loading, setLoading] = useState(false);
   const [eloStrategy, setEloStrategy] = useState<EloStrategy>('fixed');
-  
-  // State for multi-step upload flow
-  const [pendingData, setPendingData] = useState<Movie[] | null>(null);
-  const [showWatchedPrompt, setShowWatchedPrompt] = useState(false);
-
-  // Helper: Parse Raw CSV text into objects
-  const parseCSVRaw = (text: string) => {
-    const rows: string[][] = [];
-    let currentRow: string[] = [];
-    let currentField = '';
-    let inQuote = false;
-
-    for (let i = 0; i < text.length; i++) {
-      const char = text[i];
-      const nextChar = text[i + 1];
-
-      if (char === '"') {
-        if (inQuote && nextChar === '"') {
-          currentField += '"';
-          i++; 
-        } else {
-          inQuote = !inQuote;
-        }
-      } else if (char === ',' && !inQuote) {
-        currentRow.push(currentField);
-        currentField = '';
-      } else if ((char === '\n' || char === '\r') && !inQuote) {
-        currentRow.push(currentField);
-        rows.push(currentRow);
-        currentRow = [];
-        currentField = '';
-        if (char === '\r' && nextChar === '\n') {
-          i++;
-        }
-      } else {
-        currentField += char;
-      }
+  // A file that needs its columns mapped by hand (IMDb, Trakt, any other CSV/JSON)
+  const [mappingFile, setMappingFile] = useState<{ name: string; table: RawTable } | null>(null);
+  // Read films waiting on a seeding curve (Star Power only)
+  const [pendingSeed, setPendingSeed] = useState<{ films: ImportedFilm[]; report: ImportReport } | null>(null);
+
+  const loadFilms = (films: ImportedFilm[], report: ImportReport) => {
+    if (films.length === 0) {
+      throw new Error("No movies found in files.");
     }
-    
-    if (currentField || currentRow.length > 0) {
-      currentRow.push(currentField);
-      rows.push(currentRow);
+    if (eloStrategy === 'rating' && !films.some(f => f.rating)) {
+      throw new Error("Star Power strategy selected but no ratings found. Please upload 'ratings.csv' or your full export ZIP.");
     }
-
-    return rows;
+    if (eloStrategy === 'rating') {
+      setPendingSeed({ films, report });
+      return;
+    }
+    onDataLoaded(seedMovies(films, eloStrategy, ratingEngine), report);
   };
 
-  const processFiles = async (files: FileList | File[], existingData: Movie[] = []) => {
-    setLoading(true);
+  const openMappingWizard = async (file: File) => {
     setError(null);
-    
-    // We use a map to deduplicate by Name+Year. 
-    // If we have existing data (from step 1), hydrate the map first.
-    const movieMap = new Map<string, Partial<Movie>>();
-    
-    if (existingData.length > 0) {
-        existingData.forEach(m => {
-            const key = `${m.name.toLowerCase()}-${m.year}`;
-            movieMap.set(key, {
-                id: m.id,
-                name: m.name,
-                year: m.year,
-                rating: m.rating,
-                uri: m.uri,
-                posterPath: m.posterPath
-            });
-        });
+    try {
+      const table = parseRawTable(await file.text(), file.name);
+      if (!table) throw new Error(`${file.name} has no rows to import.`);
+      setMappingFile({ name: file.name, table });
+    } catch (e: any) {
+      console.error(e);
+      setError(e.message || "Failed to read file.");
     }
+  };
 
-    let filesProcessed = 0;
-    let hasRatings = false;
-    let isRatingsFileOnly = false;
-
+  const handleMappedImport = (films: ImportedFilm[], report: ImportReport) => {
     try {
-      // Check if this is a single 'ratings' file upload (trigger for prompt)
-      if (files.length === 1 && existingData.length === 0) {
-         if (files[0].name.toLowerCase().includes('ratings')) {
-             isRatingsFileOnly = true;
-         }
-      }
-
-      // 1. Parse all files and merge into map
-      for (let i = 0; i < files.length; i++) {
-        const file = files[i];
-        const text = await file.text();
-        const rows = parseCSVRaw(text);
-
-        if (rows.length < 2) continue; // Skip empty files
-
-        // Clean empty rows
-        const cleanRows = rows.filter(r => r.length > 0 && (r.length > 1 || r[0] !== ''));
-        if (cleanRows.length < 2) continue;
-
-        const headerLine = cleanRows[0];
-        const headers = headerLine.map(h => h.trim().toLowerCase());
-        
-        const nameIndex = headers.indexOf('name');
-        const yearIndex = headers.indexOf('year');
-        const ratingIndex = headers.indexOf('rating');
-        const uriIndex = headers.indexOf('letterboxd uri');
-
-        if (nameIndex === -1 || yearIndex === -1) {
-          // Skip files that don't look like movie lists
-          console.warn(`Skipping file ${file.name}: missing Name/Year headers`);
-          continue;
-        }
-        
-        filesProcessed++;
-
-        for (let r = 1; r < cleanRows.length; r++) {
-          const columns = cleanRows[r];
-          if (columns.length <= Math.max(nameIndex, yearIndex)) continue;
-
-          const name = columns[nameIndex]?.trim();
-          const year = columns[yearIndex]?.trim();
-          
-          if (name && year) {
-            const key = `${name.toLowerCase()}-${year}`;
-            
-            // Extract rating if available
-            let ratingVal: number | undefined = undefined;
-            if (ratingIndex > -1) {
-                const parsed = parseFloat(columns[ratingIndex]);
-                if (!isNaN(parsed) && parsed > 0) {
-                    ratingVal = parsed;
-                    hasRatings = true;
-                }
-            }
-
-            const uri = uriIndex > -1 ? columns[uriIndex] : undefined;
-
-            const existing = movieMap.get(key);
-            
-            // Merge logic: prioritize entry with rating or URI
-            // If existing had a rating, keep it unless new one has rating
-            // Actually, ratings.csv is usually definitive for rating.
-            const finalRating = ratingVal || existing?.rating;
-
-            movieMap.set(key, {
-              id: existing?.id || `${name}-${year}-${r}`, // Keep existing ID if possible
-              name: existing?.name || name,
-              year: existing?.year || year,
-              rating: finalRating,
-              uri: uri || existing?.uri,
-              posterPath: existing?.posterPath
-            });
-          }
-        }
-      }
-
-      if (filesProcessed === 0) {
-        throw new Error("No valid CSV files found. Headers must include 'Name' and 'Year'.");
-      }
-
-      // Check for Ratings requirement if this is the final step
-      // If we are in the intermediate step (isRatingsFileOnly), we definitely have ratings
-      if (eloStrategy === 'rating' && !hasRatings && existingData.length === 0 && !isRatingsFileOnly) {
-         // However, if we are in existingData mode, we might be adding unrated movies, so hasRatings might be false for the *new* file
-         // But existingData should have ratings.
-         // Let's rely on the strategy check on the full dataset.
-      }
-      
-      // If existingData was present, we check if the COMBINED set has ratings?
-      // Actually, if existingData > 0, we assume we already passed the rating check.
+      loadFilms(films, report);
+      setMappingFile(null);
+    } catch (e: any) {
+      setMappingFile(null);
+      setError(e.message);
+    }
+  };
 
-      // 2. Convert to Movie array and apply ELO Strategy
-      const movies: Movie[] = Array.from(movieMap.values()).map(m => {
-        let initialElo = INITIAL_ELO;
+  const processFiles = async (files: FileList | File[]) => {
+    setLoading(true);
+    setError(null);
 
-        if (eloStrategy === 'rating' && m.rating) {
-          // Map 0.5 - 5.0 stars to roughly 700 - 1600 Elo
-          initialElo = 1200 + (m.rating - 3) * 200;
+    try {
+      // ZIPs are unpacked; ratings, watched, diary, likes and lists are merged in one go
+      const importFiles = await readImportFiles(Array.from(files));
+      const { films, filesUsed, report } = mergeImportFiles(importFiles);
+
+      if (filesUsed.length === 0) {
+        // Not a Letterboxd file: let the user map its columns
+        const other = importFiles
+          .map(f => ({ name: f.path, table: parseRawTable(f.text, f.path) }))
+          .find((f): f is { name: string; table: RawTable } => f.table !== null);
+        if (!other) {
+          throw new Error("No valid CSV files found. Headers must include 'Name' and 'Year'.");
         }
-
-        return {
-          id: m.id!,
-          name: m.name!,
-          year: m.year!,
-          rating: m.rating,
-          uri: m.uri,
-          posterPath: m.posterPath,
-          elo: initialElo,
-          matches: 0,
-          wins: 0,
-          losses: 0,
-          history: []
-        };
-      });
-
-      if (movies.length === 0) {
-        throw new Error("No movies found in files.");
+        setMappingFile(other);
+        return;
       }
 
-      // 3. Prompt Logic
-      if (eloStrategy === 'rating' && existingData.length === 0 && isRatingsFileOnly) {
-          setPendingData(movies);
-          setShowWatchedPrompt(true);
-          setLoading(false);
-          return;
-      }
-
-      // Final Check
-      if (eloStrategy === 'rating' && !movies.some(m => m.rating)) {
-          throw new Error("Star Power strategy selected but no ratings found. Please upload 'ratings.csv'.");
-      }
-
-      onDataLoaded(movies);
+      loadFilms(films, report);
 
     } catch (e: any) {
       console.error(e);
       setError(e.message || "Failed to parse CSV files.");
     } finally {
-      if (!showWatchedPrompt) {
-          setLoading(false);
-      }
-    }
-  };
-
-  const handleWatchedUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files.length > 0 && pendingData) {
-      processFiles(e.target.files, pendingData);
-      setShowWatchedPrompt(false);
-      setPendingData(null);
-    }
-  };
-
-  const skipWatchedUpload = () => {
-    if (pendingData) {
-        onDataLoaded(pendingData);
-        setShowWatchedPrompt(false);
-        setPendingData(null);
+      setLoading(false);
     }
   };
 
@@ -254,17 +95,9 @@ const FileUpload: React.FC<FileUploadProps> = ({ onDataLoaded }) => {
     e.preventDefault();
     setIsDragging(false);
     if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      if (showWatchedPrompt && pendingData) {
-         // If prompt is open, dropping a file counts as the "watched.csv" upload
-         // We pass existing pendingData to merge into
-         processFiles(e.dataTransfer.files, pendingData);
-         setShowWatchedPrompt(false);
-         setPendingData(null);
-      } else {
-         processFiles(e.dataTransfer.files);
-      }
+      processFiles(e.dataTransfer.files);
     }
-  }, [eloStrategy, showWatchedPrompt, pendingData]); 
+  }, [eloStrategy, ratingEngine]); 
 
   const onDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -278,57 +111,23 @@ const FileUpload: React.FC<FileUploadProps> = ({ onDataLoaded }) => {
 
   return (
     <div className="max-w-3xl mx-auto mt-8 p-6 pb-20">
-      
-      {/* Watched CSV Prompt Modal */}
-      {showWatchedPrompt && (
-        <div 
-            className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-bauhaus-black/80 backdrop-blur-sm animate-fade-in"
-            onDrop={onDrop}
-            onDragOver={onDragOver}
-            onDragLeave={onDragLeave}
-        >
-          <div className={`
-              bg-white max-w-md w-full border-4 shadow-hard-xl p-8 text-center relative transition-all duration-200
-              ${isDragging ? 'border-bauhaus-blue scale-105' : 'border-bauhaus-black'}
-          `}>
-            <button 
-                onClick={skipWatchedUpload}
-                className="absolute top-2 right-2 p-1 hover:bg-gray-100"
-            >
-                <X size={20} />
-            </button>
-            <div className={`mx-auto w-16 h-16 text-white flex items-center justify-center border-4 border-bauhaus-black mb-4 shadow-hard-sm transition-colors ${isDragging ? 'bg-bauhaus-blue' : 'bg-bauhaus-blue'}`}>
-                <Film size={32} className={isDragging ? 'animate-bounce' : ''} />
-            </div>
-            <h3 className="text-2xl font-black uppercase text-bauhaus-black mb-2">Complete the Picture?</h3>
-            <p className="text-gray-600 font-medium mb-8 text-sm">
-                You've loaded your <strong>Rated</strong> movies. <br/>
-                Do you also want to upload <code>watched.csv</code> to include unrated diary entries?
-                <br/><br/>
-                <span className={`text-xs font-bold uppercase tracking-widest ${isDragging ? 'text-bauhaus-blue animate-pulse' : 'text-gray-400'}`}>
-                    {isDragging ? 'Drop to Upload' : 'Drag & Drop Supported'}
-                </span>
-            </p>
-            
-            <div className="flex flex-col gap-3">
-                <input 
-                    type="file" 
-                    accept=".csv"
-                    className="hidden"
-                    id="watched-upload"
-                    onChange={handleWatchedUpload}
-                />
-                <Button onClick={() => document.getElementById('watched-upload')?.click()} variant="primary" fullWidth>
-                    Upload watched.csv
-                </Button>
-                <Button onClick={skipWatchedUpload} variant="ghost" fullWidth>
-                    No, Use Rated Only
-                </Button>
-            </div>
-          </div>
-        </div>
+      {mappingFile && (
+        <ColumnMappingWizard
+          fileName={mappingFile.name}
+          table={mappingFile.table}
+          onImport={handleMappedImport}
+          onCancel={() => setMappingFile(null)}
+        />
       )}
-
+      {pendingSeed && (
+        <SeedingPreviewModal
+          films={pendingSeed.films}
+          ratingEngine={ratingEngine}
+          onConfirm={(movies) => onDataLoaded(movies, pendingSeed.report)}
+          onCancel={() => setPendingSeed(null)}
+        />
+      )}
+      
       <div className="text-center mb-10 relative">
         {/* Geometric Decor */}
         <div className="absolute top-0 left-1/2 -translate-x-1/2 -translate-y-1/2 w-20 h-20 border-4 border-bauhaus-black rotate-45 opacity-10"></div>
@@ -385,10 +184,10 @@ const FileUpload: React.FC<FileUploadProps> = ({ onDataLoaded }) => {
               <span className="font-black uppercase text-xl tracking-tight">Star Power</span>
             </div>
             <p className={`text-sm font-medium ${eloStrategy === 'rating' ? 'text-blue-200' : 'text-gray-600'}`}>
-              Start based on Letterboxd ratings.
+              Start based on Letterboxd ratings, on a curve you pick after upload.
               <br/>
               <span className="text-xs font-mono opacity-80 mt-1 block">
-                Requires <strong>ratings.csv</strong>
+                Requires <strong>ratings.csv</strong> or the export ZIP
               </span>
             </p>
             {eloStrategy === 'rating' && (
@@ -401,8 +200,8 @@ const FileUpload: React.FC<FileUploadProps> = ({ onDataLoaded }) => {
            <div className="mt-4 p-4 bg-blue-50 border-l-4 border-bauhaus-blue text-sm text-bauhaus-blue font-bold animate-slide-up flex items-start gap-3 shadow-hard-sm">
               <AlertCircle size={20} className="flex-shrink-0 mt-0.5" />
               <span>
-                  For "Star Power", upload <code>ratings.csv</code> first. 
-                  <span className="font-normal opacity-80 block mt-1">We'll ask if you want to add <code>watched.csv</code> afterwards to include unrated films.</span>
+                  For "Star Power", drop your whole Letterboxd export ZIP, or <code>ratings.csv</code> together with <code>watched.csv</code>.
+                  <span className="font-normal opacity-80 block mt-1">Unrated films you've watched start at 1200.</span>
               </span>
            </div>
         )}
@@ -423,15 +222,15 @@ const FileUpload: React.FC<FileUploadProps> = ({ onDataLoaded }) => {
           </div>
           <div>
             <p className="text-2xl font-black uppercase text-bauhaus-black">
-                {eloStrategy === 'rating' ? 'Drop ratings.csv' : 'Drop CSV File'}
+                Drop Export ZIP or CSVs
             </p>
             <p className="text-sm font-bold uppercase tracking-widest text-gray-500 mt-2">
-               {eloStrategy === 'rating' ? '(Then watched.csv if prompted)' : 'watched.csv / diary.csv'}
+               letterboxd-export.zip / ratings.csv / watched.csv
             </p>
           </div>
           <input 
             type="file" 
-            accept=".csv"
+            accept=".csv,.zip,.json"
             multiple // Allow multiple files
             className="hidden"
             id="file-upload"
@@ -443,10 +242,23 @@ const FileUpload: React.FC<FileUploadProps> = ({ onDataLoaded }) => {
           >
             Select Files
           </Button>
+          <input
+            type="file"
+            accept=".csv,.json"
+            className="hidden"
+            id="mapped-upload"
+            onChange={(e) => e.target.files?.[0] && openMappingWizard(e.target.files[0])}
+          />
+          <button
+            onClick={() => document.getElementById('mapped-upload')?.click()}
+            className="text-xs font-black uppercase tracking-widest text-gray-500 hover:text-bauhaus-blue underline underline-offset-4"
+          >
+            IMDb, Trakt or another CSV? Map its columns
+          </button>
         </div>
       </div>
 
-      {loading && !showWatchedPrompt && (
+      {loading && (
         <div className="mt-8 text-center">
           <div className="inline-block animate-spin w-8 h-8 border-4 border-bauhaus-black border-t-bauhaus-red rounded-full mb-2"></div>
           <p className="font-bold uppercase tracking-widest">Processing Cinema...</p>
@@ -469,7 +281,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onDataLoaded }) => {
             <li>Open Letterboxd Settings</li>
             <li>Select "Import & Export"</li>
             <li>Download "Export Data" (Zip)</li>
-            <li>Extract and use <code className="bg-gray-200 px-1 font-mono text-bauhaus-red">ratings.csv</code> or <code className="bg-gray-200 px-1 font-mono text-bauhaus-red">watched.csv</code></li>
+            <li>Drop the ZIP as is, or pick out <code className="bg-gray-200 px-1 font-mono text-bauhaus-red">ratings.csv</code> and <code className="bg-gray-200 px-1 font-mono text-bauhaus-red">watched.csv</code></li>
           </ol>
         </div>
         <div className="bg-white p-6 border-4 border-bauhaus-black shadow-hard-sm">
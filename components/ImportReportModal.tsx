@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { X, ClipboardList, Download, CheckCircle } from 'lucide-react';
+import { ImportIssueKind, ImportReport } from '../types';
+import { IMPORT_ISSUE_LABELS, importReportToCSV } from '../services/importReport';
+import Button from './Button';
+
+interface ImportReportModalProps {
+  report: ImportReport;
+  onClose: () => void;
+}
+
+const ISSUE_LIMIT = 200;
+
+const ACTION_STYLES = {
+  SKIPPED: 'bg-bauhaus-red text-white',
+  KEPT: 'bg-bauhaus-yellow text-bauhaus-black',
+  MERGED: 'bg-bauhaus-blue text-white'
+};
+
+/**
+ * What an import did: counts, files read, and every row it skipped,
+ * merged or couldn't fully read.
+ */
+const ImportReportModal: React.FC<ImportReportModalProps> = ({ report, onClose }) => {
+  const [kindFilter, setKindFilter] = useState<ImportIssueKind | 'ALL'>('ALL');
+
+  const kindCounts = report.issues.reduce((acc, issue) => {
+    acc[issue.kind] = (acc[issue.kind] || 0) + 1;
+    return acc;
+  }, {} as Partial<Record<ImportIssueKind, number>>);
+
+  const shownIssues = report.issues.filter(issue => kindFilter === 'ALL' || issue.kind === kindFilter);
+
+  const downloadCSV = () => {
+    const blob = new Blob([importReportToCSV(report)], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.setAttribute('download', `filmelo_import_report_${new Date(report.importedAt).toISOString().slice(0, 10)}.csv`);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-bauhaus-black/60 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white w-full max-w-3xl max-h-[90vh] overflow-y-auto border-4 border-bauhaus-black shadow-hard-xl relative flex flex-col">
+
+        {/* Header */}
+        <div className="sticky top-0 bg-bauhaus-black text-white p-6 border-b-4 border-bauhaus-black flex justify-between items-start z-10">
+          <div>
+            <h2 className="text-3xl font-black uppercase tracking-tighter leading-none mb-2 flex items-center gap-3">
+              <ClipboardList size={28} className="text-bauhaus-yellow" /> Import Report
+            </h2>
+            <p className="text-xs font-bold uppercase tracking-widest text-gray-400">
+              {report.source} • {new Date(report.importedAt).toLocaleString()}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1 hover:bg-white hover:text-bauhaus-black transition-colors">
+            <X size={24} strokeWidth={3} />
+          </button>
+        </div>
+
+        <div className="p-6 md:p-8 space-y-6">
+          {/* Counts */}
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-center">
+            {[
+              ['Imported', report.imported, 'text-bauhaus-blue'],
+              ['Updated', report.updated, 'text-bauhaus-black'],
+              ['Merged', report.merged, 'text-gray-500'],
+              ['Skipped', report.skipped, 'text-bauhaus-red']
+            ].map(([label, count, color]) => (
+              <div key={label as string} className="p-3 border-2 border-bauhaus-black bg-gray-50">
+                <div className={`text-3xl font-black ${color}`}>{count}</div>
+                <div className="text-[10px] uppercase font-bold text-gray-500">{label}</div>
+              </div>
+            ))}
+          </div>
+
+          {/* Files */}
+          <section>
+            <h3 className="text-sm font-black uppercase mb-2">Files Read</h3>
+            <ul className="text-xs font-mono text-gray-600 space-y-1">
+              {report.files.map(file => <li key={file} className="truncate">{file}</li>)}
+            </ul>
+          </section>
+
+          {/* Issues */}
+          {report.issues.length === 0 ? (
+            <div className="p-4 border-2 border-bauhaus-black bg-gray-50 flex items-center gap-3 text-sm font-bold uppercase">
+              <CheckCircle size={20} className="text-bauhaus-blue" /> Every row was read cleanly
+            </div>
+          ) : (
+            <section className="border-2 border-bauhaus-black">
+              <div className="px-4 py-2 bg-gray-100 flex flex-wrap items-center justify-between gap-2">
+                <span className="text-xs font-black uppercase tracking-widest">
+                  {report.issues.length + (report.truncatedIssues || 0)} Rows Need A Look
+                </span>
+                <select
+                  value={kindFilter}
+                  onChange={(e) => setKindFilter(e.target.value as ImportIssueKind | 'ALL')}
+                  className="bg-white border-2 border-bauhaus-black px-2 py-1 text-xs font-bold uppercase focus:outline-none"
+                >
+                  <option value="ALL">All Issues</option>
+                  {(Object.keys(kindCounts) as ImportIssueKind[]).map(kind => (
+                    <option key={kind} value={kind}>{IMPORT_ISSUE_LABELS[kind]} ({kindCounts[kind]})</option>
+                  ))}
+                </select>
+              </div>
+              <div className="max-h-80 overflow-y-auto">
+                <table className="w-full text-left text-sm">
+                  <thead className="text-[10px] uppercase tracking-widest text-gray-500 sticky top-0 bg-white">
+                    <tr>
+                      <th className="px-4 py-2">Issue</th>
+                      <th className="px-4 py-2">Where</th>
+                      <th className="px-4 py-2">Detail</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {shownIssues.slice(0, ISSUE_LIMIT).map((issue, i) => (
+                      <tr key={i} className="align-top">
+                        <td className="px-4 py-2 whitespace-nowrap">
+                          <div className="text-xs font-black uppercase">{IMPORT_ISSUE_LABELS[issue.kind]}</div>
+                          <span className={`inline-block mt-1 px-1 text-[9px] font-black uppercase border border-bauhaus-black ${ACTION_STYLES[issue.action]}`}>
+                            {issue.action}
+                          </span>
+                        </td>
+                        <td className="px-4 py-2 text-xs font-mono text-gray-500 max-w-[10rem] truncate" title={issue.file}>
+                          {issue.file}{issue.row !== undefined && `:${issue.row}`}
+                        </td>
+                        <td className="px-4 py-2 text-xs">
+                          <div className="font-bold">{issue.detail}</div>
+                          {issue.data && (
+                            <div className="font-mono text-gray-400 truncate max-w-[20rem]" title={issue.data.join(', ')}>
+                              {issue.data.join(', ')}
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {shownIssues.length > ISSUE_LIMIT && (
+                  <p className="px-4 py-2 text-[10px] font-black uppercase text-gray-400">
+                    + {shownIssues.length - ISSUE_LIMIT} more in the download
+                  </p>
+                )}
+              </div>
+            </section>
+          )}
+
+          <div className="flex justify-end gap-3">
+            <Button onClick={downloadCSV} variant="yellow" className="flex items-center gap-2">
+              <Download size={18} /> Download CSV
+            </Button>
+            <Button onClick={onClose} variant="primary">Done</Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportReportModal;
@@ -1,27 +1,80 @@
 
-import React, { useMemo, useState } from 'react';
-import { Movie } from '../types';
-import { Trophy, ArrowLeft, Download, Search, ArrowUpDown, Calendar, Hash, Award, ImageIcon, Zap, Flame, Scale, List } from 'lucide-react';
+import React, { useCallback, useMemo, useState } from 'react';
+import { Movie, MatchEvent, FilmStatus } from '../types';
+import { Trophy, ArrowLeft, Download, Search, ArrowUpDown, Calendar, Hash, Award, ImageIcon, Zap, Flame, Scale, List, Lock, Copy, Star } from 'lucide-react';
 import Button from './Button';
+import StarExportModal from './StarExportModal';
+import ListExportModal from './ListExportModal';
 import { INITIAL_ELO } from '../constants';
 import EloHistogram from './EloHistogram';
 import MovieDetailModal from './MovieDetailModal';
+import type { RatingEngine } from '../services/ratingEngine';
+import { fitBradleyTerry } from '../services/bradleyTerry';
+import { STRENGTH_MULTIPLIERS, STRENGTH_LABELS } from '../services/ratingEngine';
+import { FILM_STATUSES, FILM_STATUS_LABELS, getFilmStatus, isOnLeaderboard, setFilmStatus } from '../services/filmStatus';
+import { wasWatchedIn, getDiaryYears } from '../services/rankingSession';
 
 interface LeaderboardProps {
   movies: Movie[];
+  matchLog: MatchEvent[];
+  ratingEngine: RatingEngine;
+  onUpdateMovies: (updater: (prev: Movie[]) => Movie[]) => void;
+  onDefinitive: () => void;
+  onFindDuplicates: () => void;
   onBack: () => void;
 }
 
-type SortField = 'elo' | 'name' | 'year' | 'matches';
+type SortField = 'elo' | 'bt' | 'rd' | 'name' | 'year' | 'matches' | 'lastWatched' | 'watchCount';
 type SortDirection = 'asc' | 'desc';
 type ViewMode = 'RANKINGS' | 'INSIGHTS';
+type RankBasis = 'elo' | 'bt'; // Online rating vs. order-independent Bradley–Terry fit
+type StatusFilter = FilmStatus | 'VISIBLE' | 'ALL'; // VISIBLE = everything but hidden films
+type WatchFilter = 'ANY' | 'LOGGED' | 'UNLOGGED' | 'REWATCHED' | number; // number = watched in that year
+
+const matchesWatchFilter = (movie: Movie, filter: WatchFilter): boolean => {
+  switch (filter) {
+    case 'ANY': return true;
+    case 'LOGGED': return !!movie.watchCount;
+    case 'UNLOGGED': return !movie.watchCount;
+    case 'REWATCHED': return (movie.watchCount || 0) > 1 || !!movie.rewatchCount;
+    default: return wasWatchedIn(movie, filter);
+  }
+};
 
-const Leaderboard: React.FC<LeaderboardProps> = ({ movies, onBack }) => {
+const Leaderboard: React.FC<LeaderboardProps> = ({ movies, matchLog, ratingEngine, onUpdateMovies, onDefinitive, onFindDuplicates, onBack }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [sortField, setSortField] = useState<SortField>('elo');
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
   const [selectedMovie, setSelectedMovie] = useState<Movie | null>(null);
   const [viewMode, setViewMode] = useState<ViewMode>('RANKINGS');
+  const [rankBasis, setRankBasis] = useState<RankBasis>('elo');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('VISIBLE');
+  const [watchFilter, setWatchFilter] = useState<WatchFilter>('ANY');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [showStarExport, setShowStarExport] = useState(false);
+  const [showListExport, setShowListExport] = useState(false);
+
+  // Hidden films keep their ratings but drop out of ranks, stats and the histogram
+  const rankedMovies = useMemo(() => movies.filter(isOnLeaderboard), [movies]);
+  const diaryYears = useMemo(() => getDiaryYears(movies), [movies]);
+
+  // Batch fit over the whole match log; independent of the order votes were cast in
+  const btScores = useMemo(() => fitBradleyTerry(movies, matchLog), [movies, matchLog]);
+
+  // Ranks follow the chosen rank basis regardless of display sort
+  const rankScore = useCallback((m: Movie) => rankBasis === 'bt' ? btScores.get(m.id) || 0 : m.elo, [rankBasis, btScores]);
+  const rankOrder = useMemo(() => [...rankedMovies].sort((a, b) => rankScore(b) - rankScore(a)), [rankedMovies, rankScore]);
+
+  const toggleRankBasis = () => {
+    const next: RankBasis = rankBasis === 'elo' ? 'bt' : 'elo';
+    setRankBasis(next);
+    setSortField(next);
+    setSortDirection('desc');
+  };
+
+  // Engines without their own uncertainty (Elo) only have a match-count estimate; it isn't shown
+  const showDeviation = ratingEngine.tracksDeviation;
+  const activeSort: SortField = sortField === 'rd' && !showDeviation ? 'elo' : sortField;
 
   const handleSort = (field: SortField) => {
     if (sortField === field) {
@@ -35,20 +88,26 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ movies, onBack }) => {
   const processedMovies = useMemo(() => {
     // 1. Filter
     const filtered = movies.filter(m => 
-      m.name.toLowerCase().includes(searchTerm.toLowerCase())
+      m.name.toLowerCase().includes(searchTerm.toLowerCase()) &&
+      (statusFilter === 'ALL' || (statusFilter === 'VISIBLE' ? isOnLeaderboard(m) : getFilmStatus(m) === statusFilter)) &&
+      matchesWatchFilter(m, watchFilter)
     );
 
     // 2. Sort
     const sorted = [...filtered].sort((a, b) => {
-      let valA: any = a[sortField];
-      let valB: any = b[sortField];
+      let valA: any = activeSort === 'bt' ? btScores.get(a.id) : a[activeSort];
+      let valB: any = activeSort === 'bt' ? btScores.get(b.id) : b[activeSort];
+
+      // Films without diary entries sort as never watched
+      if (activeSort === 'lastWatched') { valA = valA || ''; valB = valB || ''; }
+      if (activeSort === 'watchCount') { valA = valA || 0; valB = valB || 0; }
 
       // Clean up strings for comparison
       if (typeof valA === 'string') valA = valA.toLowerCase();
       if (typeof valB === 'string') valB = valB.toLowerCase();
 
       // Handle Year which is string in type but number conceptually
-      if (sortField === 'year') {
+      if (activeSort === 'year') {
          valA = parseInt(a.year || '0');
          valB = parseInt(b.year || '0');
       }
@@ -58,27 +117,48 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ movies, onBack }) => {
       return 0;
     });
 
-    // 3. Add Ranks (based on Elo regardless of display sort, usually)
-    const eloSorted = [...movies].sort((a, b) => b.elo - a.elo);
-    const idToRank = new Map(eloSorted.map((m, i) => [m.id, i + 1]));
+    // 3. Add Ranks
+    const idToRank = new Map(rankOrder.map((m, i) => [m.id, i + 1]));
 
     return sorted.map(m => ({
       ...m,
-      trueRank: idToRank.get(m.id) || 0
+      trueRank: idToRank.get(m.id) || 0,
+      btScore: btScores.get(m.id) || INITIAL_ELO
     }));
 
-  }, [movies, searchTerm, sortField, sortDirection]);
+  }, [movies, rankOrder, searchTerm, statusFilter, watchFilter, activeSort, sortDirection, btScores]);
+
+  const visibleRows = processedMovies.slice(0, 100);
+  const allVisibleSelected = visibleRows.length > 0 && visibleRows.every(m => selectedIds.has(m.id));
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleAllVisible = () => {
+    setSelectedIds(allVisibleSelected ? new Set() : new Set(visibleRows.map(m => m.id)));
+  };
+
+  const applyStatus = (status: FilmStatus) => {
+    const ids = [...selectedIds];
+    onUpdateMovies(prev => setFilmStatus(prev, ids, status));
+    setSelectedIds(new Set());
+  };
 
   // --- Insights Calculation ---
   const insights = useMemo(() => {
      if (viewMode !== 'INSIGHTS') return null;
 
-     let biggestUpset = { movieName: '', oppName: '', diff: 0, date: 0 };
+     let biggestUpset = { movieName: '', oppName: '', diff: 0, score: 0, strength: '', date: 0 };
      let longestStreak = { movie: null as Movie | null, streak: 0 };
      let mostPolarizing = { movie: null as Movie | null, volatility: 0 };
 
      // Scan all movies
-     movies.forEach(m => {
+     rankedMovies.forEach(m => {
         // 1. Longest Streak
         if (m.history) {
            let currentStreak = 0;
@@ -112,11 +192,16 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ movies, onBack }) => {
               const myEloBefore = match.newElo - match.eloChange;
               if (match.result === 'WIN' && oppElo > myEloBefore) {
                   const diff = oppElo - myEloBefore;
-                  if (diff > biggestUpset.diff) {
+                  // An overwhelming win over a giant is a bigger upset than a slight one
+                  const strength = match.strength || 'CLEAR';
+                  const score = diff * STRENGTH_MULTIPLIERS[strength];
+                  if (score > biggestUpset.score) {
                       biggestUpset = {
                           movieName: m.name,
                           oppName: match.opponentName,
                           diff: Math.round(diff),
+                          score,
+                          strength: match.strength ? STRENGTH_LABELS[match.strength] : '',
                           date: match.timestamp
                       };
                   }
@@ -139,21 +224,29 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ movies, onBack }) => {
      });
 
      return { biggestUpset, longestStreak, mostPolarizing };
-  }, [movies, viewMode]);
+  }, [rankedMovies, viewMode]);
 
 
   const downloadCSV = () => {
-    const headers = ['Rank', 'Name', 'Year', 'Rating', 'ELO', 'Matches', 'Wins', 'Losses'];
-    const rows = processedMovies.map(m => [
-      m.trueRank,
-      `"${m.name.replace(/"/g, '""')}"`,
-      m.year,
-      m.rating || '',
-      Math.round(m.elo),
-      m.matches,
-      m.wins,
-      m.losses
-    ]);
+    // Engine-specific columns (e.g. Glicko-2 RD/volatility) come from the active rating engine
+    const engineKeys = movies.length > 0 ? Object.keys(ratingEngine.serializeState(movies[0])) : [];
+    const headers = ['Rank', 'Name', 'Year', 'Rating', 'ELO', 'BT', 'Matches', 'Wins', 'Draws', 'Losses', ...engineKeys.map(k => k.toUpperCase())];
+    const rows = processedMovies.map(m => {
+      const engineState = ratingEngine.serializeState(m);
+      return [
+        m.trueRank,
+        `"${m.name.replace(/"/g, '""')}"`,
+        m.year,
+        m.rating || '',
+        Math.round(m.elo),
+        Math.round(m.btScore),
+        m.matches,
+        m.wins,
+        m.draws,
+        m.losses,
+        ...engineKeys.map(k => Number(engineState[k].toFixed(3)))
+      ];
+    });
     const csvContent = [headers.join(','), ...rows.map(r => r.join(','))].join('\n');
     const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
     const url = URL.createObjectURL(blob);
@@ -166,7 +259,7 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ movies, onBack }) => {
   };
 
   const SortIcon = ({ field }: { field: SortField }) => {
-    if (sortField !== field) return <ArrowUpDown size={14} className="opacity-20" />;
+    if (activeSort !== field) return <ArrowUpDown size={14} className="opacity-20" />;
     return <ArrowUpDown size={14} className={`opacity-100 ${sortDirection === 'asc' ? 'rotate-180' : ''}`} />;
   };
 
@@ -176,10 +269,18 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ movies, onBack }) => {
       {selectedMovie && (
         <MovieDetailModal 
           movie={selectedMovie} 
+          tracksDeviation={showDeviation}
           onClose={() => setSelectedMovie(null)} 
         />
       )}
 
+      {showStarExport && (
+        <StarExportModal ranked={rankOrder} score={rankScore} onClose={() => setShowStarExport(false)} />
+      )}
+      {showListExport && (
+        <ListExportModal ranked={rankOrder} score={rankScore} selectedIds={selectedIds} onClose={() => setShowListExport(false)} />
+      )}
+
       {/* Header */}
       <div className="bg-bauhaus-blue p-6 md:p-10 text-white border-4 border-bauhaus-black shadow-hard-lg mb-8 relative overflow-hidden">
         {/* Abstract Background Shapes */}
@@ -205,10 +306,17 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ movies, onBack }) => {
                   >
                     Meta Insights
                   </button>
+                  <button 
+                    onClick={toggleRankBasis}
+                    title="Rank by a Bradley–Terry fit over all matches, which ignores the order votes were cast in"
+                    className={`text-sm font-bold uppercase tracking-widest px-3 py-1 border-2 border-bauhaus-yellow transition-colors ${rankBasis === 'bt' ? 'bg-bauhaus-yellow text-bauhaus-black' : 'text-bauhaus-yellow hover:bg-white/10'}`}
+                  >
+                    {rankBasis === 'bt' ? 'Order-Independent' : 'Live Elo'}
+                  </button>
               </div>
             </div>
 
-            <div className="flex flex-col sm:flex-row gap-3 w-full md:w-auto">
+            <div className="flex flex-col sm:flex-row sm:flex-wrap gap-3 w-full md:w-auto">
               <div className="relative">
                 <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-bauhaus-black" size={18} />
                 <input 
@@ -219,6 +327,18 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ movies, onBack }) => {
                   className="w-full sm:w-64 bg-white border-2 border-bauhaus-black py-3 pl-10 pr-4 text-bauhaus-black font-bold placeholder:text-gray-400 focus:outline-none focus:shadow-hard-sm transition-all uppercase text-sm"
                 />
               </div>
+              <Button onClick={onDefinitive} variant="outline" className="flex items-center justify-center gap-2" title="Sort your top films into a strict, locked order">
+                <Lock size={18} /> Definitive
+              </Button>
+              <Button onClick={onFindDuplicates} variant="outline" className="flex items-center justify-center gap-2" title="Find films imported more than once and merge them">
+                <Copy size={18} /> Duplicates
+              </Button>
+              <Button onClick={() => setShowStarExport(true)} variant="outline" className="flex items-center justify-center gap-2" title="Export your ranking as star ratings Letterboxd can import">
+                <Star size={18} /> Stars
+              </Button>
+              <Button onClick={() => setShowListExport(true)} variant="outline" className="flex items-center justify-center gap-2" title="Export your ranking as a ranked Letterboxd list">
+                <List size={18} /> List
+              </Button>
               <Button onClick={downloadCSV} variant="yellow">
                 <Download size={18} />
               </Button>
@@ -230,7 +350,62 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ movies, onBack }) => {
       {viewMode === 'RANKINGS' ? (
         <>
           {/* Overall Stats Graph */}
-          <EloHistogram movies={movies} />
+          <EloHistogram movies={rankedMovies} />
+
+          {/* Status Filter & Bulk Actions */}
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+            <label className="flex items-center gap-2 text-xs font-black uppercase tracking-widest">
+              Show
+              <select
+                value={statusFilter}
+                onChange={(e) => { setStatusFilter(e.target.value as StatusFilter); setSelectedIds(new Set()); }}
+                className="bg-white border-2 border-bauhaus-black px-2 py-1 font-bold uppercase focus:outline-none focus:shadow-hard-sm"
+              >
+                <option value="VISIBLE">All But Hidden</option>
+                <option value="ALL">Everything</option>
+                {FILM_STATUSES.map(status => (
+                  <option key={status} value={status}>{FILM_STATUS_LABELS[status]}</option>
+                ))}
+              </select>
+            </label>
+
+            <label className="flex items-center gap-2 text-xs font-black uppercase tracking-widest">
+              Watched
+              <select
+                value={String(watchFilter)}
+                onChange={(e) => {
+                  const value = e.target.value;
+                  setWatchFilter(/^\d+$/.test(value) ? Number(value) : value as WatchFilter);
+                  setSelectedIds(new Set());
+                }}
+                className="bg-white border-2 border-bauhaus-black px-2 py-1 font-bold uppercase focus:outline-none focus:shadow-hard-sm"
+              >
+                <option value="ANY">Any Time</option>
+                <option value="LOGGED">In Diary</option>
+                <option value="UNLOGGED">Not In Diary</option>
+                <option value="REWATCHED">Rewatched</option>
+                {diaryYears.map(year => <option key={year} value={year}>In {year}</option>)}
+              </select>
+            </label>
+
+            {selectedIds.size > 0 && (
+              <div className="flex flex-wrap items-center gap-2 bg-bauhaus-yellow border-2 border-bauhaus-black px-3 py-2 shadow-hard-sm text-xs font-black uppercase tracking-widest animate-slide-up">
+                <span>{selectedIds.size} Selected</span>
+                {FILM_STATUSES.map(status => (
+                  <button
+                    key={status}
+                    onClick={() => applyStatus(status)}
+                    className="bg-white border-2 border-bauhaus-black px-2 py-1 hover:bg-bauhaus-black hover:text-white transition-colors"
+                  >
+                    {FILM_STATUS_LABELS[status]}
+                  </button>
+                ))}
+                <button onClick={() => setSelectedIds(new Set())} className="px-2 py-1 text-gray-600 hover:text-bauhaus-black">
+                  Clear
+                </button>
+              </div>
+            )}
+          </div>
 
           {/* Table Container */}
           <div className="bg-white border-4 border-bauhaus-black shadow-hard-lg animate-slide-up">
@@ -238,6 +413,15 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ movies, onBack }) => {
               <table className="w-full text-left border-collapse">
                 <thead>
                   <tr className="bg-bauhaus-black text-white text-sm uppercase tracking-widest cursor-pointer select-none">
+                    <th className="p-4 w-10 text-center">
+                        <input
+                          type="checkbox"
+                          checked={allVisibleSelected}
+                          onChange={toggleAllVisible}
+                          className="w-4 h-4 accent-bauhaus-yellow cursor-pointer"
+                          title="Select all shown"
+                        />
+                    </th>
                     <th 
                         className="p-4 font-bold w-20 text-center hover:bg-white/10 transition-colors group"
                         onClick={() => handleSort('elo')}
@@ -262,6 +446,26 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ movies, onBack }) => {
                              ELO <SortIcon field="elo" />
                         </div>
                     </th>
+                    <th 
+                        className="p-4 font-bold text-right border-l-2 border-white/20 w-28 hidden md:table-cell hover:bg-white/10 transition-colors"
+                        onClick={() => handleSort('bt')}
+                        title="Bradley–Terry strength: order-independent fit over all matches"
+                    >
+                        <div className="flex items-center justify-end gap-2">
+                             BT <SortIcon field="bt" />
+                        </div>
+                    </th>
+                    {showDeviation && (
+                    <th 
+                        className="p-4 font-bold text-right border-l-2 border-white/20 w-28 hidden md:table-cell hover:bg-white/10 transition-colors"
+                        onClick={() => handleSort('rd')}
+                        title="Rating Deviation: how uncertain the rating still is"
+                    >
+                        <div className="flex items-center justify-end gap-2">
+                             ± RD <SortIcon field="rd" />
+                        </div>
+                    </th>
+                    )}
                     <th 
                         className="p-4 font-bold text-center border-l-2 border-white/20 hidden sm:table-cell hover:bg-white/10 transition-colors"
                         onClick={() => handleSort('matches')}
@@ -270,16 +474,39 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ movies, onBack }) => {
                              MATCHES <SortIcon field="matches" />
                         </div>
                     </th>
+                    <th 
+                        className="p-4 font-bold text-right border-l-2 border-white/20 hidden lg:table-cell hover:bg-white/10 transition-colors"
+                        onClick={() => handleSort('lastWatched')}
+                        title="Last diary entry (click × to sort by number of watches)"
+                    >
+                        <div className="flex items-center justify-end gap-2">
+                             WATCHED <SortIcon field="lastWatched" />
+                             <button
+                               onClick={(e) => { e.stopPropagation(); handleSort('watchCount'); }}
+                               className="flex items-center gap-1 hover:text-bauhaus-yellow"
+                             >
+                               × <SortIcon field="watchCount" />
+                             </button>
+                        </div>
+                    </th>
                   </tr>
                 </thead>
                 <tbody>
-                  {processedMovies.slice(0, 100).map((movie, index) => (
+                  {visibleRows.map((movie, index) => (
                     <tr 
                       key={movie.id} 
-                      className="border-b-2 border-bauhaus-muted hover:bg-bauhaus-yellow/20 transition-colors group cursor-pointer"
+                      className={`border-b-2 border-bauhaus-muted hover:bg-bauhaus-yellow/20 transition-colors group cursor-pointer ${getFilmStatus(movie) !== 'ACTIVE' ? 'opacity-60' : ''}`}
                       onClick={() => setSelectedMovie(movie)}
                       style={{ animationDelay: `${index * 30}ms` }}
                     >
+                      <td className="p-4 text-center" onClick={(e) => e.stopPropagation()}>
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.has(movie.id)}
+                          onChange={() => toggleSelected(movie.id)}
+                          className="w-4 h-4 accent-bauhaus-blue cursor-pointer"
+                        />
+                      </td>
                       <td className="p-4 text-center">
                         <div className={`
                           font-black text-xl w-10 h-10 flex items-center justify-center mx-auto border-2 border-bauhaus-black shadow-hard-sm
@@ -287,7 +514,7 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ movies, onBack }) => {
                             movie.trueRank === 2 ? 'bg-gray-300 text-bauhaus-black' : 
                             movie.trueRank === 3 ? 'bg-bauhaus-red text-white' : 'bg-white text-bauhaus-black'}
                         `}>
-                          {movie.trueRank}
+                          {movie.trueRank || '—'}
                         </div>
                       </td>
                       <td className="p-4">
@@ -310,6 +537,11 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ movies, onBack }) => {
                                  <span className="text-xs font-mono text-gray-500 bg-gray-100 px-1 border border-gray-300">
                                     {movie.year}
                                  </span>
+                                 {getFilmStatus(movie) !== 'ACTIVE' && (
+                                   <span className="text-[10px] uppercase font-black text-white bg-bauhaus-black px-1">
+                                      {FILM_STATUS_LABELS[getFilmStatus(movie)]}
+                                   </span>
+                                 )}
                                  <span className="text-[10px] uppercase font-bold text-bauhaus-blue opacity-0 group-hover:opacity-100 transition-opacity">
                                     View Details
                                  </span>
@@ -327,11 +559,33 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ movies, onBack }) => {
                             </div>
                         )}
                       </td>
+                      <td className="p-4 text-right hidden md:table-cell">
+                        <span className="font-mono text-sm font-bold text-bauhaus-blue">
+                          {Math.round(movie.btScore)}
+                        </span>
+                      </td>
+                      {showDeviation && (
+                      <td className="p-4 text-right hidden md:table-cell">
+                        <span className={`font-mono text-sm font-bold ${movie.rd < 100 ? 'text-bauhaus-black' : movie.rd < 200 ? 'text-gray-500' : 'text-gray-300'}`}>
+                          ±{Math.round(movie.rd)}
+                        </span>
+                      </td>
+                      )}
                       <td className="p-4 text-center hidden sm:table-cell">
                         <span className="font-mono text-xs font-bold border border-bauhaus-black px-2 py-1 bg-white shadow-[2px_2px_0px_0px_black]">
-                          {movie.wins}W - {movie.losses}L
+                          {movie.wins}W - {movie.draws}D - {movie.losses}L
                         </span>
                       </td>
+                      <td className="p-4 text-right hidden lg:table-cell">
+                        {movie.lastWatched ? (
+                          <div className="font-mono text-xs font-bold">
+                            {movie.lastWatched}
+                            {(movie.watchCount || 0) > 1 && <span className="ml-1 text-bauhaus-blue">×{movie.watchCount}</span>}
+                          </div>
+                        ) : (
+                          <span className="text-gray-300 font-mono text-xs">—</span>
+                        )}
+                      </td>
                     </tr>
                   ))}
                 </tbody>
@@ -340,7 +594,7 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ movies, onBack }) => {
             
             {processedMovies.length === 0 && (
                 <div className="p-12 text-center font-bold uppercase text-gray-400">
-                    No films match your search
+                    No films match your filters
                 </div>
             )}
           </div>
@@ -363,7 +617,8 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ movies, onBack }) => {
                             Defeated {insights.biggestUpset.oppName}
                         </div>
                         <p className="text-sm font-medium">
-                            Overcame a <span className="font-black text-bauhaus-red">{insights.biggestUpset.diff} point</span> Elo difference.
+                            Overcame a <span className="font-black text-bauhaus-red">{insights.biggestUpset.diff} point</span> Elo difference
+                            {insights.biggestUpset.strength ? <> with a <span className="font-black">{insights.biggestUpset.strength.toLowerCase()}</span> preference</> : null}.
                         </p>
                     </div>
                 ) : (
@@ -0,0 +1,196 @@
+import React, { useMemo, useState } from 'react';
+import { X, List, Download } from 'lucide-react';
+import { Movie, SessionFilter } from '../types';
+import { applySessionFilter, getLibraryDecades, getDiaryYears } from '../services/rankingSession';
+import { ListEntry, toLetterboxdListCSV } from '../services/letterboxdExport';
+import Button from './Button';
+
+interface ListExportModalProps {
+  ranked: Movie[]; // Leaderboard order, best first
+  score: (movie: Movie) => number;
+  selectedIds: Set<string>; // Films ticked on the leaderboard
+  onClose: () => void;
+}
+
+type SubsetKind = 'ALL' | 'DECADE' | 'YEAR_RANGE' | 'WATCHED_IN' | 'SELECTED';
+
+const SUBSET_LABELS: Record<SubsetKind, string> = {
+  ALL: 'Whole Ranking',
+  DECADE: 'Decade',
+  YEAR_RANGE: 'Year Range',
+  WATCHED_IN: 'Watched In',
+  SELECTED: 'Ticked Films'
+};
+
+const TOP_OPTIONS = [10, 25, 50, 100, 250, 0]; // 0 = all
+const EDITABLE_LIMIT = 100;
+
+const inputClass = 'w-full bg-white border-2 border-bauhaus-black px-3 py-2 text-sm font-bold focus:outline-none focus:shadow-hard-sm';
+
+/**
+ * Exports the current ranking as a ranked Letterboxd list: a top N of the
+ * whole library or a subset, with an optional note per film.
+ */
+const ListExportModal: React.FC<ListExportModalProps> = ({ ranked, score, selectedIds, onClose }) => {
+  const decades = useMemo(() => getLibraryDecades(ranked), [ranked]);
+  const diaryYears = useMemo(() => getDiaryYears(ranked), [ranked]);
+
+  const [subset, setSubset] = useState<SubsetKind>(selectedIds.size > 0 ? 'SELECTED' : 'ALL');
+  const [decade, setDecade] = useState(decades[decades.length - 1] || 2000);
+  const [fromYear, setFromYear] = useState(1990);
+  const [toYear, setToYear] = useState(1999);
+  const [watchedYear, setWatchedYear] = useState(diaryYears[0] || new Date().getFullYear());
+  const [topN, setTopN] = useState(25);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  // Fills notes left empty with the film's Elo and record
+  const [statNotes, setStatNotes] = useState(false);
+
+  const entries: ListEntry[] = useMemo(() => {
+    let films: Movie[];
+    if (subset === 'SELECTED') {
+      films = ranked.filter(m => selectedIds.has(m.id));
+    } else {
+      const filter: SessionFilter =
+        subset === 'DECADE' ? { kind: 'DECADE', decade } :
+        subset === 'YEAR_RANGE' ? { kind: 'YEAR_RANGE', from: Math.min(fromYear, toYear), to: Math.max(fromYear, toYear) } :
+        subset === 'WATCHED_IN' ? { kind: 'WATCHED_IN', year: watchedYear } :
+        { kind: 'ALL' };
+      films = applySessionFilter(ranked, filter); // Keeps ranking order
+    }
+
+    return films.slice(0, topN || undefined).map((movie, i) => {
+      const record = `${Math.round(score(movie))} Elo • ${movie.wins}–${movie.losses}${movie.draws ? `–${movie.draws}` : ''}`;
+      return { movie, position: i + 1, note: notes[movie.id]?.trim() || (statNotes ? record : '') };
+    });
+  }, [ranked, score, selectedIds, subset, decade, fromYear, toYear, watchedYear, topN, notes, statNotes]);
+
+  const downloadCSV = () => {
+    const blob = new Blob([toLetterboxdListCSV(entries)], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.setAttribute('download', `filmelo_letterboxd_list_top_${entries.length}.csv`);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-bauhaus-black/60 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white w-full max-w-3xl max-h-[90vh] overflow-y-auto border-4 border-bauhaus-black shadow-hard-xl relative flex flex-col">
+
+        {/* Header */}
+        <div className="sticky top-0 bg-bauhaus-black text-white p-6 border-b-4 border-bauhaus-black flex justify-between items-start z-10">
+          <div>
+            <h2 className="text-3xl font-black uppercase tracking-tighter leading-none mb-2 flex items-center gap-3">
+              <List size={28} className="text-bauhaus-yellow" /> Export Ranked List
+            </h2>
+            <p className="text-xs font-bold uppercase tracking-widest text-gray-400">
+              Import on letterboxd.com when creating a list
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1 hover:bg-white hover:text-bauhaus-black transition-colors">
+            <X size={24} strokeWidth={3} />
+          </button>
+        </div>
+
+        <div className="p-6 md:p-8 space-y-6">
+          {/* Subset */}
+          <section className="grid grid-cols-1 sm:grid-cols-3 gap-3 items-end">
+            <label className="block">
+              <span className="text-[10px] font-black uppercase tracking-widest text-gray-500">Films</span>
+              <select value={subset} onChange={(e) => setSubset(e.target.value as SubsetKind)} className={inputClass}>
+                {(Object.keys(SUBSET_LABELS) as SubsetKind[])
+                  .filter(kind => kind !== 'SELECTED' || selectedIds.size > 0)
+                  .filter(kind => kind !== 'WATCHED_IN' || diaryYears.length > 0)
+                  .map(kind => <option key={kind} value={kind}>{SUBSET_LABELS[kind]}</option>)}
+              </select>
+            </label>
+
+            <div className="sm:col-span-1">
+              {subset === 'DECADE' && (
+                <select value={decade} onChange={(e) => setDecade(Number(e.target.value))} className={inputClass}>
+                  {decades.map(d => <option key={d} value={d}>{d}s</option>)}
+                </select>
+              )}
+              {subset === 'YEAR_RANGE' && (
+                <div className="flex items-center gap-2">
+                  <input type="number" value={fromYear} onChange={(e) => setFromYear(Number(e.target.value))} className={inputClass} />
+                  <span className="font-black">–</span>
+                  <input type="number" value={toYear} onChange={(e) => setToYear(Number(e.target.value))} className={inputClass} />
+                </div>
+              )}
+              {subset === 'WATCHED_IN' && (
+                <select value={watchedYear} onChange={(e) => setWatchedYear(Number(e.target.value))} className={inputClass}>
+                  {diaryYears.map(y => <option key={y} value={y}>{y}</option>)}
+                </select>
+              )}
+              {subset === 'SELECTED' && (
+                <p className="text-xs font-bold uppercase text-gray-500 py-2">{selectedIds.size} ticked on the leaderboard</p>
+              )}
+            </div>
+
+            <label className="block">
+              <span className="text-[10px] font-black uppercase tracking-widest text-gray-500">Length</span>
+              <select value={topN} onChange={(e) => setTopN(Number(e.target.value))} className={inputClass}>
+                {TOP_OPTIONS.map(n => <option key={n} value={n}>{n ? `Top ${n}` : 'All'}</option>)}
+              </select>
+            </label>
+          </section>
+
+          <label className="flex items-center gap-3 text-xs font-bold uppercase cursor-pointer">
+            <input
+              type="checkbox"
+              checked={statNotes}
+              onChange={(e) => setStatNotes(e.target.checked)}
+              className="w-4 h-4 accent-bauhaus-blue"
+            />
+            Put each film's Elo and record in notes you leave empty
+          </label>
+
+          {/* Entries */}
+          <section className="border-2 border-bauhaus-black">
+            <div className="px-4 py-2 bg-gray-100 text-xs font-black uppercase tracking-widest">
+              {entries.length} Films
+            </div>
+            {entries.length === 0 ? (
+              <p className="p-4 text-xs font-bold uppercase text-bauhaus-red">No films match.</p>
+            ) : (
+              <ul className="divide-y divide-gray-200 max-h-96 overflow-y-auto">
+                {entries.slice(0, EDITABLE_LIMIT).map(({ movie, position, note }) => (
+                  <li key={movie.id} className="px-4 py-2 flex items-center gap-3 text-sm">
+                    <span className="w-8 font-black font-mono text-right flex-shrink-0">{position}</span>
+                    <span className="w-1/3 font-bold uppercase truncate flex-shrink-0">
+                      {movie.name} <span className="text-gray-400 font-mono">{movie.year}</span>
+                    </span>
+                    <input
+                      type="text"
+                      value={notes[movie.id] || ''}
+                      placeholder={note || 'Note (optional)'}
+                      onChange={(e) => setNotes(prev => ({ ...prev, [movie.id]: e.target.value }))}
+                      className="flex-1 min-w-0 border-b-2 border-gray-200 px-1 py-1 text-xs focus:outline-none focus:border-bauhaus-blue"
+                    />
+                  </li>
+                ))}
+                {entries.length > EDITABLE_LIMIT && (
+                  <li className="px-4 py-2 text-[10px] font-black uppercase text-gray-400">
+                    + {entries.length - EDITABLE_LIMIT} more (notes can be added to the first {EDITABLE_LIMIT})
+                  </li>
+                )}
+              </ul>
+            )}
+          </section>
+
+          <div className="flex justify-end gap-3">
+            <Button onClick={onClose} variant="outline">Cancel</Button>
+            <Button onClick={downloadCSV} variant="yellow" disabled={entries.length === 0} className="flex items-center gap-2">
+              <Download size={18} /> Download List
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ListExportModal;
@@ -1,22 +1,41 @@
 import React from 'react';
-import { Movie } from '../types';
-import { Star, TrendingUp, Trophy, TrendingDown } from 'lucide-react';
+import { Movie, VoteStrength } from '../types';
+import { STRENGTH_LABELS } from '../services/ratingEngine';
+import { Star, TrendingUp, Trophy, TrendingDown, Equal } from 'lucide-react';
 
 export interface Feedback {
-  type: 'WIN' | 'LOSS';
+  type: 'WIN' | 'LOSS' | 'DRAW';
   diff: number;
 }
 
 interface MovieCardProps {
   movie: Movie;
-  onClick: () => void;
+  onClick: (strength: VoteStrength) => void;
   aiData?: { vibe: string; strengths: string[] };
   feedback?: Feedback | null;
 }
 
+const STRENGTHS: VoteStrength[] = ['SLIGHT', 'CLEAR', 'OVERWHELMING'];
+
+/**
+ * Modifier keys pick the preference strength: Shift = overwhelming, Alt = slight.
+ */
+export const getStrengthFromModifiers = (e: { shiftKey: boolean; altKey: boolean }): VoteStrength => {
+  if (e.shiftKey) return 'OVERWHELMING';
+  if (e.altKey) return 'SLIGHT';
+  return 'CLEAR';
+};
+
+// Small positive number from a string, the same on every render and every import
+const hashId = (id: string): number => {
+  let hash = 0;
+  for (let i = 0; i < id.length; i++) hash = (hash * 31 + id.charCodeAt(i)) | 0;
+  return Math.abs(hash) % 10007;
+};
+
 const MovieCard: React.FC<MovieCardProps> = ({ movie, onClick, aiData, feedback }) => {
   // Deterministic "Art" Generation based on ID
-  const seed = parseInt(movie.id.split('-').pop() || '0') + movie.name.length;
+  const seed = hashId(movie.id);
   
   // Bauhaus palette choices
   const colors = ['#D02020', '#1040C0', '#F0C020', '#121212', '#FFFFFF'];
@@ -38,7 +57,7 @@ const MovieCard: React.FC<MovieCardProps> = ({ movie, onClick, aiData, feedback
 
   return (
     <div 
-      onClick={onClick}
+      onClick={(e) => onClick(getStrengthFromModifiers(e))}
       className="group relative w-full cursor-pointer bg-white border-4 border-bauhaus-black shadow-hard-lg hover:shadow-hard-xl hover:-translate-y-2 transition-all duration-300 flex flex-col h-full overflow-hidden"
     >
       {/* Feedback Overlays - Inside the transformed container to track hover state */}
@@ -63,6 +82,17 @@ const MovieCard: React.FC<MovieCardProps> = ({ movie, onClick, aiData, feedback
          </div>
       )}
 
+      {feedback?.type === 'DRAW' && (
+         <div className="absolute inset-0 z-30 flex items-center justify-center pointer-events-none bg-bauhaus-yellow/10 backdrop-blur-[2px] border-4 border-bauhaus-yellow animate-slide-up">
+             <div className="text-center">
+                <span className="text-6xl font-black text-bauhaus-black drop-shadow-md block mb-4">DRAW</span>
+                <div className="inline-flex items-center justify-center text-bauhaus-black font-bold text-3xl bg-white px-6 py-3 border-4 border-bauhaus-black shadow-hard-md">
+                    <Equal size={28} className="mr-3"/> {feedback.diff > 0 ? '+' : ''}{Math.round(feedback.diff)}
+                </div>
+             </div>
+         </div>
+      )}
+
       {/* 1. Poster / Art Area (Top 2/3) */}
       <div 
         className="relative h-64 md:h-80 w-full overflow-hidden border-b-4 border-bauhaus-black bg-gray-100"
@@ -153,6 +183,23 @@ const MovieCard: React.FC<MovieCardProps> = ({ movie, onClick, aiData, feedback
             </span>
           </div>
         )}
+
+        {/* Strength Zone: vote with an explicit margin of preference */}
+        <div className="mt-4 grid grid-cols-3 border-2 border-bauhaus-black opacity-60 group-hover:opacity-100 transition-opacity">
+          {STRENGTHS.map((strength, idx) => (
+            <button
+              key={strength}
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation();
+                onClick(strength);
+              }}
+              className={`py-2 text-[10px] font-black uppercase tracking-widest hover:bg-bauhaus-yellow transition-colors ${idx > 0 ? 'border-l-2 border-bauhaus-black' : ''}`}
+            >
+              {STRENGTH_LABELS[strength]}
+            </button>
+          ))}
+        </div>
       </div>
     </div>
   );
@@ -2,13 +2,15 @@ import React, { useMemo } from 'react';
 import { Movie, MatchRecord } from '../types';
 import { X, Trophy, TrendingUp, TrendingDown, Minus, Calendar, AlertCircle, Activity, Zap, Shield, Target } from 'lucide-react';
 import { INITIAL_ELO } from '../constants';
+import { STRENGTH_LABELS } from '../services/ratingEngine';
 
 interface MovieDetailModalProps {
   movie: Movie;
+  tracksDeviation: boolean; // False for engines whose rd is only a match-count estimate
   onClose: () => void;
 }
 
-const MovieDetailModal: React.FC<MovieDetailModalProps> = ({ movie, onClose }) => {
+const MovieDetailModal: React.FC<MovieDetailModalProps> = ({ movie, tracksDeviation, onClose }) => {
   
   // --- 1. Graph Data Prep ---
   const graphPoints = useMemo(() => {
@@ -80,9 +82,12 @@ const MovieDetailModal: React.FC<MovieDetailModalProps> = ({ movie, onClose }) =
 
     const clutchFactor = closeMatches > 0 ? Math.round((closeWins / closeMatches) * 100) : 0;
     
-    // Confidence (Deviation): Based on match count.
-    // 0 matches = 0% confidence. 20 matches = ~90% confidence.
-    const confidence = Math.min(Math.round((movie.matches / 20) * 100), 100);
+    // Confidence: Glicko-2 rating deviation (350 = unknown, under ~100 = settled),
+    // or for engines without one, the K-factor tiers' match counts
+    const deviation = Math.round(movie.rd);
+    const dataQuality = tracksDeviation
+      ? (deviation < 100 ? 'HIGH' : deviation < 200 ? 'MED' : 'LOW')
+      : (movie.matches >= 15 ? 'HIGH' : movie.matches >= 5 ? 'MED' : 'LOW');
 
     return {
         peakElo,
@@ -90,10 +95,11 @@ const MovieDetailModal: React.FC<MovieDetailModalProps> = ({ movie, onClose }) =
         volatilityScore,
         clutchFactor,
         upsetWins,
-        confidence,
+        deviation,
+        dataQuality,
         closeMatches
     };
-  }, [movie, graphPoints]);
+  }, [movie, graphPoints, tracksDeviation]);
 
   // --- 3. SVG Path Generation ---
   const svgPath = useMemo(() => {
@@ -126,10 +132,20 @@ const MovieDetailModal: React.FC<MovieDetailModalProps> = ({ movie, onClose }) =
                         ★ {movie.rating}
                      </span>
                    )}
-                   <span className="bg-white/20 px-2 py-0.5 text-xs font-bold uppercase">
-                      Rank Confidence: {stats.confidence}%
-                   </span>
+                   {tracksDeviation && (
+                     <span className="bg-white/20 px-2 py-0.5 text-xs font-bold uppercase">
+                        Rating ± {stats.deviation}
+                     </span>
+                   )}
                 </div>
+                {!!movie.watchCount && (
+                   <div className="flex flex-wrap items-center gap-3 mt-3 text-xs font-bold uppercase">
+                      <Calendar size={14} className="text-bauhaus-yellow" />
+                      <span>Watched {movie.watchCount}×{movie.rewatchCount ? ` (${movie.rewatchCount} rewatch${movie.rewatchCount === 1 ? '' : 'es'})` : ''}</span>
+                      {movie.firstWatched && <span className="opacity-70">First {movie.firstWatched}</span>}
+                      {movie.lastWatched && movie.lastWatched !== movie.firstWatched && <span className="opacity-70">Last {movie.lastWatched}</span>}
+                   </div>
+                )}
              </div>
              <button onClick={onClose} className="p-1 hover:bg-white hover:text-bauhaus-blue transition-colors">
                 <X size={24} strokeWidth={3} />
@@ -164,8 +180,9 @@ const MovieDetailModal: React.FC<MovieDetailModalProps> = ({ movie, onClose }) =
                      <div className="p-4 border-2 border-bauhaus-black bg-bauhaus-black text-white">
                         <div className="text-xs font-bold uppercase opacity-70 mb-2">Performance</div>
                         <div className="flex justify-between items-end">
-                            <div className="text-3xl font-black">{movie.matches > 0 ? Math.round((movie.wins / movie.matches) * 100) : 0}%</div>
-                            <div className="text-sm font-mono text-bauhaus-yellow">{movie.wins}W - {movie.losses}L</div>
+                            {/* Draws count as half a win */}
+                            <div className="text-3xl font-black">{movie.matches > 0 ? Math.round(((movie.wins + movie.draws / 2) / movie.matches) * 100) : 0}%</div>
+                            <div className="text-sm font-mono text-bauhaus-yellow">{movie.wins}W - {movie.draws}D - {movie.losses}L</div>
                         </div>
                      </div>
                  </div>
@@ -225,11 +242,16 @@ const MovieDetailModal: React.FC<MovieDetailModalProps> = ({ movie, onClose }) =
                         </div>
                         <div className="flex items-end gap-2">
                              <span className="text-3xl font-black text-bauhaus-black">
-                                {stats.confidence < 30 ? 'LOW' : stats.confidence < 70 ? 'MED' : 'HIGH'}
+                                {stats.dataQuality}
+                             </span>
+                             <span className="text-xs font-bold text-gray-400 mb-1">
+                                {tracksDeviation ? `RD ${stats.deviation}` : 'By matches'}
                              </span>
                         </div>
                         <p className="text-[10px] uppercase font-bold text-gray-500 mt-2">
-                            Based on {movie.matches} total sample size
+                            {tracksDeviation
+                              ? `${movie.matches} matches • σ ${movie.volatility.toFixed(3)}`
+                              : `${movie.matches} matches • Elo doesn't track uncertainty`}
                         </p>
                      </div>
                  </div>
@@ -291,11 +313,18 @@ const MovieDetailModal: React.FC<MovieDetailModalProps> = ({ movie, onClose }) =
                                    <td className="p-2">
                                       {match.result === 'WIN' ? (
                                         <span className="text-green-600 font-black text-xs border border-green-600 px-1">WIN</span>
+                                      ) : match.result === 'DRAW' ? (
+                                        <span className="text-gray-600 font-black text-xs border border-gray-600 px-1">DRAW</span>
                                       ) : (
                                         <span className="text-red-600 font-black text-xs border border-red-600 px-1">LOSS</span>
                                       )}
                                    </td>
-                                   <td className="p-2 font-bold truncate max-w-[150px]">{match.opponentName}</td>
+                                   <td className="p-2 font-bold truncate max-w-[150px]">
+                                      {match.opponentName}
+                                      {match.strength && match.strength !== 'CLEAR' && (
+                                        <span className="ml-2 text-[10px] font-black uppercase text-gray-400">{STRENGTH_LABELS[match.strength]}</span>
+                                      )}
+                                   </td>
                                    <td className={`p-2 text-right font-mono font-bold ${match.eloChange > 0 ? 'text-green-600' : 'text-red-600'}`}>
                                       {match.eloChange > 0 ? '+' : ''}{Math.round(match.eloChange)}
                                    </td>
@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { Movie } from '../types';
+import { ChevronUp, ChevronDown, GripVertical, ImageIcon, Check } from 'lucide-react';
+import Button from './Button';
+
+interface RankingRoundProps {
+  movies: Movie[]; // The films in this round, in the order first shown
+  onSubmit: (orderedIds: string[]) => void;
+  disabled?: boolean;
+  isExiting?: boolean;
+}
+
+/**
+ * Drag-to-order list for ranking several films at once (best at the top).
+ * The parent should key this component by the round so the order resets between rounds.
+ */
+const RankingRound: React.FC<RankingRoundProps> = ({ movies, onSubmit, disabled, isExiting }) => {
+  // Track ids rather than films so late-arriving posters still show up
+  const [orderIds, setOrderIds] = useState<string[]>(() => movies.map(m => m.id));
+  const order = orderIds
+    .map(id => movies.find(m => m.id === id))
+    .filter((m): m is Movie => !!m);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= order.length || from === to) return;
+    setOrderIds(prev => {
+      const next = [...prev];
+      const [item] = next.splice(from, 1);
+      next.splice(to, 0, item);
+      return next;
+    });
+  };
+
+  const handleDragOver = (e: React.DragEvent, index: number) => {
+    e.preventDefault();
+    if (dragIndex === null || dragIndex === index) return;
+    // Reorder live while dragging so the list previews the drop
+    move(dragIndex, index);
+    setDragIndex(index);
+  };
+
+  return (
+    <div className={`max-w-3xl mx-auto w-full ${isExiting ? 'animate-slide-out-left' : 'animate-slide-in-left'}`}>
+      <ol className="space-y-3">
+        {order.map((movie, index) => (
+          <li
+            key={movie.id}
+            draggable={!disabled}
+            onDragStart={() => setDragIndex(index)}
+            onDragOver={(e) => handleDragOver(e, index)}
+            onDragEnd={() => setDragIndex(null)}
+            className={`
+              flex items-center gap-4 bg-white border-4 border-bauhaus-black p-3 shadow-hard-sm transition-all select-none
+              ${disabled ? 'opacity-60' : 'cursor-grab active:cursor-grabbing hover:shadow-hard-md'}
+              ${dragIndex === index ? 'bg-bauhaus-yellow/30 -translate-y-1' : ''}
+            `}
+          >
+            <GripVertical size={20} className="text-gray-400 flex-shrink-0" />
+
+            <div className={`
+              font-black text-xl w-10 h-10 flex-shrink-0 flex items-center justify-center border-2 border-bauhaus-black shadow-hard-sm
+              ${index === 0 ? 'bg-bauhaus-yellow' : index === order.length - 1 ? 'bg-gray-200' : 'bg-white'}
+            `}>
+              {index + 1}
+            </div>
+
+            <div className="w-10 h-14 bg-gray-200 border-2 border-bauhaus-black flex-shrink-0 relative overflow-hidden">
+              {movie.posterPath ? (
+                <img src={movie.posterPath} alt="" className="w-full h-full object-cover" draggable={false} />
+              ) : (
+                <div className="w-full h-full flex items-center justify-center text-gray-400">
+                  <ImageIcon size={16} />
+                </div>
+              )}
+            </div>
+
+            <div className="flex-1 min-w-0">
+              <div className="font-bold text-lg uppercase tracking-tight truncate">{movie.name}</div>
+              <div className="flex gap-2 items-center mt-1">
+                <span className="text-xs font-mono text-gray-500 bg-gray-100 px-1 border border-gray-300">{movie.year}</span>
+                <span className="text-[10px] font-bold uppercase text-gray-400">ELO {Math.round(movie.elo)}</span>
+              </div>
+            </div>
+
+            <div className="flex flex-col">
+              <button
+                type="button"
+                onClick={() => move(index, index - 1)}
+                disabled={disabled || index === 0}
+                className="p-1 hover:text-bauhaus-blue disabled:opacity-20"
+                title="Move up"
+              >
+                <ChevronUp size={18} />
+              </button>
+              <button
+                type="button"
+                onClick={() => move(index, index + 1)}
+                disabled={disabled || index === order.length - 1}
+                className="p-1 hover:text-bauhaus-blue disabled:opacity-20"
+                title="Move down"
+              >
+                <ChevronDown size={18} />
+              </button>
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      <div className="mt-8 flex justify-center">
+        <Button
+          onClick={() => onSubmit(order.map(m => m.id))}
+          variant="primary"
+          disabled={disabled}
+          className="flex items-center gap-2 px-8 py-4 text-base"
+        >
+          <Check size={20} /> Lock In Order
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default RankingRound;
@@ -0,0 +1,249 @@
+import React, { useMemo, useState } from 'react';
+import { X, FileUp, Upload, Plus, RefreshCw, Minus, AlertCircle } from 'lucide-react';
+import { Movie, ImportReport } from '../types';
+import type { RatingEngine } from '../services/ratingEngine';
+import {
+  EloStrategy,
+  ReimportPlan,
+  ReimportUpdate,
+  readImportFiles,
+  mergeImportFiles,
+  planReimport,
+  applyReimport
+} from '../services/importService';
+import { setFilmStatus } from '../services/filmStatus';
+import { SeedingCurveId, SeedTable, LINEAR_SEED_TABLE, buildSeedTable } from '../services/seedingCurve';
+import Button from './Button';
+import SeedingCurvePicker from './SeedingCurvePicker';
+
+interface ReimportModalProps {
+  movies: Movie[];
+  ratingEngine: RatingEngine;
+  onApply: (updater: (prev: Movie[]) => Movie[], report: ImportReport) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_LIMIT = 50;
+
+const describeUpdate = (update: ReimportUpdate): string => {
+  const parts: string[] = [];
+  if (update.ratingChanged) parts.push(`★ ${update.movie.rating ?? '–'} → ${update.film.rating}`);
+  if (update.diaryChanged) parts.push(`Watched ${update.film.watchCount}×`);
+  if (update.uriAdded) parts.push('Letterboxd link');
+  return parts.join(' • ');
+};
+
+/**
+ * Merges a newer Letterboxd export into the library without touching votes.
+ * Shows what would be added, updated and is missing before anything changes.
+ */
+const ReimportModal: React.FC<ReimportModalProps> = ({ movies, ratingEngine, onApply, onClose }) => {
+  const [strategy, setStrategy] = useState<EloStrategy>('rating');
+  const [curve, setCurve] = useState<SeedingCurveId>('linear');
+  const [customTable, setCustomTable] = useState<SeedTable>(LINEAR_SEED_TABLE);
+  const [plan, setPlan] = useState<ReimportPlan | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [excludeRemoved, setExcludeRemoved] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const result = mergeImportFiles(await readImportFiles(Array.from(files)), 'Letterboxd export (merge)');
+      const { films, filesUsed } = result;
+      if (filesUsed.length === 0 || films.length === 0) {
+        throw new Error("No films found. Drop your Letterboxd export ZIP or CSVs with 'Name' and 'Year' columns.");
+      }
+      setPlan(planReimport(movies, films));
+      setReport(result.report);
+    } catch (e: any) {
+      console.error(e);
+      setError(e.message || 'Failed to read the export.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Percentiles come from the whole library as it will be, not just the new films
+  const seedTable = useMemo(() => {
+    const ratings = [...movies.map(m => m.rating || 0), ...(plan?.added.map(f => f.rating || 0) || [])];
+    return buildSeedTable(curve, ratings, customTable);
+  }, [curve, customTable, movies, plan]);
+
+  const handleApply = () => {
+    if (!plan || !report) return;
+    const removedIds = plan.removed.map(m => m.id);
+    onApply(prev => {
+      const merged = applyReimport(prev, plan, strategy, ratingEngine, seedTable);
+      return excludeRemoved ? setFilmStatus(merged, removedIds, 'EXCLUDED') : merged;
+    }, { ...report, imported: plan.added.length, updated: plan.updated.length });
+    onClose();
+  };
+
+  const hasChanges = !!plan && (plan.added.length > 0 || plan.updated.length > 0 || (excludeRemoved && plan.removed.length > 0));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-bauhaus-black/60 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white w-full max-w-3xl max-h-[90vh] overflow-y-auto border-4 border-bauhaus-black shadow-hard-xl relative flex flex-col">
+
+        {/* Header */}
+        <div className="sticky top-0 bg-bauhaus-black text-white p-6 border-b-4 border-bauhaus-black flex justify-between items-start z-10">
+          <div>
+            <h2 className="text-3xl font-black uppercase tracking-tighter leading-none mb-2 flex items-center gap-3">
+              <FileUp size={28} className="text-bauhaus-yellow" /> Merge New Export
+            </h2>
+            <p className="text-xs font-bold uppercase tracking-widest text-gray-400">
+              Your votes and rankings are kept
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1 hover:bg-white hover:text-bauhaus-black transition-colors">
+            <X size={24} strokeWidth={3} />
+          </button>
+        </div>
+
+        <div className="p-6 md:p-8 space-y-6">
+          {/* New Film Seeding */}
+          <section>
+            <h3 className="text-sm font-black uppercase mb-3">New Films Start At</h3>
+            <div className="grid grid-cols-2 gap-2">
+              {([['fixed', 'Tabula Rasa (1200)'], ['rating', 'Star Power (from ★)']] as [EloStrategy, string][]).map(([id, label]) => (
+                <button
+                  key={id}
+                  onClick={() => setStrategy(id)}
+                  className={`px-3 py-3 border-2 border-bauhaus-black text-xs font-black uppercase transition-all ${strategy === id ? 'bg-bauhaus-blue text-white' : 'bg-white hover:bg-gray-100 shadow-hard-sm'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {strategy === 'rating' && (
+              <div className="mt-4">
+                <SeedingCurvePicker
+                  curve={curve}
+                  table={seedTable}
+                  onCurveChange={setCurve}
+                  onCustomTableChange={setCustomTable}
+                />
+              </div>
+            )}
+          </section>
+
+          {/* File Picker */}
+          <section className="border-4 border-dashed border-bauhaus-black p-6 text-center">
+            <input
+              type="file"
+              accept=".csv,.zip"
+              multiple
+              className="hidden"
+              id="reimport-upload"
+              onChange={(e) => handleFiles(e.target.files)}
+            />
+            <Button onClick={() => document.getElementById('reimport-upload')?.click()} variant="primary" className="inline-flex items-center gap-2" disabled={loading}>
+              <Upload size={18} /> {plan ? 'Choose Another Export' : 'Choose Export ZIP or CSVs'}
+            </Button>
+            {loading && <p className="mt-3 text-xs font-bold uppercase tracking-widest animate-pulse">Reading...</p>}
+          </section>
+
+          {error && (
+            <div className="p-4 bg-bauhaus-red text-white border-2 border-bauhaus-black flex items-center gap-3 text-sm font-bold">
+              <AlertCircle size={20} /> {error}
+            </div>
+          )}
+
+          {/* Preview */}
+          {plan && (
+            <section className="space-y-4">
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-center">
+                {[
+                  ['Added', plan.added.length, 'text-bauhaus-blue'],
+                  ['Updated', plan.updated.length, 'text-bauhaus-black'],
+                  ['Missing', plan.removed.length, 'text-bauhaus-red'],
+                  ['Unchanged', plan.unchanged, 'text-gray-400']
+                ].map(([label, count, color]) => (
+                  <div key={label as string} className="p-3 border-2 border-bauhaus-black bg-gray-50">
+                    <div className={`text-3xl font-black ${color}`}>{count}</div>
+                    <div className="text-[10px] uppercase font-bold text-gray-500">{label}</div>
+                  </div>
+                ))}
+              </div>
+
+              <PreviewList
+                title="Added"
+                icon={<Plus size={14} />}
+                rows={plan.added.map(f => ({ key: f.id, name: f.name, year: f.year, detail: f.rating ? `★ ${f.rating}` : '' }))}
+              />
+              <PreviewList
+                title="Updated"
+                icon={<RefreshCw size={14} />}
+                rows={plan.updated.map(u => ({ key: u.movie.id, name: u.movie.name, year: u.movie.year, detail: describeUpdate(u) }))}
+              />
+              <PreviewList
+                title="Missing From Export"
+                icon={<Minus size={14} />}
+                rows={plan.removed.map(m => ({ key: m.id, name: m.name, year: m.year, detail: `${m.matches} matches` }))}
+              />
+
+              {plan.removed.length > 0 && (
+                <label className="flex items-start gap-3 p-4 border-2 border-bauhaus-black text-xs font-bold uppercase cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={excludeRemoved}
+                    onChange={(e) => setExcludeRemoved(e.target.checked)}
+                    className="w-4 h-4 mt-0.5 accent-bauhaus-blue"
+                  />
+                  <span>
+                    Exclude missing films from the arena
+                    <span className="block font-medium normal-case text-gray-500 mt-1">
+                      They're never deleted: votes stay, and you can bring them back from the leaderboard.
+                    </span>
+                  </span>
+                </label>
+              )}
+
+              <div className="flex justify-end gap-3">
+                <Button onClick={onClose} variant="outline">Cancel</Button>
+                <Button onClick={handleApply} variant="primary" disabled={!hasChanges}>
+                  Apply Merge
+                </Button>
+              </div>
+            </section>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface PreviewRow {
+  key: string;
+  name: string;
+  year: string;
+  detail: string;
+}
+
+const PreviewList: React.FC<{ title: string; icon: React.ReactNode; rows: PreviewRow[] }> = ({ title, icon, rows }) => {
+  if (rows.length === 0) return null;
+  return (
+    <details className="border-2 border-bauhaus-black" open={rows.length <= 10}>
+      <summary className="px-4 py-2 bg-gray-100 text-xs font-black uppercase tracking-widest cursor-pointer flex items-center gap-2">
+        {icon} {title} ({rows.length})
+      </summary>
+      <ul className="divide-y divide-gray-200 max-h-60 overflow-y-auto">
+        {rows.slice(0, PREVIEW_LIMIT).map(row => (
+          <li key={row.key} className="px-4 py-2 flex items-center justify-between gap-4 text-sm">
+            <span className="font-bold uppercase truncate">{row.name} <span className="text-gray-400 font-mono">{row.year}</span></span>
+            <span className="text-xs font-mono text-gray-500 whitespace-nowrap">{row.detail}</span>
+          </li>
+        ))}
+        {rows.length > PREVIEW_LIMIT && (
+          <li className="px-4 py-2 text-[10px] font-black uppercase text-gray-400">+ {rows.length - PREVIEW_LIMIT} more</li>
+        )}
+      </ul>
+    </details>
+  );
+};
+
+export default ReimportModal;
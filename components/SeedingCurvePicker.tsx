@@ -0,0 +1,65 @@
+import React from 'react';
+import { SeedingCurveId, SeedTable, SEEDING_CURVES, HALF_STARS } from '../services/seedingCurve';
+
+interface SeedingCurvePickerProps {
+  curve: SeedingCurveId;
+  table: SeedTable; // The table the chosen curve gives
+  onCurveChange: (curve: SeedingCurveId) => void;
+  onCustomTableChange: (table: SeedTable) => void;
+}
+
+/**
+ * Picks how stars map to starting Elo, with the resulting Elo per half star.
+ * The custom table starts from whichever curve was showing.
+ */
+const SeedingCurvePicker: React.FC<SeedingCurvePickerProps> = ({ curve, table, onCurveChange, onCustomTableChange }) => {
+  const chooseCurve = (id: SeedingCurveId) => {
+    if (id === 'custom' && curve !== 'custom') onCustomTableChange({ ...table });
+    onCurveChange(id);
+  };
+
+  const setStarElo = (stars: number, value: string) => {
+    const elo = parseInt(value, 10);
+    if (!isNaN(elo)) onCustomTableChange({ ...table, [String(stars)]: elo });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-3 gap-2">
+        {SEEDING_CURVES.map(option => (
+          <button
+            key={option.id}
+            onClick={() => chooseCurve(option.id)}
+            className={`px-3 py-3 border-2 border-bauhaus-black text-xs font-black uppercase transition-all ${curve === option.id ? 'bg-bauhaus-blue text-white' : 'bg-white hover:bg-gray-100 shadow-hard-sm'}`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      <p className="text-[10px] uppercase font-bold text-gray-500">
+        {SEEDING_CURVES.find(c => c.id === curve)?.description}
+      </p>
+
+      <div className="grid grid-cols-5 sm:grid-cols-10 border-2 border-bauhaus-black divide-x-2 divide-bauhaus-black">
+        {HALF_STARS.map(stars => (
+          <div key={stars} className="text-center">
+            <div className="py-1 bg-gray-100 text-[10px] font-black">★ {stars}</div>
+            {curve === 'custom' ? (
+              <input
+                type="number"
+                step={25}
+                value={table[String(stars)]}
+                onChange={(e) => setStarElo(stars, e.target.value)}
+                className="w-full py-1 text-center text-xs font-mono font-bold focus:outline-none focus:bg-bauhaus-yellow"
+              />
+            ) : (
+              <div className="py-1 text-xs font-mono font-bold">{table[String(stars)]}</div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SeedingCurvePicker;
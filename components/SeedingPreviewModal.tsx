@@ -0,0 +1,72 @@
+import React, { useMemo, useState } from 'react';
+import { X, Star, Play } from 'lucide-react';
+import { Movie } from '../types';
+import type { RatingEngine } from '../services/ratingEngine';
+import { ImportedFilm, seedMovies } from '../services/importService';
+import { SeedingCurveId, SeedTable, LINEAR_SEED_TABLE, buildSeedTable } from '../services/seedingCurve';
+import Button from './Button';
+import EloHistogram from './EloHistogram';
+import SeedingCurvePicker from './SeedingCurvePicker';
+
+interface SeedingPreviewModalProps {
+  films: ImportedFilm[];
+  ratingEngine: RatingEngine;
+  onConfirm: (movies: Movie[]) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Last step of a "Star Power" import: choose how stars become starting Elo
+ * and see the distribution it gives before the library is created.
+ */
+const SeedingPreviewModal: React.FC<SeedingPreviewModalProps> = ({ films, ratingEngine, onConfirm, onCancel }) => {
+  const [curve, setCurve] = useState<SeedingCurveId>('linear');
+  const [customTable, setCustomTable] = useState<SeedTable>(LINEAR_SEED_TABLE);
+
+  const ratings = useMemo(() => films.map(f => f.rating || 0), [films]);
+  const table = useMemo(() => buildSeedTable(curve, ratings, customTable), [curve, ratings, customTable]);
+  const seeded = useMemo(() => seedMovies(films, 'rating', ratingEngine, table), [films, ratingEngine, table]);
+  const ratedCount = ratings.filter(r => r > 0).length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-bauhaus-black/60 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white w-full max-w-3xl max-h-[90vh] overflow-y-auto border-4 border-bauhaus-black shadow-hard-xl relative flex flex-col">
+
+        {/* Header */}
+        <div className="sticky top-0 bg-bauhaus-black text-white p-6 border-b-4 border-bauhaus-black flex justify-between items-start z-10">
+          <div>
+            <h2 className="text-3xl font-black uppercase tracking-tighter leading-none mb-2 flex items-center gap-3">
+              <Star size={28} className="text-bauhaus-yellow" /> Seeding Curve
+            </h2>
+            <p className="text-xs font-bold uppercase tracking-widest text-gray-400">
+              {ratedCount} rated • {films.length - ratedCount} unrated start at 1200
+            </p>
+          </div>
+          <button onClick={onCancel} className="p-1 hover:bg-white hover:text-bauhaus-black transition-colors">
+            <X size={24} strokeWidth={3} />
+          </button>
+        </div>
+
+        <div className="p-6 md:p-8 space-y-6">
+          <SeedingCurvePicker
+            curve={curve}
+            table={table}
+            onCurveChange={setCurve}
+            onCustomTableChange={setCustomTable}
+          />
+
+          <EloHistogram movies={seeded} title="Starting Elo" />
+
+          <div className="flex justify-end gap-3">
+            <Button onClick={onCancel} variant="outline">Cancel</Button>
+            <Button onClick={() => onConfirm(seeded)} variant="primary" className="flex items-center gap-2">
+              <Play size={18} /> Start Ranking
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SeedingPreviewModal;
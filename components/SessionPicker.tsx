@@ -0,0 +1,166 @@
+import React, { useState, useMemo } from 'react';
+import { X, Target, Play } from 'lucide-react';
+import { Movie, SessionFilter } from '../types';
+import { applySessionFilter, describeSessionFilter, getLibraryDecades, getDiaryYears } from '../services/rankingSession';
+import Button from './Button';
+
+interface SessionPickerProps {
+  movies: Movie[];
+  current: SessionFilter;
+  onStart: (filter: SessionFilter) => void;
+  onClose: () => void;
+}
+
+type FilterKind = SessionFilter['kind'];
+
+const KIND_LABELS: Record<FilterKind, string> = {
+  ALL: 'Everything',
+  DECADE: 'Decade',
+  YEAR_RANGE: 'Year Range',
+  TOP: 'Current Top',
+  FEW_MATCHES: 'Under-Voted',
+  SEARCH: 'Search',
+  WATCHED_IN: 'Watched In'
+};
+
+const inputClass = 'w-full bg-white border-2 border-bauhaus-black px-3 py-2 font-bold focus:outline-none focus:shadow-hard-sm';
+
+/**
+ * Chooses the subset of the library a focused arena session draws from.
+ */
+const SessionPicker: React.FC<SessionPickerProps> = ({ movies, current, onStart, onClose }) => {
+  const decades = useMemo(() => getLibraryDecades(movies), [movies]);
+  const diaryYears = useMemo(() => getDiaryYears(movies), [movies]);
+
+  const [kind, setKind] = useState<FilterKind>(current.kind);
+  const [decade, setDecade] = useState(current.kind === 'DECADE' ? current.decade : decades[decades.length - 1] || 2000);
+  const [fromYear, setFromYear] = useState(current.kind === 'YEAR_RANGE' ? current.from : 1990);
+  const [toYear, setToYear] = useState(current.kind === 'YEAR_RANGE' ? current.to : 1999);
+  const [topCount, setTopCount] = useState(current.kind === 'TOP' ? current.count : 50);
+  const [below, setBelow] = useState(current.kind === 'FEW_MATCHES' ? current.below : 5);
+  const [term, setTerm] = useState(current.kind === 'SEARCH' ? current.term : '');
+  // Defaults to this year: "films I watched this year"
+  const [watchedYear, setWatchedYear] = useState(current.kind === 'WATCHED_IN' ? current.year : new Date().getFullYear());
+
+  const filter: SessionFilter = (() => {
+    switch (kind) {
+      case 'DECADE': return { kind, decade };
+      case 'YEAR_RANGE': return { kind, from: Math.min(fromYear, toYear), to: Math.max(fromYear, toYear) };
+      case 'TOP': return { kind, count: topCount };
+      case 'FEW_MATCHES': return { kind, below };
+      case 'SEARCH': return { kind, term };
+      case 'WATCHED_IN': return { kind, year: watchedYear };
+      default: return { kind: 'ALL' };
+    }
+  })();
+
+  const matchCount = applySessionFilter(movies, filter).length;
+  const canStart = filter.kind === 'ALL' || (matchCount >= 2 && (filter.kind !== 'SEARCH' || term.trim().length > 0));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-bauhaus-black/60 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white w-full max-w-xl max-h-[90vh] overflow-y-auto border-4 border-bauhaus-black shadow-hard-xl relative flex flex-col">
+
+        {/* Header */}
+        <div className="sticky top-0 bg-bauhaus-black text-white p-6 border-b-4 border-bauhaus-black flex justify-between items-start z-10">
+          <div>
+            <h2 className="text-3xl font-black uppercase tracking-tighter leading-none mb-2 flex items-center gap-3">
+              <Target size={28} className="text-bauhaus-yellow" /> Focus Session
+            </h2>
+            <p className="text-xs font-bold uppercase tracking-widest text-gray-400">
+              Only pair films from part of your library
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1 hover:bg-white hover:text-bauhaus-black transition-colors">
+            <X size={24} strokeWidth={3} />
+          </button>
+        </div>
+
+        <div className="p-6 md:p-8 space-y-6">
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+            {(Object.keys(KIND_LABELS) as FilterKind[]).map(k => (
+              <button
+                key={k}
+                onClick={() => setKind(k)}
+                className={`px-3 py-3 border-2 border-bauhaus-black text-xs font-black uppercase transition-all ${kind === k ? 'bg-bauhaus-blue text-white' : 'bg-white hover:bg-gray-100 shadow-hard-sm'}`}
+              >
+                {KIND_LABELS[k]}
+              </button>
+            ))}
+          </div>
+
+          {kind === 'DECADE' && (
+            <select value={decade} onChange={(e) => setDecade(Number(e.target.value))} className={inputClass}>
+              {decades.map(d => <option key={d} value={d}>{d}s</option>)}
+            </select>
+          )}
+
+          {kind === 'YEAR_RANGE' && (
+            <div className="flex items-center gap-3">
+              <input type="number" value={fromYear} onChange={(e) => setFromYear(Number(e.target.value))} className={inputClass} />
+              <span className="font-black">–</span>
+              <input type="number" value={toYear} onChange={(e) => setToYear(Number(e.target.value))} className={inputClass} />
+            </div>
+          )}
+
+          {kind === 'TOP' && (
+            <div className="flex items-center gap-3">
+              <span className="text-xs font-black uppercase">Top</span>
+              <input type="number" min={2} value={topCount} onChange={(e) => setTopCount(Math.max(2, Number(e.target.value)))} className={inputClass} />
+              <span className="text-xs font-black uppercase whitespace-nowrap">by Elo</span>
+            </div>
+          )}
+
+          {kind === 'FEW_MATCHES' && (
+            <div className="flex items-center gap-3">
+              <span className="text-xs font-black uppercase whitespace-nowrap">Fewer than</span>
+              <input type="number" min={1} value={below} onChange={(e) => setBelow(Math.max(1, Number(e.target.value)))} className={inputClass} />
+              <span className="text-xs font-black uppercase">matches</span>
+            </div>
+          )}
+
+          {kind === 'SEARCH' && (
+            <input
+              type="text"
+              value={term}
+              onChange={(e) => setTerm(e.target.value)}
+              placeholder="Title or year..."
+              className={inputClass}
+              autoFocus
+            />
+          )}
+
+          {kind === 'WATCHED_IN' && (
+            diaryYears.length > 0 ? (
+              <select value={watchedYear} onChange={(e) => setWatchedYear(Number(e.target.value))} className={inputClass}>
+                {!diaryYears.includes(watchedYear) && <option value={watchedYear}>{watchedYear}</option>}
+                {diaryYears.map(y => <option key={y} value={y}>{y}</option>)}
+              </select>
+            ) : (
+              <p className="text-[10px] uppercase font-bold text-gray-500">
+                No watch dates yet. Import your Letterboxd export (it includes diary.csv) to use this.
+              </p>
+            )
+          )}
+
+          <div className="flex items-center justify-between gap-4 p-4 border-2 border-bauhaus-black bg-gray-50">
+            <div>
+              <div className="text-3xl font-black text-bauhaus-black">{matchCount}</div>
+              <p className="text-[10px] uppercase font-bold text-gray-500">
+                Films in {describeSessionFilter(filter)}
+              </p>
+            </div>
+            <Button onClick={() => onStart(filter)} variant="primary" disabled={!canStart} className="flex items-center gap-2">
+              <Play size={16} /> Start
+            </Button>
+          </div>
+          {!canStart && (
+            <p className="text-[10px] uppercase font-bold text-bauhaus-red">A session needs at least two films.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionPicker;
@@ -0,0 +1,195 @@
+import React from 'react';
+import { X, Settings, Cpu, History, RefreshCw, Crosshair, Timer, ClipboardList } from 'lucide-react';
+import { LibrarySettings, ImportReport } from '../types';
+import { RATING_ENGINES, getRatingEngine } from '../services/ratingEngine';
+import { MATCHMAKING_STRATEGIES } from '../services/matchmaking';
+import Button from './Button';
+
+const PAIR_COOLDOWN_OPTIONS = [0, 10, 25, 50, 100];
+
+interface SettingsModalProps {
+  settings: LibrarySettings;
+  matchCount: number;
+  onChange: (settings: LibrarySettings) => void;
+  onRecompute: () => void;
+  importReports: ImportReport[];
+  onViewReport: (report: ImportReport) => void;
+  onClose: () => void;
+}
+
+const SettingsModal: React.FC<SettingsModalProps> = ({ settings, matchCount, onChange, onRecompute, importReports, onViewReport, onClose }) => {
+  const handleRecompute = () => {
+    const engine = getRatingEngine(settings.ratingEngine);
+    if (window.confirm(`Replay all ${matchCount} votes with ${engine.label}? Every rating will be rebuilt from the match log.`)) {
+      onRecompute();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-bauhaus-black/60 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white w-full max-w-2xl max-h-[90vh] overflow-y-auto border-4 border-bauhaus-black shadow-hard-xl relative flex flex-col">
+
+        {/* Header */}
+        <div className="sticky top-0 bg-bauhaus-black text-white p-6 border-b-4 border-bauhaus-black flex justify-between items-start z-10">
+          <div>
+            <h2 className="text-3xl font-black uppercase tracking-tighter leading-none mb-2 flex items-center gap-3">
+              <Settings size={28} className="text-bauhaus-yellow" /> Library Settings
+            </h2>
+            <p className="text-xs font-bold uppercase tracking-widest text-gray-400">
+              Saved with this library
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1 hover:bg-white hover:text-bauhaus-black transition-colors">
+            <X size={24} strokeWidth={3} />
+          </button>
+        </div>
+
+        <div className="p-6 md:p-8 space-y-8">
+          {/* Rating Engine */}
+          <section>
+            <h3 className="text-sm font-black uppercase mb-4 flex items-center gap-2">
+              <Cpu size={16} /> Rating Model
+            </h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {RATING_ENGINES.map(engine => {
+                const isActive = settings.ratingEngine === engine.id;
+                return (
+                  <button
+                    key={engine.id}
+                    onClick={() => onChange({ ...settings, ratingEngine: engine.id })}
+                    className={`
+                      relative p-5 border-4 text-left transition-all duration-200
+                      ${isActive
+                        ? 'border-bauhaus-black bg-bauhaus-blue text-white translate-x-[2px] translate-y-[2px] shadow-none'
+                        : 'border-bauhaus-black bg-white text-bauhaus-black shadow-hard-sm hover:shadow-hard-md hover:-translate-y-1'}
+                    `}
+                  >
+                    <span className="font-black uppercase text-xl tracking-tight block mb-2">{engine.label}</span>
+                    <p className={`text-sm font-medium ${isActive ? 'text-blue-200' : 'text-gray-600'}`}>
+                      {engine.description}
+                    </p>
+                    {isActive && (
+                      <div className="absolute top-3 right-3 w-3 h-3 bg-bauhaus-yellow rounded-full"></div>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+            <p className="text-[10px] uppercase font-bold text-gray-500 mt-3">
+              Applies to new votes and simulations. Existing ratings are kept until you recompute below.
+            </p>
+          </section>
+
+          {/* Matchmaking */}
+          <section>
+            <h3 className="text-sm font-black uppercase mb-4 flex items-center gap-2">
+              <Crosshair size={16} /> Matchmaking
+            </h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {MATCHMAKING_STRATEGIES.map(strategy => {
+                const isActive = settings.matchmaking === strategy.id;
+                return (
+                  <button
+                    key={strategy.id}
+                    onClick={() => onChange({ ...settings, matchmaking: strategy.id })}
+                    className={`
+                      relative p-5 border-4 text-left transition-all duration-200
+                      ${isActive
+                        ? 'border-bauhaus-black bg-bauhaus-blue text-white translate-x-[2px] translate-y-[2px] shadow-none'
+                        : 'border-bauhaus-black bg-white text-bauhaus-black shadow-hard-sm hover:shadow-hard-md hover:-translate-y-1'}
+                    `}
+                  >
+                    <span className="font-black uppercase text-xl tracking-tight block mb-2">{strategy.label}</span>
+                    <p className={`text-sm font-medium ${isActive ? 'text-blue-200' : 'text-gray-600'}`}>
+                      {strategy.description}
+                    </p>
+                    {isActive && (
+                      <div className="absolute top-3 right-3 w-3 h-3 bg-bauhaus-yellow rounded-full"></div>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          </section>
+
+          {/* Pair Cooldown */}
+          <section>
+            <h3 className="text-sm font-black uppercase mb-4 flex items-center gap-2">
+              <Timer size={16} /> Pair Cooldown
+            </h3>
+            <div className="flex flex-wrap gap-2">
+              {PAIR_COOLDOWN_OPTIONS.map(votes => (
+                <button
+                  key={votes}
+                  onClick={() => onChange({ ...settings, pairCooldown: votes })}
+                  className={`px-4 py-2 border-2 border-bauhaus-black text-sm font-black uppercase ${settings.pairCooldown === votes ? 'bg-bauhaus-yellow' : 'bg-white hover:bg-gray-100 shadow-hard-sm'}`}
+                >
+                  {votes === 0 ? 'Off' : votes}
+                </button>
+              ))}
+            </div>
+            <p className="text-[10px] uppercase font-bold text-gray-500 mt-3">
+              Votes before the same two films can meet again. Pairs you've compared often come up less.
+            </p>
+          </section>
+
+          {/* Match Log */}
+          <section>
+            <h3 className="text-sm font-black uppercase mb-4 flex items-center gap-2">
+              <History size={16} /> Match Log
+            </h3>
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 p-4 border-2 border-bauhaus-black bg-gray-50">
+              <div>
+                <div className="text-3xl font-black text-bauhaus-black">{matchCount}</div>
+                <p className="text-[10px] uppercase font-bold text-gray-500">
+                  Recorded votes. Ratings, records and histories are rebuilt from these.
+                </p>
+              </div>
+              <Button
+                onClick={handleRecompute}
+                variant="secondary"
+                disabled={matchCount === 0}
+                className="flex items-center gap-2"
+              >
+                <RefreshCw size={16} /> Recompute
+              </Button>
+            </div>
+          </section>
+
+          {/* Import History */}
+          <section>
+            <h3 className="text-sm font-black uppercase mb-4 flex items-center gap-2">
+              <ClipboardList size={16} /> Import History
+            </h3>
+            {importReports.length === 0 ? (
+              <p className="text-[10px] uppercase font-bold text-gray-500">
+                No import reports yet. The next import will keep one here.
+              </p>
+            ) : (
+              <ul className="border-2 border-bauhaus-black divide-y divide-gray-200">
+                {[...importReports].reverse().map(report => (
+                  <li key={report.id} className="px-4 py-3 flex items-center justify-between gap-4">
+                    <div className="min-w-0">
+                      <div className="text-sm font-black uppercase truncate">{report.source}</div>
+                      <div className="text-[10px] uppercase font-bold text-gray-500">
+                        {new Date(report.importedAt).toLocaleDateString()} • {report.imported} imported • {report.skipped} skipped • {report.issues.length + (report.truncatedIssues || 0)} issues
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => onViewReport(report)}
+                      className="px-3 py-1 border-2 border-bauhaus-black text-xs font-black uppercase bg-white hover:bg-gray-100 shadow-hard-sm"
+                    >
+                      View
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsModal;
@@ -2,12 +2,14 @@
 import React, { useEffect, useRef, useState, useMemo } from 'react';
 import { Movie } from '../types';
 import { runSimulationRound } from '../services/simulationService';
+import type { RatingEngine } from '../services/ratingEngine';
 import { getProjectedTasteProfile } from '../services/geminiService';
 import Button from './Button';
 import { Play, Pause, RotateCcw, ArrowLeft, BrainCircuit, Sparkles, TrendingUp, Cpu } from 'lucide-react';
 
 interface SimulationViewProps {
   movies: Movie[];
+  ratingEngine: RatingEngine;
   onBack: () => void;
 }
 
@@ -16,7 +18,7 @@ interface DataPoint {
   elo: number;
 }
 
-const SimulationView: React.FC<SimulationViewProps> = ({ movies: initialMovies, onBack }) => {
+const SimulationView: React.FC<SimulationViewProps> = ({ movies: initialMovies, ratingEngine, onBack }) => {
   const [currentMovies, setCurrentMovies] = useState<Movie[]>(initialMovies);
   const [round, setRound] = useState(0);
   const [isRunning, setIsRunning] = useState(false);
@@ -35,11 +37,11 @@ const SimulationView: React.FC<SimulationViewProps> = ({ movies: initialMovies,
 
   const step = () => {
     setCurrentMovies(prev => {
-        const next = runSimulationRound(prev);
+        const next = runSimulationRound(prev, ratingEngine);
         
         // Update history for visualization
         setHistory(prevHist => {
-            const newHist = new Map(prevHist);
+            const newHist = new Map<string, DataPoint[]>(prevHist);
             next.forEach(m => {
                 const points = newHist.get(m.id) || [{ round: 0, elo: m.elo }]; // Init if empty
                 points.push({ round: round + 1, elo: m.elo });
@@ -199,6 +201,9 @@ const SimulationView: React.FC<SimulationViewProps> = ({ movies: initialMovies,
                    <BrainCircuit size={32} className="text-bauhaus-blue" />
                    Neural Projection
                </h2>
+               <p className="text-xs font-bold uppercase tracking-widest text-gray-500 mt-1">
+                   Model: {ratingEngine.label}
+               </p>
            </div>
            
            <div className="flex gap-2">
@@ -0,0 +1,141 @@
+import React, { useMemo, useState } from 'react';
+import { X, Star, Download, ArrowUp, ArrowDown } from 'lucide-react';
+import { Movie } from '../types';
+import { StarStrategy, STAR_STRATEGIES, assignStars, diffStars, toLetterboxdImportCSV } from '../services/letterboxdExport';
+import Button from './Button';
+
+interface StarExportModalProps {
+  ranked: Movie[]; // Leaderboard order, best first
+  score: (movie: Movie) => number;
+  onClose: () => void;
+}
+
+const DIFF_LIMIT = 100;
+
+/**
+ * Exports the ranking as star ratings Letterboxd can import, showing which
+ * films' stars would change first.
+ */
+const StarExportModal: React.FC<StarExportModalProps> = ({ ranked, score, onClose }) => {
+  const [strategy, setStrategy] = useState<StarStrategy>('percentile');
+  const [onlyChanged, setOnlyChanged] = useState(true);
+
+  const stars = useMemo(() => assignStars(ranked, strategy, score), [ranked, strategy, score]);
+  const changes = useMemo(() => diffStars(ranked, stars), [ranked, stars]);
+
+  const raised = changes.filter(c => c.before !== undefined && c.after > c.before).length;
+  const lowered = changes.filter(c => c.before !== undefined && c.after < c.before).length;
+  const newlyRated = changes.filter(c => c.before === undefined).length;
+  const exported = onlyChanged ? changes.map(c => c.movie) : ranked;
+
+  const downloadCSV = () => {
+    const blob = new Blob([toLetterboxdImportCSV(exported, stars)], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.setAttribute('download', 'filmelo_letterboxd_ratings.csv');
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-bauhaus-black/60 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white w-full max-w-3xl max-h-[90vh] overflow-y-auto border-4 border-bauhaus-black shadow-hard-xl relative flex flex-col">
+
+        {/* Header */}
+        <div className="sticky top-0 bg-bauhaus-black text-white p-6 border-b-4 border-bauhaus-black flex justify-between items-start z-10">
+          <div>
+            <h2 className="text-3xl font-black uppercase tracking-tighter leading-none mb-2 flex items-center gap-3">
+              <Star size={28} className="text-bauhaus-yellow" /> Export Stars
+            </h2>
+            <p className="text-xs font-bold uppercase tracking-widest text-gray-400">
+              For letterboxd.com → Settings → Import & Export
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1 hover:bg-white hover:text-bauhaus-black transition-colors">
+            <X size={24} strokeWidth={3} />
+          </button>
+        </div>
+
+        <div className="p-6 md:p-8 space-y-6">
+          {/* Strategy */}
+          <section>
+            <div className="grid grid-cols-2 gap-2">
+              {STAR_STRATEGIES.map(option => (
+                <button
+                  key={option.id}
+                  onClick={() => setStrategy(option.id)}
+                  className={`px-3 py-3 border-2 border-bauhaus-black text-xs font-black uppercase transition-all ${strategy === option.id ? 'bg-bauhaus-blue text-white' : 'bg-white hover:bg-gray-100 shadow-hard-sm'}`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <p className="text-[10px] uppercase font-bold text-gray-500 mt-3">
+              {STAR_STRATEGIES.find(s => s.id === strategy)?.description}
+            </p>
+          </section>
+
+          {/* Counts */}
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-center">
+            {[
+              ['Raised', raised, 'text-bauhaus-blue'],
+              ['Lowered', lowered, 'text-bauhaus-red'],
+              ['Newly Rated', newlyRated, 'text-bauhaus-black'],
+              ['Unchanged', ranked.length - changes.length, 'text-gray-400']
+            ].map(([label, count, color]) => (
+              <div key={label as string} className="p-3 border-2 border-bauhaus-black bg-gray-50">
+                <div className={`text-3xl font-black ${color}`}>{count}</div>
+                <div className="text-[10px] uppercase font-bold text-gray-500">{label}</div>
+              </div>
+            ))}
+          </div>
+
+          {/* Diff */}
+          {changes.length > 0 && (
+            <section className="border-2 border-bauhaus-black">
+              <div className="px-4 py-2 bg-gray-100 text-xs font-black uppercase tracking-widest">
+                Changes ({changes.length})
+              </div>
+              <ul className="divide-y divide-gray-200 max-h-72 overflow-y-auto">
+                {changes.slice(0, DIFF_LIMIT).map(({ movie, before, after }) => (
+                  <li key={movie.id} className="px-4 py-2 flex items-center justify-between gap-4 text-sm">
+                    <span className="font-bold uppercase truncate">{movie.name} <span className="text-gray-400 font-mono">{movie.year}</span></span>
+                    <span className="text-xs font-mono whitespace-nowrap flex items-center gap-1">
+                      {before !== undefined && after > before && <ArrowUp size={12} className="text-bauhaus-blue" />}
+                      {before !== undefined && after < before && <ArrowDown size={12} className="text-bauhaus-red" />}
+                      <span className="text-gray-400">{before !== undefined ? `★ ${before}` : 'Unrated'}</span> → <strong>★ {after}</strong>
+                    </span>
+                  </li>
+                ))}
+                {changes.length > DIFF_LIMIT && (
+                  <li className="px-4 py-2 text-[10px] font-black uppercase text-gray-400">+ {changes.length - DIFF_LIMIT} more</li>
+                )}
+              </ul>
+            </section>
+          )}
+
+          <label className="flex items-center gap-3 text-xs font-bold uppercase cursor-pointer">
+            <input
+              type="checkbox"
+              checked={onlyChanged}
+              onChange={(e) => setOnlyChanged(e.target.checked)}
+              className="w-4 h-4 accent-bauhaus-blue"
+            />
+            Only export films whose stars change
+          </label>
+
+          <div className="flex justify-end gap-3">
+            <Button onClick={onClose} variant="outline">Cancel</Button>
+            <Button onClick={downloadCSV} variant="yellow" disabled={exported.length === 0} className="flex items-center gap-2">
+              <Download size={18} /> Download {exported.length} Ratings
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StarExportModal;
@@ -0,0 +1,202 @@
+import React, { useState, useMemo } from 'react';
+import { Movie, TournamentFormat } from '../types';
+import { ELIMINATION_SIZES, ROUND_ROBIN_MIN, ROUND_ROBIN_MAX, seedByElo } from '../services/tournament';
+import Button from './Button';
+import { Search, Play, Check, GitFork, Grid3x3 } from 'lucide-react';
+
+interface TournamentSetupProps {
+  movies: Movie[];
+  onStart: (name: string, format: TournamentFormat, entrantIds: string[]) => void;
+}
+
+type EntrantSource = 'TOP' | 'PICK';
+
+const FORMAT_LABELS: Record<TournamentFormat, { label: string; description: string }> = {
+  SINGLE_ELIMINATION: {
+    label: 'Bracket',
+    description: 'Seeded single elimination. Lose once and you are out.'
+  },
+  ROUND_ROBIN: {
+    label: 'Round Robin',
+    description: `Everyone plays everyone. Best for a shortlist of ${ROUND_ROBIN_MIN}–${ROUND_ROBIN_MAX}.`
+  }
+};
+
+/**
+ * Picks a format and a field of films for a new tournament.
+ * Hand-picked fields are seeded by Elo too.
+ */
+const TournamentSetup: React.FC<TournamentSetupProps> = ({ movies, onStart }) => {
+  const [format, setFormat] = useState<TournamentFormat>('SINGLE_ELIMINATION');
+  const [source, setSource] = useState<EntrantSource>('TOP');
+  const [topCount, setTopCount] = useState(16);
+  const [picked, setPicked] = useState<Set<string>>(new Set());
+  const [searchTerm, setSearchTerm] = useState('');
+  const [name, setName] = useState('');
+
+  const sizeOptions = format === 'SINGLE_ELIMINATION'
+    ? ELIMINATION_SIZES.filter(size => size <= movies.length)
+    : Array.from({ length: ROUND_ROBIN_MAX - ROUND_ROBIN_MIN + 1 }, (_, i) => ROUND_ROBIN_MIN + i).filter(size => size <= movies.length);
+
+  const searchResults = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    return [...movies]
+      .sort((a, b) => b.elo - a.elo)
+      .filter(m => !term || m.name.toLowerCase().includes(term) || m.year.includes(term))
+      .slice(0, 50);
+  }, [movies, searchTerm]);
+
+  const entrantIds = source === 'TOP'
+    ? seedByElo(movies, topCount)
+    : seedByElo(movies.filter(m => picked.has(m.id)), picked.size);
+
+  const maxEntrants = format === 'ROUND_ROBIN' ? ROUND_ROBIN_MAX : Infinity;
+  const minEntrants = format === 'ROUND_ROBIN' ? ROUND_ROBIN_MIN : 2;
+  const isValid = entrantIds.length >= minEntrants && entrantIds.length <= maxEntrants;
+
+  const defaultName = source === 'TOP'
+    ? `Top ${topCount} ${FORMAT_LABELS[format].label}`
+    : `Hand-Picked ${FORMAT_LABELS[format].label}`;
+
+  const changeFormat = (next: TournamentFormat) => {
+    setFormat(next);
+    setTopCount(next === 'SINGLE_ELIMINATION' ? 16 : 5);
+  };
+
+  const togglePick = (id: string) => {
+    setPicked(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-8">
+      {/* Format */}
+      <section>
+        <h3 className="text-sm font-black uppercase mb-4">1. Format</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {(Object.keys(FORMAT_LABELS) as TournamentFormat[]).map(f => {
+            const isActive = format === f;
+            const Icon = f === 'SINGLE_ELIMINATION' ? GitFork : Grid3x3;
+            return (
+              <button
+                key={f}
+                onClick={() => changeFormat(f)}
+                className={`
+                  relative p-5 border-4 text-left transition-all duration-200
+                  ${isActive
+                    ? 'border-bauhaus-black bg-bauhaus-blue text-white translate-x-[2px] translate-y-[2px] shadow-none'
+                    : 'border-bauhaus-black bg-white text-bauhaus-black shadow-hard-sm hover:shadow-hard-md hover:-translate-y-1'}
+                `}
+              >
+                <span className="font-black uppercase text-xl tracking-tight flex items-center gap-2 mb-2">
+                  <Icon size={20} /> {FORMAT_LABELS[f].label}
+                </span>
+                <p className={`text-sm font-medium ${isActive ? 'text-blue-200' : 'text-gray-600'}`}>
+                  {FORMAT_LABELS[f].description}
+                </p>
+              </button>
+            );
+          })}
+        </div>
+      </section>
+
+      {/* Field */}
+      <section>
+        <h3 className="text-sm font-black uppercase mb-4">2. Field</h3>
+        <div className="flex border-2 border-bauhaus-black w-fit mb-4">
+          <button
+            onClick={() => setSource('TOP')}
+            className={`px-4 py-2 text-xs font-black uppercase ${source === 'TOP' ? 'bg-bauhaus-black text-white' : 'bg-white hover:bg-gray-100'}`}
+          >
+            Top By Elo
+          </button>
+          <button
+            onClick={() => setSource('PICK')}
+            className={`px-4 py-2 text-xs font-black uppercase border-l-2 border-bauhaus-black ${source === 'PICK' ? 'bg-bauhaus-black text-white' : 'bg-white hover:bg-gray-100'}`}
+          >
+            Hand-Pick
+          </button>
+        </div>
+
+        {source === 'TOP' ? (
+          <div className="flex flex-wrap gap-2">
+            {sizeOptions.map(size => (
+              <button
+                key={size}
+                onClick={() => setTopCount(size)}
+                className={`w-14 h-12 font-black border-2 border-bauhaus-black ${topCount === size ? 'bg-bauhaus-yellow' : 'bg-white hover:bg-gray-100 shadow-hard-sm'}`}
+              >
+                {size}
+              </button>
+            ))}
+          </div>
+        ) : (
+          <div className="border-2 border-bauhaus-black bg-white">
+            <div className="relative border-b-2 border-bauhaus-black">
+              <input
+                type="text"
+                placeholder="Search films..."
+                className="w-full pl-10 pr-4 py-3 font-bold focus:outline-none"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+              />
+              <Search size={18} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+            </div>
+            <ul className="max-h-72 overflow-y-auto divide-y divide-gray-200">
+              {searchResults.map(movie => {
+                const isPicked = picked.has(movie.id);
+                return (
+                  <li key={movie.id}>
+                    <button
+                      onClick={() => togglePick(movie.id)}
+                      className={`w-full flex items-center gap-3 px-4 py-2 text-left ${isPicked ? 'bg-bauhaus-yellow/30' : 'hover:bg-gray-50'}`}
+                    >
+                      <span className={`w-5 h-5 border-2 border-bauhaus-black flex items-center justify-center ${isPicked ? 'bg-bauhaus-black text-white' : 'bg-white'}`}>
+                        {isPicked && <Check size={14} strokeWidth={4} />}
+                      </span>
+                      <span className="font-bold uppercase text-sm flex-1 truncate">{movie.name}</span>
+                      <span className="text-xs font-mono text-gray-500">{movie.year}</span>
+                      <span className="text-xs font-mono font-bold w-12 text-right">{Math.round(movie.elo)}</span>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+            <div className="px-4 py-2 border-t-2 border-bauhaus-black text-xs font-black uppercase bg-gray-50">
+              {picked.size} picked
+              {format === 'ROUND_ROBIN' && ` • ${ROUND_ROBIN_MIN}–${ROUND_ROBIN_MAX} allowed`}
+            </div>
+          </div>
+        )}
+      </section>
+
+      {/* Start */}
+      <section className="flex flex-col md:flex-row gap-4 md:items-end">
+        <div className="flex-1">
+          <h3 className="text-sm font-black uppercase mb-4">3. Name</h3>
+          <input
+            type="text"
+            placeholder={defaultName}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="w-full bg-white border-2 border-bauhaus-black px-4 py-3 font-bold focus:outline-none focus:shadow-hard-sm"
+          />
+        </div>
+        <Button
+          onClick={() => onStart(name.trim() || defaultName, format, entrantIds)}
+          disabled={!isValid}
+          variant="primary"
+          className="flex items-center justify-center gap-2 px-8 py-4"
+        >
+          <Play size={18} /> Start ({entrantIds.length} Films)
+        </Button>
+      </section>
+    </div>
+  );
+};
+
+export default TournamentSetup;
@@ -0,0 +1,400 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Movie, MatchEvent, Tournament, TournamentFormat, TournamentMatch, VoteStrength } from '../types';
+import { RatingEngine } from '../services/ratingEngine';
+import { createMatchEvent, applyMatchEvents } from '../services/matchLog';
+import { fetchMoviePoster } from '../services/tmdbService';
+import {
+  createTournament,
+  getNextTournamentMatch,
+  recordTournamentResult,
+  forfeitTournamentMatch,
+  getStandings,
+  getFinalPlacings,
+  getTournamentProgress,
+  getRoundCount,
+  describeRound,
+  isMatchPlayed
+} from '../services/tournament';
+import { renderChampionCard } from '../services/championCard';
+import { isInArena } from '../services/filmStatus';
+import MovieCard from './MovieCard';
+import TournamentSetup from './TournamentSetup';
+import Button from './Button';
+import { ArrowLeft, Trophy, Equal, Download, Plus, Flag, SkipForward } from 'lucide-react';
+
+interface TournamentViewProps {
+  movies: Movie[];
+  tournaments: Tournament[];
+  onUpdateTournaments: React.Dispatch<React.SetStateAction<Tournament[]>>;
+  onUpdateMovies: React.Dispatch<React.SetStateAction<Movie[]>>;
+  onUpdateMatchLog: React.Dispatch<React.SetStateAction<MatchEvent[]>>;
+  ratingEngine: RatingEngine;
+  onBack: () => void;
+}
+
+const TournamentView: React.FC<TournamentViewProps> = ({
+  movies,
+  tournaments,
+  onUpdateTournaments,
+  onUpdateMovies,
+  onUpdateMatchLog,
+  ratingEngine,
+  onBack
+}) => {
+  // The tournament on screen: the unfinished one if there is one, else the latest finished
+  const [viewingId, setViewingId] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [isExiting, setIsExiting] = useState(false);
+  const fetchingIds = useRef<Set<string>>(new Set());
+
+  const moviesById = useMemo(() => new Map(movies.map(m => [m.id, m])), [movies]);
+  // Excluded films can't be entered, but stay in tournaments they're already part of
+  const arenaMovies = useMemo(() => movies.filter(isInArena), [movies]);
+  const active = tournaments.find(t => !t.completedAt) || null;
+  const viewing = tournaments.find(t => t.id === viewingId) || active || tournaments[tournaments.length - 1] || null;
+  const showSetup = isCreating || !viewing;
+
+  const nextMatch = viewing && !viewing.completedAt ? getNextTournamentMatch(viewing) : null;
+  const filmA = nextMatch ? moviesById.get(nextMatch.aId!) : undefined;
+  const filmB = nextMatch ? moviesById.get(nextMatch.bId!) : undefined;
+  // The film left standing when the other side of the match is no longer in the library
+  const remaining = filmA && filmB ? undefined : filmA || filmB;
+
+  // Effect: Fetch posters for the films on screen
+  useEffect(() => {
+    [filmA, filmB].forEach(movie => {
+      if (!movie || movie.posterPath || fetchingIds.current.has(movie.id)) return;
+      fetchingIds.current.add(movie.id);
+      fetchMoviePoster(movie.name, movie.year).then(path => {
+        if (!path) return;
+        onUpdateMovies(prev => prev.map(m => (m.id === movie.id ? { ...m, posterPath: path } : m)));
+      }).finally(() => {
+        fetchingIds.current.delete(movie.id);
+      });
+    });
+  }, [filmA, filmB, onUpdateMovies]);
+
+  const handleStart = (name: string, format: TournamentFormat, entrantIds: string[]) => {
+    const tournament = createTournament(name, format, entrantIds);
+    // Only one tournament runs at a time; an unfinished one is abandoned
+    onUpdateTournaments(prev => [...prev.filter(t => t.completedAt), tournament]);
+    setViewingId(tournament.id);
+    setIsCreating(false);
+  };
+
+  const handleAbandon = () => {
+    if (!active) return;
+    if (window.confirm(`Abandon "${active.name}"? Votes already cast stay in your ratings.`)) {
+      onUpdateTournaments(prev => prev.filter(t => t.id !== active.id));
+      setViewingId(null);
+    }
+  };
+
+  /**
+   * A tournament vote is a normal match: it updates ratings and the match log
+   * exactly like the arena, then advances the tournament. `winnerId` null is a draw.
+   */
+  const handleVote = (match: TournamentMatch, winnerId: string | null, strength?: VoteStrength) => {
+    if (!viewing || isExiting) return;
+    const tournamentId = viewing.id;
+    const loserId = winnerId === match.aId ? match.bId! : match.aId!;
+    const event = createMatchEvent(
+      winnerId || match.aId!,
+      winnerId ? loserId : match.bId!,
+      winnerId ? 'WIN' : 'DRAW',
+      Date.now(),
+      strength
+    );
+
+    setIsExiting(true);
+    setTimeout(() => {
+      onUpdateMovies(prev => applyMatchEvents(prev, [event], ratingEngine));
+      onUpdateMatchLog(prev => [...prev, event]);
+      onUpdateTournaments(prev => prev.map(t => (
+        t.id === tournamentId ? recordTournamentResult(t, match.id, winnerId, event.id) : t
+      )));
+      setIsExiting(false);
+    }, 400);
+  };
+
+  // A film that left the library (removed, or merged away) can't be voted on; its opponent goes through
+  const handleForfeit = (match: TournamentMatch) => {
+    if (!viewing) return;
+    const tournamentId = viewing.id;
+    const loserId = moviesById.has(match.aId!) ? match.bId! : match.aId!;
+    onUpdateTournaments(prev => prev.map(t => (
+      t.id === tournamentId ? forfeitTournamentMatch(t, match.id, loserId) : t
+    )));
+  };
+
+  const handleExportChampion = async () => {
+    if (!viewing?.championId) return;
+    const placings = getFinalPlacings(viewing)
+      .map(id => moviesById.get(id))
+      .filter((m): m is Movie => !!m);
+    const blob = await renderChampionCard(viewing, placings);
+    if (!blob) return;
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.setAttribute('download', `filmelo_${viewing.name.toLowerCase().replace(/[^a-z0-9]+/g, '_')}.png`);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const pastTournaments = tournaments.filter(t => t.completedAt && t.id !== viewing?.id).reverse();
+  const nameOf = (id: string | null) => (id ? moviesById.get(id)?.name || 'Removed Film' : 'TBD');
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 md:px-8 py-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row justify-between items-center mb-10 gap-4 border-b-4 border-bauhaus-black pb-6 bg-white p-6 shadow-hard-md">
+        <div>
+          <h2 className="text-4xl font-black uppercase tracking-tighter text-bauhaus-black flex items-center gap-3">
+            <Trophy size={32} className="text-bauhaus-yellow" /> {showSetup ? 'New Tournament' : viewing!.name}
+          </h2>
+          {!showSetup && viewing && (
+            <p className="text-bauhaus-blue font-bold uppercase tracking-widest text-sm mt-1">
+              {viewing.format === 'SINGLE_ELIMINATION' ? 'Single Elimination' : 'Round Robin'}
+              <span className="text-gray-400"> • {getTournamentProgress(viewing).played} / {getTournamentProgress(viewing).total} Matches</span>
+            </p>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-3 items-center justify-center">
+          {!showSetup && active && viewing?.id === active.id && (
+            <Button onClick={handleAbandon} variant="outline" className="flex items-center gap-2" title="Abandon Tournament">
+              <Flag size={18} /> <span className="hidden sm:inline">Abandon</span>
+            </Button>
+          )}
+          {!showSetup && !active && (
+            <Button onClick={() => setIsCreating(true)} variant="yellow" className="flex items-center gap-2">
+              <Plus size={18} /> New
+            </Button>
+          )}
+          {isCreating && viewing && (
+            <Button onClick={() => setIsCreating(false)} variant="outline">Cancel</Button>
+          )}
+          <Button onClick={onBack} variant="primary" className="flex items-center gap-2">
+            <ArrowLeft size={18} /> Arena
+          </Button>
+        </div>
+      </div>
+
+      {showSetup ? (
+        <TournamentSetup movies={arenaMovies} onStart={handleStart} />
+      ) : viewing && (
+        <div className="space-y-12">
+          {/* Champion Screen */}
+          {viewing.championId && (
+            <ChampionPanel
+              tournament={viewing}
+              placings={getFinalPlacings(viewing).slice(0, 4).map(id => moviesById.get(id)).filter((m): m is Movie => !!m)}
+              onExport={handleExportChampion}
+            />
+          )}
+
+          {/* Current Match */}
+          {nextMatch && filmA && filmB && (
+            <section>
+              <p className="text-center text-xs font-black uppercase tracking-widest opacity-60 mb-6">
+                {describeRound(viewing, nextMatch.round)}
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-8 md:gap-16 items-stretch max-w-5xl mx-auto">
+                <div key={`a-${filmA.id}`} className={isExiting ? 'animate-slide-out-left' : 'animate-slide-in-left'}>
+                  <MovieCard movie={filmA} onClick={(strength) => handleVote(nextMatch, filmA.id, strength)} />
+                </div>
+                <div key={`b-${filmB.id}`} className={isExiting ? 'animate-slide-out-right' : 'animate-slide-in-right'}>
+                  <MovieCard movie={filmB} onClick={(strength) => handleVote(nextMatch, filmB.id, strength)} />
+                </div>
+              </div>
+              {viewing.format === 'ROUND_ROBIN' && (
+                <div className="flex justify-center mt-8">
+                  <Button onClick={() => handleVote(nextMatch, null)} variant="outline" disabled={isExiting} className="flex items-center gap-2">
+                    <Equal size={18} /> Too Close to Call
+                  </Button>
+                </div>
+              )}
+            </section>
+          )}
+
+          {nextMatch && (!filmA || !filmB) && (
+            <section className="max-w-2xl mx-auto bg-white border-4 border-bauhaus-black shadow-hard-md p-8 text-center">
+              <p className="text-xs font-black uppercase tracking-widest opacity-60 mb-4">
+                {describeRound(viewing, nextMatch.round)}
+              </p>
+              <p className="font-bold uppercase text-gray-500 mb-6">
+                {remaining
+                  ? `${remaining.name} is up against a film no longer in your library.`
+                  : 'Neither film in this match is in your library any more.'}
+              </p>
+              <Button onClick={() => handleForfeit(nextMatch)} variant="primary" className="inline-flex items-center gap-2">
+                <SkipForward size={18} /> {remaining ? `Give ${remaining.name} A Walkover` : 'Skip Match'}
+              </Button>
+            </section>
+          )}
+
+          {/* Bracket / Standings */}
+          {viewing.format === 'SINGLE_ELIMINATION' ? (
+            <BracketView tournament={viewing} currentMatchId={nextMatch?.id} nameOf={nameOf} />
+          ) : (
+            <StandingsView tournament={viewing} currentMatchId={nextMatch?.id} nameOf={nameOf} />
+          )}
+
+          {/* Past Champions */}
+          {pastTournaments.length > 0 && (
+            <section>
+              <h3 className="text-sm font-black uppercase mb-4">Past Tournaments</h3>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {pastTournaments.map(t => (
+                  <button
+                    key={t.id}
+                    onClick={() => { setViewingId(t.id); setIsCreating(false); }}
+                    className="p-4 border-2 border-bauhaus-black bg-white text-left shadow-hard-sm hover:shadow-hard-md transition-all"
+                  >
+                    <div className="text-[10px] font-black uppercase tracking-widest text-gray-500">{t.name}</div>
+                    <div className="font-black uppercase text-lg truncate flex items-center gap-2">
+                      <Trophy size={16} className="text-bauhaus-yellow flex-shrink-0" /> {nameOf(t.championId || null)}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </section>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface PanelProps {
+  tournament: Tournament;
+  currentMatchId?: string;
+  nameOf: (id: string | null) => string;
+}
+
+const BracketView: React.FC<PanelProps> = ({ tournament, currentMatchId, nameOf }) => {
+  const rounds = Array.from({ length: getRoundCount(tournament) }, (_, round) =>
+    tournament.matches.filter(m => m.round === round).sort((a, b) => a.slot - b.slot)
+  );
+
+  const Entrant = ({ match, id }: { match: TournamentMatch; id: string | null }) => {
+    const isWinner = !!id && match.winnerId === id;
+    const isLoser = !!id && !!match.winnerId && match.winnerId !== id;
+    return (
+      <div className={`px-2 py-1 text-xs font-bold uppercase truncate ${isWinner ? 'bg-bauhaus-black text-white' : isLoser ? 'text-gray-400 line-through' : ''}`}>
+        {id ? nameOf(id) : match.isBye ? 'Bye' : 'TBD'}
+      </div>
+    );
+  };
+
+  return (
+    <section className="overflow-x-auto pb-4">
+      <div className="flex gap-6 min-w-max">
+        {rounds.map((matches, round) => (
+          <div key={round} className="w-48 flex flex-col">
+            <h4 className="text-[10px] font-black uppercase tracking-widest mb-3 text-gray-500">{describeRound(tournament, round)}</h4>
+            <div className="flex-1 flex flex-col justify-around gap-3">
+              {matches.map(match => (
+                <div
+                  key={match.id}
+                  className={`border-2 border-bauhaus-black bg-white divide-y divide-gray-200 ${match.id === currentMatchId ? 'shadow-hard-md ring-4 ring-bauhaus-yellow' : ''}`}
+                >
+                  <Entrant match={match} id={match.aId} />
+                  <Entrant match={match} id={match.bId} />
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+const StandingsView: React.FC<PanelProps> = ({ tournament, currentMatchId, nameOf }) => {
+  const standings = getStandings(tournament);
+
+  return (
+    <section className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+      <div className="bg-white border-4 border-bauhaus-black shadow-hard-md">
+        <table className="w-full text-left">
+          <thead className="bg-bauhaus-black text-white text-xs uppercase tracking-widest">
+            <tr>
+              <th className="p-3">#</th>
+              <th className="p-3">Film</th>
+              <th className="p-3 text-center">W-D-L</th>
+              <th className="p-3 text-right">Pts</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y-2 divide-gray-100">
+            {standings.map((row, i) => (
+              <tr key={row.id} className={i === 0 ? 'bg-bauhaus-yellow/20' : ''}>
+                <td className="p-3 font-black">{i + 1}</td>
+                <td className="p-3 font-bold uppercase text-sm truncate max-w-[14rem]">{nameOf(row.id)}</td>
+                <td className="p-3 text-center font-mono text-sm">{row.wins}-{row.draws}-{row.losses}</td>
+                <td className="p-3 text-right font-black">{row.points}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="space-y-2">
+        {tournament.matches.map(match => (
+          <div
+            key={match.id}
+            className={`flex items-center gap-2 px-3 py-2 border-2 border-bauhaus-black text-xs font-bold uppercase ${match.id === currentMatchId ? 'bg-bauhaus-yellow' : isMatchPlayed(match) ? 'bg-gray-50' : 'bg-white'}`}
+          >
+            <span className="text-gray-400 w-8">R{match.round + 1}</span>
+            <span className={`flex-1 truncate text-right ${match.winnerId === match.aId ? 'font-black' : ''}`}>{nameOf(match.aId)}</span>
+            <span className="w-10 text-center text-gray-400">
+              {match.isDraw ? '½–½' : match.isBye ? 'w/o' : match.winnerId ? (match.winnerId === match.aId ? '1–0' : '0–1') : 'vs'}
+            </span>
+            <span className={`flex-1 truncate ${match.winnerId === match.bId ? 'font-black' : ''}`}>{nameOf(match.bId)}</span>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+const ChampionPanel: React.FC<{ tournament: Tournament; placings: Movie[]; onExport: () => void }> = ({ tournament, placings, onExport }) => {
+  const [champion, ...rest] = placings;
+  if (!champion) return null;
+
+  return (
+    <section className="relative overflow-hidden bg-bauhaus-black text-white border-4 border-bauhaus-black shadow-hard-xl p-8 md:p-12 animate-slide-up">
+      <div className="absolute -top-24 -right-24 w-72 h-72 rounded-full bg-bauhaus-yellow opacity-90"></div>
+      <div className="absolute bottom-0 right-0 w-0 h-0 border-l-[120px] border-l-transparent border-b-[120px] border-b-bauhaus-blue"></div>
+
+      <div className="relative flex flex-col md:flex-row gap-8 items-start">
+        <div className="w-40 aspect-[2/3] bg-bauhaus-red border-4 border-white flex-shrink-0 overflow-hidden">
+          {champion.posterPath ? (
+            <img src={champion.posterPath} alt={champion.name} className="w-full h-full object-cover" />
+          ) : (
+            <div className="w-full h-full flex items-center justify-center"><Trophy size={48} /></div>
+          )}
+        </div>
+        <div className="flex-1 min-w-0">
+          <p className="text-bauhaus-yellow text-sm font-black uppercase tracking-[0.3em] mb-2">Champion</p>
+          <h3 className="text-4xl md:text-6xl font-black uppercase tracking-tighter leading-none mb-2">{champion.name}</h3>
+          <p className="text-gray-400 font-bold mb-6">{champion.year} • {tournament.name}</p>
+          <ol className="space-y-1 mb-8">
+            {rest.map((movie, i) => (
+              <li key={movie.id} className="text-sm font-bold uppercase text-gray-300">
+                <span className="text-bauhaus-yellow mr-2">{i + 2}.</span>{movie.name}
+              </li>
+            ))}
+          </ol>
+          <Button onClick={onExport} variant="yellow" className="flex items-center gap-2">
+            <Download size={18} /> Export Champion Card
+          </Button>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default TournamentView;
@@ -1,33 +1,85 @@
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Movie, AIAnalysis } from '../types';
-import { updateMovieStats } from '../services/eloCalculator';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { Movie, AIAnalysis, MatchOutcome, MatchEvent, VoteStrength, RankingSession, SessionFilter, ConvergenceGoal } from '../types';
+import { updateMovieStats, RatingEngine } from '../services/ratingEngine';
+import { createMatchEvent, rankingToMatchEvents, applyMatchEvents } from '../services/matchLog';
+import { MatchmakingStrategy } from '../services/matchmaking';
+import { pairKey, buildPairHistory, getPairRecord, formatPairScore } from '../services/pairHistory';
+import {
+  PlacementState,
+  startPlacement,
+  getPlacementReference,
+  advancePlacement,
+  isPlacementDone,
+  getPlacedRank,
+  seedPlacedFilm,
+  getUnplacedMovies,
+  estimatePlacementVotes,
+  dropPlacementReference
+} from '../services/placement';
+import { assessConvergence } from '../services/convergence';
+import { isInArena, setFilmStatus } from '../services/filmStatus';
+import { createSession, getSessionIndices, countSessionVotes, describeSessionFilter, ALL_FILMS } from '../services/rankingSession';
 import { getMovieComparisonVibe } from '../services/geminiService';
 import { fetchMoviePoster } from '../services/tmdbService';
-import MovieCard from './MovieCard';
+import MovieCard, { Feedback, getStrengthFromModifiers } from './MovieCard';
+import RankingRound from './RankingRound';
+import SessionPicker from './SessionPicker';
+import ConvergenceMeter from './ConvergenceMeter';
 import Button from './Button';
-import { Sparkles, Shuffle, BarChart2, Undo2, Keyboard, FastForward } from 'lucide-react';
+import { Sparkles, Shuffle, BarChart2, Undo2, Keyboard, FastForward, Equal, Columns2, ListOrdered, Crosshair, Target, X, Trophy, Flag, EyeOff } from 'lucide-react';
 
 interface VotingArenaProps {
   movies: Movie[];
   // Updated type to allow functional state updates for background processing
   onUpdateMovies: React.Dispatch<React.SetStateAction<Movie[]>>;
+  matchLog: MatchEvent[];
+  onUpdateMatchLog: React.Dispatch<React.SetStateAction<MatchEvent[]>>;
+  ratingEngine: RatingEngine;
+  matchmaking: MatchmakingStrategy;
+  pairCooldown: number;
+  convergenceGoal: ConvergenceGoal;
+  onChangeConvergenceGoal: (goal: ConvergenceGoal) => void;
+  session: RankingSession | null;
+  onChangeSession: (session: RankingSession | null) => void;
   onFinish: () => void;
   onSimulate: () => void;
+  onTournament: () => void;
 }
 
 const QUEUE_SIZE = 5;
+const GROUP_SIZES = [3, 4, 5];
+const SKIP_MEMORY = 20; // Skipped pairs kept out of the queue
+
+// PAIR: classic 1v1 Face Off. MULTI: order several films at once.
+// PLACE: binary-search new films into the ranking.
+type ArenaMode = 'PAIR' | 'MULTI' | 'PLACE';
+
+type PlacedFilm = { name: string; rank: number; total: number; votes: number };
 
 // Animation States
 type VoteResult = {
+  outcome: MatchOutcome;
   winnerId: string;
   loserId: string;
   winnerDiff: number;
   loserDiff: number;
 };
 
-const VotingArena: React.FC<VotingArenaProps> = ({ movies, onUpdateMovies, onFinish, onSimulate }) => {
+const VotingArena: React.FC<VotingArenaProps> = ({ movies, onUpdateMovies, matchLog, onUpdateMatchLog, ratingEngine, matchmaking, pairCooldown, convergenceGoal, onChangeConvergenceGoal, session, onChangeSession, onFinish, onSimulate, onTournament }) => {
+  const [arenaMode, setArenaMode] = useState<ArenaMode>('PAIR');
+  const [groupSize, setGroupSize] = useState(4);
+  const [currentGroup, setCurrentGroup] = useState<number[] | null>(null);
   const [currentPair, setCurrentPair] = useState<[number, number] | null>(null);
+  const [placement, setPlacement] = useState<PlacementState | null>(null);
+  const [lastPlaced, setLastPlaced] = useState<PlacedFilm | null>(null);
+  // Films skipped during placement this session; they wait until the rest are placed
+  const [deferredIds, setDeferredIds] = useState<string[]>([]);
+  const [showSessionPicker, setShowSessionPicker] = useState(false);
+  // Label of a session that ended because it ran out of films to pair
+  const [exhaustedSession, setExhaustedSession] = useState<string | null>(null);
+  // Set once the "stop when stable" goal has been shown, so it doesn't nag every vote
+  const [goalDismissed, setGoalDismissed] = useState(false);
   const [matchupQueue, setMatchupQueue] = useState<[number, number][]>([]);
   const [aiAnalysis, setAiAnalysis] = useState<AIAnalysis | null>(null);
   const [loadingAi, setLoadingAi] = useState(false);
@@ -36,59 +88,102 @@ const VotingArena: React.FC<VotingArenaProps> = ({ movies, onUpdateMovies, onFin
   const [voteResult, setVoteResult] = useState<VoteResult | null>(null);
   const [isExiting, setIsExiting] = useState(false);
   
-  // Undo History: Stores snapshots of the movie list before changes
-  const [history, setHistory] = useState<Movie[][]>([]);
+  // Undo History: Stores snapshots of the movie list before changes,
+  // plus the match log events each vote appended so undo can retract them
+  // (and, in placement mode, where the search was)
+  const [history, setHistory] = useState<{ movies: Movie[]; eventIds: string[]; placement?: PlacementState | null }[]>([]);
   
   // Track fetching IDs to prevent duplicate requests in the background
   const fetchingIds = useRef<Set<string>>(new Set());
 
+  const convergence = useMemo(
+    () => assessConvergence(movies, matchLog, convergenceGoal.topN),
+    [movies, matchLog, convergenceGoal.topN]
+  );
+  const goalReached = convergenceGoal.stopWhenStable && convergence.isStable && !goalDismissed;
+
+  // Effect: A new goal gets its own announcement
+  useEffect(() => {
+    setGoalDismissed(false);
+  }, [convergenceGoal.topN, convergenceGoal.stopWhenStable]);
+
   // --- Matchup Generation Logic ---
 
-  const generatePair = useCallback((currentMovies: Movie[]): [number, number] => {
-    if (currentMovies.length < 2) return [0, 0];
-    
-    let idx1 = Math.floor(Math.random() * currentMovies.length);
-    let idx2 = Math.floor(Math.random() * currentMovies.length);
-    
-    // 60% chance smart pairing (match similar Elos)
-    const useSmartPairing = Math.random() > 0.6;
-    
-    if (useSmartPairing) {
-        const targetElo = currentMovies[idx1].elo;
-        // Optimization: Sample a subset instead of sorting entire array for performance
-        const candidates: {idx: number, diff: number}[] = [];
-        const attempts = Math.min(currentMovies.length - 1, 20); // Try 20 random candidates
-        
-        for (let i = 0; i < attempts; i++) {
-           const r = Math.floor(Math.random() * currentMovies.length);
-           if (r !== idx1) {
-              candidates.push({ idx: r, diff: Math.abs(currentMovies[r].elo - targetElo) });
-           }
-        }
-        
-        candidates.sort((a, b) => a.diff - b.diff);
-        if (candidates.length > 0) {
-            // Pick from the top 3 closest matches to keep it slightly varied
-            const pool = candidates.slice(0, 3);
-            idx2 = pool[Math.floor(Math.random() * pool.length)].idx;
-        }
+  const pairHistory = useMemo(() => buildPairHistory(matchLog), [matchLog]);
+  // Skips never reach the match log, so remember them here for the matchmaker
+  const skippedPairs = useRef<string[]>([]);
+
+  // Indices of the films this session may draw from (the whole library without one)
+  // Excluded, hidden and needs-rewatch films never make it in
+  const getPool = useCallback((currentMovies: Movie[]): number[] => {
+    const inSession = new Set(getSessionIndices(currentMovies, session));
+    return currentMovies.reduce<number[]>((acc, m, i) => {
+      if (isInArena(m) && inSession.has(i)) acc.push(i);
+      return acc;
+    }, []);
+  }, [session]);
+
+  // Below two eligible films there is nothing to pair
+  const arenaCount = useMemo(() => movies.filter(isInArena).length, [movies]);
+  // Films pairs and rounds are drawn from: the arena, narrowed to the session if there is one
+  const poolCount = useMemo(() => getPool(movies).length, [movies, getPool]);
+
+  // Pairs already waiting in the queue count as recent so they aren't queued twice
+  const generatePair = useCallback((currentMovies: Movie[], pending: [number, number][] = []): [number, number] => {
+    const pendingKeys = pending
+      .filter(([a, b]) => currentMovies[a] && currentMovies[b])
+      .map(([a, b]) => pairKey(currentMovies[a].id, currentMovies[b].id));
+    const indices = getPool(currentMovies);
+    const [a, b] = matchmaking.pickPair(indices.map(i => currentMovies[i]), {
+      engine: ratingEngine,
+      history: pairHistory,
+      cooldown: pairCooldown,
+      pendingPairs: [...skippedPairs.current, ...pendingKeys]
+    });
+    return [indices[a], indices[b]];
+  }, [matchmaking, ratingEngine, pairHistory, pairCooldown, getPool]);
+
+  /**
+   * Picks `size` distinct films for a ranking round: a random anchor plus
+   * (usually) its closest-Elo neighbours from a random sample.
+   */
+  const generateGroup = useCallback((currentMovies: Movie[], size: number): number[] => {
+    const indices = getPool(currentMovies);
+    const pool = indices.map(i => currentMovies[i]);
+    const target = Math.min(size, pool.length);
+    const anchor = Math.floor(Math.random() * pool.length);
+    const group = new Set<number>([anchor]);
+
+    if (Math.random() > 0.4) {
+      const targetElo = pool[anchor].elo;
+      const candidates: {idx: number, diff: number}[] = [];
+      const attempts = Math.min(pool.length - 1, 30);
+      for (let i = 0; i < attempts; i++) {
+        const r = Math.floor(Math.random() * pool.length);
+        if (r !== anchor) candidates.push({ idx: r, diff: Math.abs(pool[r].elo - targetElo) });
+      }
+      candidates.sort((a, b) => a.diff - b.diff);
+      for (const c of candidates) {
+        if (group.size >= target) break;
+        group.add(c.idx);
+      }
     }
 
-    // Fallback: Ensure not same
+    // Fill any remaining slots at random
     let safety = 0;
-    while (idx1 === idx2 && safety < 100) {
-      idx2 = Math.floor(Math.random() * currentMovies.length);
+    while (group.size < target && safety < 1000) {
+      group.add(Math.floor(Math.random() * pool.length));
       safety++;
     }
 
-    return [idx1, idx2];
-  }, []);
+    return Array.from(group).map(i => indices[i]);
+  }, [getPool]);
 
   // --- Queue Management ---
 
   // Effect: Maintain Queue Depth
   useEffect(() => {
-    if (movies.length < 2) return;
+    if (poolCount < 2) return;
 
     setMatchupQueue(prevQueue => {
       if (prevQueue.length >= QUEUE_SIZE) return prevQueue;
@@ -96,11 +191,11 @@ const VotingArena: React.FC<VotingArenaProps> = ({ movies, onUpdateMovies, onFin
       const newQueue = [...prevQueue];
       // Generate enough pairs to fill the buffer
       while (newQueue.length < QUEUE_SIZE) {
-        newQueue.push(generatePair(movies));
+        newQueue.push(generatePair(movies, newQueue));
       }
       return newQueue;
     });
-  }, [movies, generatePair]); 
+  }, [movies, poolCount, generatePair]); 
 
   // Effect: Initialize First Pair if empty
   useEffect(() => {
@@ -108,21 +203,33 @@ const VotingArena: React.FC<VotingArenaProps> = ({ movies, onUpdateMovies, onFin
       const next = matchupQueue[0];
       setCurrentPair(next);
       setMatchupQueue(q => q.slice(1));
-    } else if (!currentPair && movies.length >= 2) {
+    } else if (!currentPair && poolCount >= 2) {
       // Immediate fallback if queue isn't ready
       setCurrentPair(generatePair(movies));
     }
-  }, [matchupQueue, currentPair, movies, generatePair]);
+  }, [matchupQueue, currentPair, movies, poolCount, generatePair]);
+
+  // In placement mode the pair is the new film against the current reference
+  const placementPair = useMemo((): [number, number] | null => {
+    if (!placement) return null;
+    const referenceId = getPlacementReference(placement);
+    const filmIdx = movies.findIndex(m => m.id === placement.filmId);
+    const refIdx = movies.findIndex(m => m.id === referenceId);
+    return filmIdx === -1 || refIdx === -1 ? null : [filmIdx, refIdx];
+  }, [placement, movies]);
+
+  const activePair = arenaMode === 'PLACE' ? placementPair : currentPair;
 
   // --- Background Image Pre-loading ---
 
   useEffect(() => {
     // Collect all unique movie indices from the queue + current pair
     const indicesToLoad = new Set<number>();
-    if (currentPair) {
-      indicesToLoad.add(currentPair[0]);
-      indicesToLoad.add(currentPair[1]);
+    if (activePair) {
+      indicesToLoad.add(activePair[0]);
+      indicesToLoad.add(activePair[1]);
     }
+    currentGroup?.forEach(idx => indicesToLoad.add(idx));
     matchupQueue.forEach(pair => {
       indicesToLoad.add(pair[0]);
       indicesToLoad.add(pair[1]);
@@ -163,7 +270,49 @@ const VotingArena: React.FC<VotingArenaProps> = ({ movies, onUpdateMovies, onFin
         img.src = movie.posterPath;
       }
     });
-  }, [matchupQueue, currentPair, movies, onUpdateMovies]);
+  }, [matchupQueue, activePair, currentGroup, movies, onUpdateMovies]);
+
+  // --- Placement ---
+
+  // Effect: Pick up the next unplaced film whenever the previous one is done
+  useEffect(() => {
+    if (arenaMode !== 'PLACE' || placement) return;
+    const candidateIds = session?.filmIds;
+    const next = startPlacement(movies, deferredIds, candidateIds);
+    // Once only deferred films remain, give them their turn
+    setPlacement(next || (deferredIds.length > 0 ? startPlacement(movies, [], candidateIds) : null));
+    if (!next && deferredIds.length > 0) setDeferredIds([]);
+  }, [arenaMode, placement, movies, deferredIds, session]);
+
+  // --- Focus Session ---
+
+  // Anything already picked came from the old subset, so it's dropped and regenerated
+  const handleStartSession = (filter: SessionFilter) => {
+    onChangeSession(createSession(movies, filter));
+    setShowSessionPicker(false);
+    setExhaustedSession(null);
+    setMatchupQueue([]);
+    setCurrentPair(null);
+    setCurrentGroup(null);
+    setPlacement(null);
+    setDeferredIds([]);
+    setAiAnalysis(null);
+  };
+
+  // Effect: A session with fewer than two films left in the arena can't be paired, so it ends
+  // (placement still works: its films are compared against the whole ranking)
+  useEffect(() => {
+    if (!session || arenaMode === 'PLACE' || poolCount >= 2) return;
+    handleStartSession(ALL_FILMS);
+    setExhaustedSession(describeSessionFilter(session.filter));
+  }, [session, arenaMode, poolCount]);
+
+  // Effect: Deal a fresh ranking round whenever there isn't one
+  useEffect(() => {
+    if (arenaMode === 'MULTI' && !currentGroup && poolCount >= 2) {
+      setCurrentGroup(generateGroup(movies, groupSize));
+    }
+  }, [arenaMode, currentGroup, movies, poolCount, groupSize, generateGroup]);
 
 
   // --- Event Handlers ---
@@ -175,37 +324,112 @@ const VotingArena: React.FC<VotingArenaProps> = ({ movies, onUpdateMovies, onFin
       setMatchupQueue(prev => prev.slice(1));
     } else {
       // Emergency generation if queue empty
-      setCurrentPair(generatePair(movies));
+      setCurrentPair(poolCount >= 2 ? generatePair(movies) : null);
     }
     // Clean up local state
     setAiAnalysis(null);
     setVoteResult(null);
-  }, [matchupQueue, movies, generatePair]);
+  }, [matchupQueue, movies, poolCount, generatePair]);
+
+  /**
+   * "Don't remember this one": flags the film as needing a rewatch, which takes it
+   * out of the arena (its history stays), and moves on. Undo restores it.
+   */
+  const handleForget = (movieIndex: number) => {
+    if (isExiting || voteResult) return;
+    const movie = movies[movieIndex];
+    if (!movie) return;
+    setHistory(prev => [...prev.slice(-10), { movies: [...movies], eventIds: [], placement }]);
+
+    setIsExiting(true);
+    setTimeout(() => {
+        onUpdateMovies(prev => setFilmStatus(prev, [movie.id], 'REWATCH'));
+        // Drop queued pairs that include the film
+        const remaining = matchupQueue.filter(([a, b]) => a !== movieIndex && b !== movieIndex);
+        if (arenaMode === 'PLACE' && placement) {
+          setMatchupQueue(remaining);
+          setPlacement(placement.filmId === movie.id ? null : dropPlacementReference(placement, movie.id));
+        } else {
+          setMatchupQueue(remaining.slice(1));
+          setCurrentPair(remaining[0] || null);
+        }
+        setAiAnalysis(null);
+        setIsExiting(false);
+    }, 400);
+  };
 
   const handleSkip = useCallback(() => {
     if (isExiting || voteResult) return;
+    if (arenaMode === 'PLACE') {
+      // Skipping a placement defers the whole film, not just this reference
+      if (!placement) return;
+      const filmId = placement.filmId;
+      setIsExiting(true);
+      setTimeout(() => {
+          setDeferredIds(prev => [...prev, filmId]);
+          setPlacement(null);
+          setIsExiting(false);
+      }, 400);
+      return;
+    }
+    if (currentPair && movies[currentPair[0]] && movies[currentPair[1]]) {
+      const key = pairKey(movies[currentPair[0]].id, movies[currentPair[1]].id);
+      skippedPairs.current = [...skippedPairs.current.slice(-SKIP_MEMORY + 1), key];
+    }
     setIsExiting(true);
     setTimeout(() => {
         advanceQueue();
         setIsExiting(false);
     }, 400); // Wait for exit transition
-  }, [advanceQueue, isExiting, voteResult]);
-
-  const handleVote = useCallback((winnerIndex: number, loserIndex: number) => {
+  }, [advanceQueue, arenaMode, placement, currentPair, movies, isExiting, voteResult]);
+
+  // `ratedMovies` is the library with `event` applied; a finished film is seeded into its slot from there
+  const advancePlacementAfterVote = useCallback((state: PlacementState, event: MatchEvent, ratedMovies: Movie[]) => {
+    const result = event.outcome === 'DRAW' ? 'DRAW' : event.winnerId === state.filmId ? 'WIN' : 'LOSS';
+    const next = advancePlacement(state, result);
+    if (isPlacementDone(next)) {
+      const placed = seedPlacedFilm(ratedMovies, [...matchLog, event], next, ratingEngine);
+      onUpdateMovies(placed);
+      const film = placed.find(m => m.id === next.filmId);
+      setLastPlaced({
+        name: film?.name || '',
+        ...getPlacedRank(placed, next.filmId),
+        votes: next.votes
+      });
+      setPlacement(null); // The effect picks up the next film
+    } else {
+      setPlacement(next);
+    }
+    setAiAnalysis(null);
+    setVoteResult(null);
+  }, [matchLog, ratingEngine, onUpdateMovies]);
+
+  const handleVote = useCallback((
+    winnerIndex: number,
+    loserIndex: number,
+    outcome: MatchOutcome = 'WIN',
+    strength: VoteStrength = 'CLEAR'
+  ) => {
     if (voteResult || isExiting) return; // Prevent double clicks during animation
 
-    // Save history
-    setHistory(prev => [...prev.slice(-10), [...movies]]);
-
     const winner = movies[winnerIndex];
     const loser = movies[loserIndex];
-    const { winner: newWinner, loser: newLoser } = updateMovieStats(winner, loser);
+    const event = createMatchEvent(winner.id, loser.id, outcome, Date.now(), strength);
+    const { winner: newWinner, loser: newLoser } = updateMovieStats(winner, loser, ratingEngine, {
+      outcome,
+      strength: event.strength,
+      timestamp: event.timestamp
+    });
+
+    // Save history
+    setHistory(prev => [...prev.slice(-10), { movies: [...movies], eventIds: [event.id], placement }]);
     
     // 1. Trigger Animation (Show results)
     const winnerDiff = newWinner.elo - winner.elo;
     const loserDiff = newLoser.elo - loser.elo;
     
     setVoteResult({
+      outcome,
       winnerId: winner.id,
       loserId: loser.id,
       winnerDiff,
@@ -224,13 +448,19 @@ const VotingArena: React.FC<VotingArenaProps> = ({ movies, onUpdateMovies, onFin
               newMovies[loserIndex] = newLoser;
               return newMovies;
             });
+            onUpdateMatchLog(prevLog => [...prevLog, event]);
             
-            advanceQueue(); // This clears voteResult
+            if (arenaMode === 'PLACE' && placement) {
+              const ratedMovies = movies.map((m, i) => i === winnerIndex ? newWinner : i === loserIndex ? newLoser : m);
+              advancePlacementAfterVote(placement, event, ratedMovies);
+            } else {
+              advanceQueue(); // This clears voteResult
+            }
             setIsExiting(false);
         }, 400); // Matches CSS animation time
     }, 500); // Viewing time
 
-  }, [movies, onUpdateMovies, advanceQueue, voteResult, isExiting]);
+  }, [movies, onUpdateMovies, onUpdateMatchLog, ratingEngine, advanceQueue, advancePlacementAfterVote, arenaMode, placement, voteResult, isExiting]);
 
   const handleUndo = () => {
     if (history.length === 0 || isExiting) return;
@@ -240,17 +470,63 @@ const VotingArena: React.FC<VotingArenaProps> = ({ movies, onUpdateMovies, onFin
     setTimeout(() => {
         const previousState = history[history.length - 1];
         setHistory(prev => prev.slice(0, -1));
-        onUpdateMovies(previousState);
-        advanceQueue(); 
+        const retracted = new Set(previousState.eventIds);
+        onUpdateMovies(previousState.movies);
+        onUpdateMatchLog(prevLog => prevLog.filter(e => !retracted.has(e.id)));
+        if (arenaMode === 'MULTI') {
+          setCurrentGroup(generateGroup(previousState.movies, groupSize));
+        } else if (arenaMode === 'PLACE') {
+          setPlacement(previousState.placement || null);
+          setVoteResult(null);
+        } else {
+          advanceQueue(); 
+        }
+        setIsExiting(false);
+    }, 400);
+  };
+
+  // --- Multi-Film Ranking Rounds ---
+
+  const startNewGroup = useCallback((size: number = groupSize) => {
+    setCurrentGroup(poolCount >= 2 ? generateGroup(movies, size) : null);
+  }, [movies, poolCount, groupSize, generateGroup]);
+
+  const switchMode = (mode: ArenaMode) => {
+    if (mode === arenaMode || isExiting || voteResult) return;
+    setArenaMode(mode);
+    if (mode === 'MULTI') startNewGroup();
+    if (mode !== 'PLACE') {
+      setPlacement(null);
+      setLastPlaced(null);
+    }
+  };
+
+  const changeGroupSize = (size: number) => {
+    setGroupSize(size);
+    startNewGroup(size);
+  };
+
+  // The ordering becomes its implied pairwise results, applied like any other votes
+  const handleRankSubmit = (orderedIds: string[]) => {
+    if (isExiting) return;
+    const events = rankingToMatchEvents(orderedIds);
+    setHistory(prev => [...prev.slice(-10), { movies: [...movies], eventIds: events.map(e => e.id) }]);
+
+    setIsExiting(true);
+    setTimeout(() => {
+        const nextMovies = applyMatchEvents(movies, events, ratingEngine);
+        onUpdateMovies(prevMovies => applyMatchEvents(prevMovies, events, ratingEngine));
+        onUpdateMatchLog(prevLog => [...prevLog, ...events]);
+        setCurrentGroup(generateGroup(nextMovies, groupSize));
         setIsExiting(false);
     }, 400);
   };
 
   const fetchAiInsight = async () => {
-    if (!currentPair) return;
+    if (!activePair) return;
     setLoadingAi(true);
-    const m1 = movies[currentPair[0]];
-    const m2 = movies[currentPair[1]];
+    const m1 = movies[activePair[0]];
+    const m2 = movies[activePair[1]];
     const analysis = await getMovieComparisonVibe(m1.name, m1.year, m2.name, m2.year);
     if (analysis) setAiAnalysis(analysis);
     setLoadingAi(false);
@@ -259,14 +535,25 @@ const VotingArena: React.FC<VotingArenaProps> = ({ movies, onUpdateMovies, onFin
   // Keyboard Support
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (!currentPair || voteResult || isExiting) return; // Disable keys during animation
+      if (voteResult || isExiting) return; // Disable keys during animation
+      if (arenaMode === 'MULTI') {
+        if (e.key === 'Backspace' && history.length > 0) handleUndo();
+        return;
+      }
+      if (!activePair) return;
       
       switch(e.key) {
         case 'ArrowLeft':
-          handleVote(currentPair[0], currentPair[1]);
+          e.preventDefault();
+          handleVote(activePair[0], activePair[1], 'WIN', getStrengthFromModifiers(e));
           break;
         case 'ArrowRight':
-          handleVote(currentPair[1], currentPair[0]);
+          e.preventDefault();
+          handleVote(activePair[1], activePair[0], 'WIN', getStrengthFromModifiers(e));
+          break;
+        case 'ArrowUp':
+          e.preventDefault();
+          handleVote(activePair[0], activePair[1], 'DRAW');
           break;
         case 'ArrowDown':
         case ' ':
@@ -281,16 +568,51 @@ const VotingArena: React.FC<VotingArenaProps> = ({ movies, onUpdateMovies, onFin
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [currentPair, handleVote, handleSkip, history, voteResult, isExiting]);
+  }, [activePair, arenaMode, handleVote, handleSkip, history, voteResult, isExiting]);
+
+  if (arenaCount < 2) return (
+    <div className="flex items-center justify-center h-[50vh] px-4">
+        <div className="bg-white border-4 border-bauhaus-black p-10 shadow-hard-lg text-center max-w-xl">
+            <h3 className="text-2xl font-black uppercase tracking-tighter mb-2">Not Enough Films In The Arena</h3>
+            <p className="text-sm font-bold text-gray-500 uppercase tracking-wide mb-6">
+                Every film but one is excluded, hidden or waiting on a rewatch. Bring some back from the leaderboard.
+            </p>
+            <Button onClick={onFinish} variant="primary" className="inline-flex items-center gap-2">
+                <BarChart2 size={18} /> Rankings
+            </Button>
+        </div>
+    </div>
+  );
 
-  if (!currentPair) return (
+  if ((arenaMode === 'PAIR' && !currentPair) || (arenaMode === 'MULTI' && !currentGroup)) return (
     <div className="flex items-center justify-center h-[50vh]">
         <div className="text-2xl font-black uppercase tracking-tighter animate-pulse">Loading Cinema...</div>
     </div>
   );
 
-  const m1 = movies[currentPair[0]];
-  const m2 = movies[currentPair[1]];
+  const m1 = activePair ? movies[activePair[0]] : null;
+  const m2 = activePair ? movies[activePair[1]] : null;
+  const unplacedCount = getUnplacedMovies(movies).length;
+
+  // "Previously: you picked X 3–0" when a rematch comes up
+  const rematch = m1 && m2 ? getPairRecord(pairHistory, m1.id, m2.id) : undefined;
+  const rematchSummary = (() => {
+    if (!rematch || !m1 || !m2) return null;
+    const m1Wins = rematch.wins[m1.id] || 0;
+    const m2Wins = rematch.wins[m2.id] || 0;
+    if (m1Wins === m2Wins) return `Previously: dead even ${formatPairScore(rematch, m1.id, m2.id)}`;
+    const [leader, other] = m1Wins > m2Wins ? [m1, m2] : [m2, m1];
+    return `Previously: you picked ${leader.name} ${formatPairScore(rematch, leader.id, other.id)}`;
+  })();
+
+  const getFeedback = (movieId: string): Feedback | null => {
+    if (!voteResult) return null;
+    const diff = voteResult.winnerId === movieId ? voteResult.winnerDiff : voteResult.loserDiff;
+    if (voteResult.outcome === 'DRAW') return { type: 'DRAW', diff };
+    if (voteResult.winnerId === movieId) return { type: 'WIN', diff };
+    if (voteResult.loserId === movieId) return { type: 'LOSS', diff };
+    return null;
+  };
 
   return (
     <div className="flex flex-col min-h-[calc(100vh-100px)] max-w-7xl mx-auto px-4 md:px-8 py-6 overflow-hidden">
@@ -299,13 +621,79 @@ const VotingArena: React.FC<VotingArenaProps> = ({ movies, onUpdateMovies, onFin
       <div className="flex flex-col md:flex-row justify-between items-center mb-10 gap-4 border-b-4 border-bauhaus-black pb-6 bg-white p-6 shadow-hard-md">
         <div>
           <h2 className="text-4xl font-black uppercase tracking-tighter text-bauhaus-black">
-            Face Off
+            {arenaMode === 'MULTI' ? 'Rank Round' : arenaMode === 'PLACE' ? 'Placement' : 'Face Off'}
           </h2>
           <p className="text-bauhaus-blue font-bold uppercase tracking-widest text-sm mt-1">
-            Construct Your Canon
+            Construct Your Canon <span className="text-gray-400">• {ratingEngine.label}</span>
           </p>
+          <div className="flex items-center gap-2 mt-3">
+            <button
+              onClick={() => setShowSessionPicker(true)}
+              className={`flex items-center gap-1 px-2 py-1 border-2 border-bauhaus-black text-[10px] font-black uppercase tracking-widest ${session ? 'bg-bauhaus-yellow' : 'bg-white hover:bg-gray-100'}`}
+              title="Focus on part of your library"
+            >
+              <Target size={12} /> {session ? describeSessionFilter(session.filter) : 'Whole Library'}
+            </button>
+            {session && (
+              <>
+                <span className="text-[10px] font-bold uppercase tracking-widest text-gray-500">
+                  {session.filmIds.length} films • {countSessionVotes(session, matchLog)} votes this session
+                </span>
+                <button onClick={() => handleStartSession(ALL_FILMS)} className="p-1 hover:text-bauhaus-red" title="End session">
+                  <X size={14} strokeWidth={3} />
+                </button>
+              </>
+            )}
+            {!session && exhaustedSession && (
+              <span className="text-[10px] font-bold uppercase tracking-widest text-bauhaus-red">
+                {exhaustedSession} ended: fewer than two of its films are left in the arena
+              </span>
+            )}
+          </div>
+          <ConvergenceMeter report={convergence} goal={convergenceGoal} tracksDeviation={ratingEngine.tracksDeviation} onChangeGoal={onChangeConvergenceGoal} />
         </div>
         <div className="flex flex-wrap gap-4 items-center justify-center">
+            {/* Mode Toggle */}
+            <div className="flex border-2 border-bauhaus-black shadow-hard-sm">
+                <button
+                  onClick={() => switchMode('PAIR')}
+                  className={`px-3 py-2 flex items-center gap-1 text-xs font-black uppercase ${arenaMode === 'PAIR' ? 'bg-bauhaus-black text-white' : 'bg-white hover:bg-gray-100'}`}
+                  title="Head-to-head votes"
+                >
+                  <Columns2 size={16} /> 1v1
+                </button>
+                <button
+                  onClick={() => switchMode('MULTI')}
+                  className={`px-3 py-2 flex items-center gap-1 text-xs font-black uppercase border-l-2 border-bauhaus-black ${arenaMode === 'MULTI' ? 'bg-bauhaus-black text-white' : 'bg-white hover:bg-gray-100'}`}
+                  title="Order several films at once"
+                >
+                  <ListOrdered size={16} /> Rank
+                </button>
+                <button
+                  onClick={() => switchMode('PLACE')}
+                  className={`px-3 py-2 flex items-center gap-1 text-xs font-black uppercase border-l-2 border-bauhaus-black ${arenaMode === 'PLACE' ? 'bg-bauhaus-black text-white' : 'bg-white hover:bg-gray-100'}`}
+                  title="Place films you haven't voted on yet"
+                >
+                  <Crosshair size={16} /> Place{unplacedCount > 0 && <span className="text-bauhaus-red">{unplacedCount}</span>}
+                </button>
+            </div>
+
+            {arenaMode === 'MULTI' && (
+                <div className="flex items-center gap-1">
+                    {GROUP_SIZES.map(size => (
+                        <button
+                          key={size}
+                          onClick={() => changeGroupSize(size)}
+                          disabled={isExiting || size > poolCount}
+                          className={`w-8 h-8 text-sm font-black border-2 border-bauhaus-black disabled:opacity-30 ${groupSize === size ? 'bg-bauhaus-yellow' : 'bg-white hover:bg-gray-100'}`}
+                          title={`Rank ${size} films per round`}
+                        >
+                          {size}
+                        </button>
+                    ))}
+                </div>
+            )}
+
             {history.length > 0 && (
                 <Button onClick={handleUndo} variant="outline" title="Undo Last Vote (Backspace)" disabled={!!voteResult || isExiting}>
                     <Undo2 size={20} />
@@ -313,8 +701,23 @@ const VotingArena: React.FC<VotingArenaProps> = ({ movies, onUpdateMovies, onFin
             )}
            
            <div className="flex items-center border-l-2 border-gray-300 pl-4 gap-2">
-               <Button onClick={handleSkip} variant="outline" title="Skip Pair (Space)" disabled={!!voteResult || isExiting}>
-                 <Shuffle size={20} />
+               {arenaMode === 'MULTI' ? (
+                 <Button onClick={() => startNewGroup()} variant="outline" title="Skip Round" disabled={isExiting}>
+                   <Shuffle size={20} />
+                 </Button>
+               ) : activePair && (
+                 <>
+                   <Button onClick={() => handleVote(activePair[0], activePair[1], 'DRAW')} variant="outline" title="Too Close to Call (↑)" disabled={!!voteResult || isExiting}>
+                     <Equal size={20} />
+                   </Button>
+                   <Button onClick={handleSkip} variant="outline" title={arenaMode === 'PLACE' ? 'Place This Film Later (Space)' : 'Skip Pair (Space)'} disabled={!!voteResult || isExiting}>
+                     <Shuffle size={20} />
+                   </Button>
+                 </>
+               )}
+               <Button onClick={onTournament} variant="outline" className="flex items-center gap-2" title="Brackets & Round Robins">
+                   <Trophy size={18} />
+                   <span className="hidden sm:inline">Tournament</span>
                </Button>
                <Button onClick={onSimulate} variant="yellow" className="flex items-center gap-2 group">
                    <FastForward size={18} className="group-hover:translate-x-1 transition-transform" /> 
@@ -327,6 +730,63 @@ const VotingArena: React.FC<VotingArenaProps> = ({ movies, onUpdateMovies, onFin
         </div>
       </div>
 
+      {arenaMode === 'MULTI' && currentGroup ? (
+        /* Ranking Round */
+        <div className="flex-1">
+          <p className="text-center text-xs font-black uppercase tracking-widest opacity-40 mb-6">
+            Drag to order • Best at the top
+          </p>
+          <RankingRound
+            key={currentGroup.map(idx => movies[idx].id).join('|')}
+            movies={currentGroup.map(idx => movies[idx])}
+            onSubmit={handleRankSubmit}
+            disabled={isExiting}
+            isExiting={isExiting}
+          />
+        </div>
+      ) : !activePair || !m1 || !m2 ? (
+        /* Placement: nothing left */
+        <div className="flex-1 flex items-center justify-center">
+          <div className="bg-white border-4 border-bauhaus-black p-10 shadow-hard-lg text-center max-w-xl">
+            <Crosshair size={40} className="mx-auto mb-4 text-bauhaus-blue" />
+            <h3 className="text-2xl font-black uppercase tracking-tighter mb-2">
+              {unplacedCount > 0 ? 'Nothing To Compare Against' : 'Everything Is Placed'}
+            </h3>
+            <p className="text-sm font-bold text-gray-500 uppercase tracking-wide">
+              {unplacedCount > 0
+                ? 'Vote a few 1v1 rounds first so new films have reference points.'
+                : 'Every film has been voted on. New imports will show up here.'}
+            </p>
+            {lastPlaced && (
+              <p className="mt-6 text-xs font-black uppercase tracking-widest text-bauhaus-blue">
+                Last placed: {lastPlaced.name} at #{lastPlaced.rank} of {lastPlaced.total}
+              </p>
+            )}
+          </div>
+        </div>
+      ) : (
+      <>
+      {/* Placement Progress */}
+      {arenaMode === 'PLACE' && placement && (
+        <div className="flex flex-wrap justify-between items-center gap-2 mb-10 -mt-4 px-4 py-2 border-2 border-bauhaus-black bg-bauhaus-yellow text-xs font-black uppercase tracking-widest">
+          <span>
+            Placing {m1.name} • Vote {placement.votes + 1} of ~{estimatePlacementVotes(placement.ladder.length)} • {unplacedCount} unplaced
+          </span>
+          {lastPlaced && (
+            <span className="opacity-60">Last: {lastPlaced.name} → #{lastPlaced.rank} of {lastPlaced.total} in {lastPlaced.votes} votes</span>
+          )}
+        </div>
+      )}
+
+      {/* Rematch Record */}
+      {rematchSummary && (
+        <div className={`flex justify-center mb-10 -mt-4 transition-opacity duration-200 ${isExiting ? 'opacity-0' : 'opacity-100'}`}>
+          <span className="px-4 py-1 border-2 border-bauhaus-black bg-white text-xs font-black uppercase tracking-widest shadow-hard-sm">
+            {rematchSummary}
+          </span>
+        </div>
+      )}
+
       {/* Arena Grid */}
       <div className="flex-1 relative">
         {/* VS Badge - Geometric Centerpiece */}
@@ -339,6 +799,7 @@ const VotingArena: React.FC<VotingArenaProps> = ({ movies, onUpdateMovies, onFin
         {/* Keyboard Hints */}
         <div className={`absolute top-0 left-0 w-full flex justify-between pointer-events-none px-4 -mt-8 opacity-40 text-xs font-black uppercase tracking-widest hidden md:flex transition-opacity duration-200 ${voteResult ? 'opacity-0' : 'opacity-40'}`}>
              <span>[←] Vote Left</span>
+             <span>[↑] Too Close • [⇧] Overwhelming • [Alt] Slight</span>
              <span>Vote Right [→]</span>
         </div>
 
@@ -352,13 +813,18 @@ const VotingArena: React.FC<VotingArenaProps> = ({ movies, onUpdateMovies, onFin
             >
                 <MovieCard 
                   movie={m1} 
-                  onClick={() => handleVote(currentPair[0], currentPair[1])} 
+                  onClick={(strength) => handleVote(activePair[0], activePair[1], 'WIN', strength)} 
                   aiData={aiAnalysis?.movie1}
-                  feedback={
-                    voteResult?.winnerId === m1.id ? { type: 'WIN', diff: voteResult.winnerDiff } :
-                    voteResult?.loserId === m1.id ? { type: 'LOSS', diff: voteResult.loserDiff } : null
-                  }
+                  feedback={getFeedback(m1.id)}
                 />
+                <button
+                  onClick={() => handleForget(activePair[0])}
+                  disabled={!!voteResult || isExiting}
+                  className="mt-3 w-full flex items-center justify-center gap-1 text-[10px] font-black uppercase tracking-widest text-gray-400 hover:text-bauhaus-red disabled:opacity-50"
+                  title="Take it out of the arena until you've rewatched it"
+                >
+                  <EyeOff size={12} /> Don't remember this one
+                </button>
             </div>
             
             {/* Mobile VS Badge */}
@@ -376,13 +842,18 @@ const VotingArena: React.FC<VotingArenaProps> = ({ movies, onUpdateMovies, onFin
             >
                 <MovieCard 
                   movie={m2} 
-                  onClick={() => handleVote(currentPair[1], currentPair[0])} 
+                  onClick={(strength) => handleVote(activePair[1], activePair[0], 'WIN', strength)} 
                   aiData={aiAnalysis?.movie2}
-                  feedback={
-                    voteResult?.winnerId === m2.id ? { type: 'WIN', diff: voteResult.winnerDiff } :
-                    voteResult?.loserId === m2.id ? { type: 'LOSS', diff: voteResult.loserDiff } : null
-                  }
+                  feedback={getFeedback(m2.id)}
                 />
+                <button
+                  onClick={() => handleForget(activePair[1])}
+                  disabled={!!voteResult || isExiting}
+                  className="mt-3 w-full flex items-center justify-center gap-1 text-[10px] font-black uppercase tracking-widest text-gray-400 hover:text-bauhaus-red disabled:opacity-50"
+                  title="Take it out of the arena until you've rewatched it"
+                >
+                  <EyeOff size={12} /> Don't remember this one
+                </button>
             </div>
         </div>
       </div>
@@ -416,6 +887,36 @@ const VotingArena: React.FC<VotingArenaProps> = ({ movies, onUpdateMovies, onFin
           </Button>
         )}
       </div>
+      </>
+      )}
+
+      {/* Goal Reached */}
+      {goalReached && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-bauhaus-black/60 backdrop-blur-sm animate-fade-in">
+          <div className="bg-white max-w-md w-full border-4 border-bauhaus-black shadow-hard-xl p-8 text-center">
+            <Flag size={40} className="mx-auto mb-4 text-bauhaus-red" />
+            <h3 className="text-3xl font-black uppercase tracking-tighter mb-2">Top {convergence.topN} Is Stable</h3>
+            <p className="text-sm font-bold text-gray-500 uppercase tracking-wide mb-8">
+              It held its order over the last votes and every film in it is well measured. You can stop here.
+            </p>
+            <div className="flex flex-col sm:flex-row gap-3 justify-center">
+              <Button onClick={() => setGoalDismissed(true)} variant="outline">Keep Voting</Button>
+              <Button onClick={onFinish} variant="primary" className="flex items-center justify-center gap-2">
+                <BarChart2 size={18} /> See Rankings
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {showSessionPicker && (
+        <SessionPicker
+          movies={movies}
+          current={session?.filter || ALL_FILMS}
+          onStart={handleStartSession}
+          onClose={() => setShowSessionPicker(false)}
+        />
+      )}
 
         {/* Mobile Keyboard Hint */}
         <div className="md:hidden text-center mt-6 opacity-50">
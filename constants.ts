@@ -2,8 +2,24 @@
 export const INITIAL_ELO = 1200;
 // K_FACTOR is now dynamic in eloCalculator.ts
 
+// Glicko-2 starting state for a film nobody has voted on yet
+export const INITIAL_RD = 350;
+export const INITIAL_VOLATILITY = 0.06;
+
+// Rating model used by libraries that haven't picked one
+export const DEFAULT_RATING_ENGINE = 'elo';
+
+// Pair selection used by libraries that haven't picked one
+export const DEFAULT_MATCHMAKING = 'information';
+export const DEFAULT_PAIR_COOLDOWN = 25;
+
 // Storage
 export const STORAGE_KEY = 'filmelo_data_v1';
+export const SETTINGS_STORAGE_KEY = 'filmelo_settings_v1';
+export const MATCH_LOG_STORAGE_KEY = 'filmelo_match_log_v1';
+export const TOURNAMENTS_STORAGE_KEY = 'filmelo_tournaments_v1';
+export const DEFINITIVE_LIST_STORAGE_KEY = 'filmelo_definitive_list_v1';
+export const IMPORT_REPORTS_STORAGE_KEY = 'filmelo_import_reports_v1';
 
 // Gemini Models
 export const GEMINI_FLASH_MODEL = 'gemini-2.5-flash';
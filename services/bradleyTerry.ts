@@ -0,0 +1,75 @@
+import { Movie, MatchEvent } from '../types';
+import { INITIAL_ELO } from '../constants';
+
+// Fit configuration
+const PRIOR_GAMES = 1;       // Virtual win + loss vs. an average film; keeps unbeaten films finite
+const MAX_ITERATIONS = 200;
+const TOLERANCE = 1e-6;      // Max relative change in any strength before we stop
+
+/**
+ * Fits a Bradley–Terry model to every recorded match at once using the
+ * minorization–maximization algorithm (Hunter, 2004). Unlike online Elo, the
+ * result does not depend on the order votes were cast in.
+ * Draws count as half a win for each side.
+ * Returns strengths on the Elo scale (400 * log10, centered on INITIAL_ELO), keyed by film id.
+ */
+export const fitBradleyTerry = (movies: Movie[], log: MatchEvent[]): Map<string, number> => {
+  const index = new Map<string, number>();
+  movies.forEach((m, i) => index.set(m.id, i));
+  const n = movies.length;
+
+  // 1. Aggregate the log into scores and per-pair game counts
+  const scores = new Array<number>(n).fill(0);
+  const pairGames = new Map<number, Map<number, number>>();
+  const addGame = (i: number, j: number) => {
+    if (!pairGames.has(i)) pairGames.set(i, new Map());
+    const row = pairGames.get(i)!;
+    row.set(j, (row.get(j) || 0) + 1);
+  };
+
+  log.forEach(event => {
+    const i = index.get(event.winnerId);
+    const j = index.get(event.loserId);
+    if (i === undefined || j === undefined || i === j) return;
+    if (event.outcome === 'DRAW') {
+      scores[i] += 0.5;
+      scores[j] += 0.5;
+    } else {
+      scores[i] += 1;
+    }
+    addGame(i, j);
+    addGame(j, i);
+  });
+
+  // 2. MM iterations. The prior is a virtual opponent of strength 1 (the average film).
+  let strengths = new Array<number>(n).fill(1);
+  for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
+    const next = new Array<number>(n);
+    let maxChange = 0;
+
+    for (let i = 0; i < n; i++) {
+      let denom = (2 * PRIOR_GAMES) / (strengths[i] + 1);
+      pairGames.get(i)?.forEach((games, j) => {
+        denom += games / (strengths[i] + strengths[j]);
+      });
+      next[i] = (scores[i] + PRIOR_GAMES) / denom;
+    }
+
+    // Normalize so the geometric mean stays at 1 (keeps the prior's anchor meaningful)
+    const logMean = next.reduce((sum, s) => sum + Math.log(s), 0) / (n || 1);
+    const scale = Math.exp(logMean);
+    for (let i = 0; i < n; i++) {
+      next[i] /= scale;
+      maxChange = Math.max(maxChange, Math.abs(next[i] - strengths[i]) / strengths[i]);
+    }
+
+    strengths = next;
+    if (maxChange < TOLERANCE) break;
+  }
+
+  const result = new Map<string, number>();
+  movies.forEach((m, i) => {
+    result.set(m.id, INITIAL_ELO + 400 * Math.log10(strengths[i]));
+  });
+  return result;
+};
@@ -0,0 +1,103 @@
+import { Movie, Tournament } from '../types';
+
+const WIDTH = 1080;
+const HEIGHT = 1350;
+
+const COLORS = {
+  red: '#D02020',
+  blue: '#1040C0',
+  yellow: '#F0C020',
+  black: '#121212',
+  white: '#FFFFFF',
+  paper: '#F0F0F0'
+};
+
+// Shrinks the font until the text fits the given width
+const fitText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number, startSize: number, weight = 900) => {
+  let size = startSize;
+  do {
+    ctx.font = `${weight} ${size}px Outfit, system-ui, sans-serif`;
+    size -= 4;
+  } while (ctx.measureText(text).width > maxWidth && size > 24);
+};
+
+/**
+ * Renders a shareable champion poster for a finished tournament as a PNG.
+ * Drawn by hand on a canvas so it needs no extra dependencies.
+ */
+export const renderChampionCard = (
+  tournament: Tournament,
+  placings: Movie[]
+): Promise<Blob | null> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = WIDTH;
+  canvas.height = HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.resolve(null);
+
+  const [champion, ...rest] = placings;
+
+  // Background + geometric decoration
+  ctx.fillStyle = COLORS.paper;
+  ctx.fillRect(0, 0, WIDTH, HEIGHT);
+  ctx.fillStyle = COLORS.yellow;
+  ctx.beginPath();
+  ctx.arc(WIDTH - 140, 180, 260, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.fillStyle = COLORS.red;
+  ctx.fillRect(0, 0, 60, HEIGHT);
+  ctx.fillStyle = COLORS.blue;
+  ctx.beginPath();
+  ctx.moveTo(WIDTH, HEIGHT);
+  ctx.lineTo(WIDTH - 320, HEIGHT);
+  ctx.lineTo(WIDTH, HEIGHT - 320);
+  ctx.fill();
+
+  ctx.fillStyle = COLORS.black;
+  ctx.textBaseline = 'top';
+
+  // Header
+  ctx.font = `900 36px Outfit, system-ui, sans-serif`;
+  ctx.fillText('FILMELO', 120, 100);
+  fitText(ctx, tournament.name.toUpperCase(), WIDTH - 240, 44, 700);
+  ctx.fillText(tournament.name.toUpperCase(), 120, 150);
+
+  // Champion block
+  ctx.fillStyle = COLORS.black;
+  ctx.fillRect(120, 300, WIDTH - 240, 420);
+  ctx.fillStyle = COLORS.yellow;
+  ctx.font = `900 40px Outfit, system-ui, sans-serif`;
+  ctx.fillText('CHAMPION', 160, 340);
+
+  if (champion) {
+    ctx.fillStyle = COLORS.white;
+    fitText(ctx, champion.name.toUpperCase(), WIDTH - 320, 110);
+    ctx.fillText(champion.name.toUpperCase(), 160, 430);
+    ctx.font = `700 48px Outfit, system-ui, sans-serif`;
+    ctx.fillStyle = COLORS.paper;
+    ctx.fillText(champion.year, 160, 600);
+  }
+
+  // Runners-up
+  ctx.fillStyle = COLORS.black;
+  rest.slice(0, 4).forEach((movie, i) => {
+    const y = 790 + i * 110;
+    ctx.fillStyle = i === 0 ? COLORS.red : COLORS.black;
+    ctx.fillRect(120, y, 80, 80);
+    ctx.fillStyle = COLORS.white;
+    ctx.font = `900 44px Outfit, system-ui, sans-serif`;
+    ctx.fillText(String(i + 2), 145, y + 16);
+    ctx.fillStyle = COLORS.black;
+    fitText(ctx, `${movie.name.toUpperCase()} (${movie.year})`, WIDTH - 420, 44, 800);
+    ctx.fillText(`${movie.name.toUpperCase()} (${movie.year})`, 230, y + 18);
+  });
+
+  ctx.font = `700 24px Outfit, system-ui, sans-serif`;
+  ctx.fillText(
+    `${tournament.format === 'SINGLE_ELIMINATION' ? 'SINGLE ELIMINATION' : 'ROUND ROBIN'} • ${tournament.entrantIds.length} FILMS`,
+    120,
+    HEIGHT - 100
+  );
+
+  return new Promise(resolve => canvas.toBlob(resolve, 'image/png'));
+};
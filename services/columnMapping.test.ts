@@ -0,0 +1,14 @@
+import { describe, it, expect } from 'vitest';
+import { parseRawTable } from './columnMapping';
+
+describe('parseRawTable', () => {
+  it('flattens a wrapped JSON array into a table', () => {
+    const table = parseRawTable('{"items":[{"movie":{"title":"Heat","year":1995},"rating":9}]}', 'trakt.json');
+    expect(table).toEqual({ headers: ['movie.title', 'movie.year', 'rating'], rows: [['Heat', '1995', '9']] });
+  });
+
+  it('returns null for JSON that doesn\'t parse', () => {
+    expect(parseRawTable('{"items": [', 'trakt.json')).toBeNull();
+    expect(parseRawTable('[not json', 'notes.txt')).toBeNull();
+  });
+});
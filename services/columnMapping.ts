@@ -0,0 +1,254 @@
+import { ImportReport } from '../types';
+import { parseCSVRaw, ImportedFilm } from './importService';
+import { createImportReport, addImportIssue } from './importReport';
+import { assignFilmIds } from './filmIdentity';
+
+/**
+ * A file from any source, as columns and rows of text. JSON arrays are
+ * flattened into dotted columns ("movie.ids.tmdb").
+ */
+export interface RawTable {
+  headers: string[];
+  rows: string[][];
+}
+
+// Which source column feeds each film field ('' = not mapped)
+export interface ColumnMapping {
+  title: string;
+  year: string; // A year, or a date the year is read from
+  rating: string;
+  ratingScale: number; // Top of the source's scale; converted to 0.5–5 stars
+  uri: string;
+  tmdbId: string; // Gives films the same identity as in other imports
+}
+
+export interface ImportPreset {
+  id: string;
+  label: string;
+  mapping: ColumnMapping;
+  // Whether a file's columns look like this source
+  matches: (headers: string[]) => boolean;
+  // Rows to drop, e.g. TV episodes in an IMDb export
+  excludeRow?: (row: Record<string, string>) => boolean;
+}
+
+export const RATING_SCALES = [5, 10, 100];
+
+export const EMPTY_MAPPING: ColumnMapping = { title: '', year: '', rating: '', ratingScale: 5, uri: '', tmdbId: '' };
+
+const hasAll = (headers: string[], wanted: string[]) => {
+  const lower = headers.map(h => h.toLowerCase());
+  return wanted.every(w => lower.includes(w.toLowerCase()));
+};
+
+export const IMPORT_PRESETS: ImportPreset[] = [
+  {
+    id: 'imdb',
+    label: 'IMDb Ratings',
+    mapping: { title: 'Title', year: 'Year', rating: 'Your Rating', ratingScale: 10, uri: 'URL', tmdbId: '' },
+    matches: headers => hasAll(headers, ['Const', 'Title', 'Your Rating']),
+    excludeRow: row => /episode|series/i.test(row['Title Type'] || '')
+  },
+  {
+    id: 'trakt-json',
+    label: 'Trakt JSON',
+    mapping: { title: 'movie.title', year: 'movie.year', rating: 'rating', ratingScale: 10, uri: '', tmdbId: 'movie.ids.tmdb' },
+    matches: headers => hasAll(headers, ['movie.title', 'movie.ids.trakt'])
+  },
+  {
+    id: 'trakt-csv',
+    label: 'Trakt CSV',
+    mapping: { title: 'title', year: 'year', rating: 'rating', ratingScale: 10, uri: '', tmdbId: 'tmdb_id' },
+    matches: headers => hasAll(headers, ['title', 'year', 'trakt_id']) || hasAll(headers, ['title', 'year', 'tmdb_id'])
+  }
+];
+
+// Flattens nested objects into dotted keys
+const flatten = (value: unknown, prefix: string, out: Record<string, string>) => {
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    Object.entries(value).forEach(([key, child]) => flatten(child, prefix ? `${prefix}.${key}` : key, out));
+  } else if (value !== null && value !== undefined && prefix) {
+    out[prefix] = Array.isArray(value) ? value.join(', ') : String(value);
+  }
+  return out;
+};
+
+const parseJSONTable = (text: string): RawTable | null => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return null; // Not JSON after all
+  }
+  // Either an array of items, or an object wrapping one
+  const items: unknown[] | undefined = Array.isArray(data)
+    ? data
+    : data !== null && typeof data === 'object' ? Object.values(data).find(Array.isArray) : undefined;
+  if (!items || items.length === 0) return null;
+
+  const records = items.map(item => flatten(item, '', {}));
+  const headers: string[] = [];
+  records.forEach(r => Object.keys(r).forEach(key => { if (!headers.includes(key)) headers.push(key); }));
+  return { headers, rows: records.map(r => headers.map(h => r[h] ?? '')) };
+};
+
+/**
+ * Reads a CSV or JSON export into a table. Returns null if there's nothing in it
+ * or the JSON doesn't parse.
+ */
+export const parseRawTable = (text: string, fileName: string): RawTable | null => {
+  const trimmed = text.replace(/^\uFEFF/, '').trim();
+  if (fileName.toLowerCase().endsWith('.json') || trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    return parseJSONTable(trimmed);
+  }
+
+  const rows = parseCSVRaw(trimmed).filter(r => r.length > 0 && (r.length > 1 || r[0] !== ''));
+  if (rows.length < 2) return null;
+  return { headers: rows[0].map(h => h.trim()), rows: rows.slice(1) };
+};
+
+export const detectPreset = (headers: string[]): ImportPreset | undefined => {
+  return IMPORT_PRESETS.find(p => p.matches(headers));
+};
+
+/**
+ * A preset's mapping pointed at this file's actual column names (matched
+ * case-insensitively; columns the file lacks are left unmapped).
+ */
+export const resolvePresetMapping = (table: RawTable, preset: ImportPreset): ColumnMapping => {
+  const find = (name: string) => (name ? table.headers.find(h => h.toLowerCase() === name.toLowerCase()) || '' : '');
+  const { mapping } = preset;
+  return {
+    title: find(mapping.title),
+    year: find(mapping.year),
+    rating: find(mapping.rating),
+    ratingScale: mapping.ratingScale,
+    uri: find(mapping.uri),
+    tmdbId: find(mapping.tmdbId)
+  };
+};
+
+// Common column names, most specific first
+const GUESSES: Record<keyof Omit<ColumnMapping, 'ratingScale'>, RegExp[]> = {
+  title: [/^(title|name|film|movie)$/i, /title|name/i],
+  year: [/^year$/i, /year/i, /release/i],
+  rating: [/^(your rating|my rating|rating)$/i, /rating|score|stars/i],
+  uri: [/uri|url|link/i],
+  tmdbId: [/^tmdb(_| )?id$/i, /tmdb/i]
+};
+
+/**
+ * A starting mapping for an unknown file: a preset if one matches, else a
+ * guess from the column names.
+ */
+export const guessMapping = (table: RawTable): ColumnMapping => {
+  const preset = detectPreset(table.headers);
+  if (preset) return resolvePresetMapping(table, preset);
+
+  const pick = (patterns: RegExp[], taken: string[]) => {
+    for (const pattern of patterns) {
+      const found = table.headers.find(h => pattern.test(h) && !taken.includes(h));
+      if (found) return found;
+    }
+    return '';
+  };
+
+  const mapping = { ...EMPTY_MAPPING };
+  const taken: string[] = [];
+  (['title', 'year', 'rating', 'uri', 'tmdbId'] as const).forEach(field => {
+    mapping[field] = pick(GUESSES[field], taken);
+    if (mapping[field]) taken.push(mapping[field]);
+  });
+
+  // Guess the scale from the highest rating in the file
+  if (mapping.rating) {
+    const column = table.headers.indexOf(mapping.rating);
+    const max = Math.max(0, ...table.rows.map(r => parseFloat(r[column])).filter(v => !isNaN(v)));
+    mapping.ratingScale = RATING_SCALES.find(scale => max <= scale) || RATING_SCALES[RATING_SCALES.length - 1];
+  }
+  return mapping;
+};
+
+/**
+ * A rating on any scale as 0.5–5 stars, to the nearest half star.
+ */
+export const toStars = (value: number, scale: number): number => {
+  const stars = Math.round((value / scale) * 10) / 2;
+  return Math.min(5, Math.max(0.5, stars));
+};
+
+const extractYear = (value: string): string => {
+  const match = value.match(/\b(18|19|20)\d{2}\b/);
+  return match ? match[0] : '';
+};
+
+/**
+ * Turns mapped rows into films, deduplicated by title + year (later rows win),
+ * with a report of the rows that couldn't be taken as-is.
+ */
+export const applyColumnMapping = (
+  table: RawTable,
+  mapping: ColumnMapping,
+  fileName: string,
+  preset?: ImportPreset
+): { films: ImportedFilm[]; report: ImportReport } => {
+  const report = createImportReport(preset?.label || 'Mapped CSV');
+  report.files.push(fileName);
+
+  const column = (header: string) => (header ? table.headers.indexOf(header) : -1);
+  const titleIndex = column(mapping.title);
+  if (titleIndex === -1) return { films: [], report };
+  const yearIndex = column(mapping.year);
+  const ratingIndex = column(mapping.rating);
+  const uriIndex = column(mapping.uri);
+  const tmdbIdIndex = column(mapping.tmdbId);
+
+  const films = new Map<string, Omit<ImportedFilm, 'id'>>();
+
+  table.rows.forEach((row, r) => {
+    // Header is row 1
+    const at = { file: fileName, row: r + 2, data: row };
+    if (preset?.excludeRow) {
+      const record = Object.fromEntries(table.headers.map((h, i) => [h, row[i] ?? '']));
+      if (preset.excludeRow(record)) {
+        report.skipped++; // Not a film (e.g. a TV episode); expected, so not an issue
+        return;
+      }
+    }
+
+    const name = row[titleIndex]?.trim();
+    if (!name) {
+      addImportIssue(report, { ...at, kind: 'MISSING_TITLE', action: 'SKIPPED', detail: `${mapping.title} is empty` });
+      return;
+    }
+    const year = yearIndex > -1 ? extractYear(row[yearIndex] || '') : '';
+    if (yearIndex > -1 && !year) {
+      addImportIssue(report, { ...at, kind: 'MISSING_YEAR', action: 'KEPT', detail: `No year in "${row[yearIndex] || ''}"; imported without one` });
+    }
+    const key = `${name.toLowerCase()}-${year}`;
+
+    const ratingText = ratingIndex > -1 ? row[ratingIndex]?.trim() : '';
+    const ratingValue = ratingText ? parseFloat(ratingText) : NaN;
+    const ratingOk = !isNaN(ratingValue) && ratingValue > 0 && ratingValue <= mapping.ratingScale;
+    if (ratingText && !ratingOk) {
+      addImportIssue(report, { ...at, kind: 'BAD_RATING', action: 'KEPT', detail: `Rating "${ratingText}" isn't on a 1–${mapping.ratingScale} scale; imported unrated` });
+    }
+
+    const tmdbId = tmdbIdIndex > -1 ? row[tmdbIdIndex]?.trim() : '';
+    const existing = films.get(key);
+    if (existing) {
+      addImportIssue(report, { ...at, kind: 'DUPLICATE', action: 'MERGED', detail: `"${name}" (${year || 'no year'}) appears more than once` });
+    }
+
+    films.set(key, {
+      name,
+      year,
+      rating: ratingOk ? toStars(ratingValue, mapping.ratingScale) : existing?.rating,
+      uri: (uriIndex > -1 ? row[uriIndex]?.trim() : '') || existing?.uri,
+      tmdbId: tmdbId || existing?.tmdbId
+    });
+  });
+
+  report.imported = films.size;
+  return { films: assignFilmIds(Array.from(films.values())), report };
+};
@@ -0,0 +1,17 @@
+import { describe, it, expect } from 'vitest';
+import { assessConvergence } from './convergence';
+import { makeMovie } from './testFixtures';
+
+describe('assessConvergence', () => {
+  it('measures only the films the arena can still vote on', () => {
+    const movies = [
+      makeMovie({ id: 'hidden', elo: 1600, rd: 350, status: 'HIDDEN' }),
+      makeMovie({ id: 'excluded', elo: 1500, rd: 350, status: 'EXCLUDED' }),
+      makeMovie({ id: 'a', elo: 1400, rd: 60 }),
+      makeMovie({ id: 'b', elo: 1300, rd: 80 })
+    ];
+    const report = assessConvergence(movies, [], 10);
+    expect(report.topN).toBe(2);
+    expect(report.meanRd).toBe(70);
+  });
+});
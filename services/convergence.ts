@@ -0,0 +1,86 @@
+import { Movie, MatchEvent } from '../types';
+import { matchesForDeviation } from './glickoCalculator';
+import { isInArena } from './filmStatus';
+
+// Votes looked back over when checking whether the top N still moves
+export const STABILITY_WINDOW = 50;
+// Rating deviation at which a film counts as well measured (the "HIGH" data quality band)
+export const TARGET_RD = 100;
+// Share of the top N that has to hold its place for the ranking to count as stable
+export const STABLE_SHARE = 0.9;
+
+export const CONVERGENCE_TOP_N_OPTIONS = [10, 25, 50, 100];
+
+export interface ConvergenceReport {
+  topN: number;
+  stability: number;  // 0–1: share of the top N that held its rank over the window
+  confidence: number; // 0–1: how close the top N's average deviation is to TARGET_RD
+  progress: number;   // 0–1: the two combined, for the meter
+  meanRd: number;
+  votesRemaining: number;
+  isStable: boolean;
+}
+
+/**
+ * A film's Elo just before `timestamp`, read back from its own history.
+ */
+const eloBefore = (movie: Movie, timestamp: number): number => {
+  let elo = movie.initialElo;
+  for (const record of movie.history || []) {
+    if (record.timestamp >= timestamp) break;
+    elo = record.newElo;
+  }
+  return elo;
+};
+
+const rankMap = (ranked: { id: string }[]): Map<string, number> => {
+  return new Map(ranked.map((m, i) => [m.id, i]));
+};
+
+/**
+ * How settled the top N is: rank stability over the last STABILITY_WINDOW votes
+ * plus the average uncertainty of the films in it, with a rough count of the
+ * votes still needed. Only films in the arena count: votes can't settle the rest.
+ */
+export const assessConvergence = (movies: Movie[], log: MatchEvent[], topN: number): ConvergenceReport => {
+  const arena = movies.filter(isInArena);
+  const n = Math.min(topN, arena.length);
+  const ranked = [...arena].sort((a, b) => b.elo - a.elo);
+  const top = ranked.slice(0, n);
+
+  // Rank each film had before the window started
+  const windowStart = log.length > STABILITY_WINDOW ? log[log.length - STABILITY_WINDOW].timestamp : -Infinity;
+  const then = rankMap(
+    arena
+      .map(m => ({ id: m.id, elo: windowStart === -Infinity ? m.initialElo : eloBefore(m, windowStart) }))
+      .sort((a, b) => b.elo - a.elo)
+  );
+
+  // A film "held" if it moved no more than a slot or so (more for big lists)
+  const tolerance = Math.max(1, Math.round(n * 0.04));
+  const held = top.filter((m, rank) => Math.abs((then.get(m.id) ?? Infinity) - rank) <= tolerance).length;
+  const stability = n > 0 && log.length > 0 ? held / n : 0;
+
+  const meanRd = n > 0 ? top.reduce((sum, m) => sum + m.rd, 0) / n : 0;
+  const targetMatches = matchesForDeviation(TARGET_RD);
+  const confidence = n > 0
+    ? Math.min(1, top.reduce((sum, m) => sum + Math.min(1, matchesForDeviation(m.rd) / targetMatches), 0) / n)
+    : 0;
+
+  const isStable = n > 0 && stability >= STABLE_SHARE && meanRd <= TARGET_RD;
+
+  // Each vote between two top films measures both of them
+  const matchDeficit = top.reduce((sum, m) => sum + Math.max(0, targetMatches - matchesForDeviation(m.rd)), 0);
+  const stabilityDeficit = Math.max(0, STABLE_SHARE - stability) * STABILITY_WINDOW;
+  const votesRemaining = isStable ? 0 : Math.max(1, Math.ceil(Math.max(matchDeficit / 2, stabilityDeficit)));
+
+  return {
+    topN: n,
+    stability,
+    confidence,
+    progress: (stability + confidence) / 2,
+    meanRd,
+    votesRemaining,
+    isStable
+  };
+};
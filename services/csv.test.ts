@@ -0,0 +1,12 @@
+import { describe, it, expect } from 'vitest';
+import { csvField } from './csv';
+
+describe('csvField', () => {
+  it('quotes quotes, commas and line breaks', () => {
+    expect(csvField('Heat')).toBe('Heat');
+    expect(csvField(undefined)).toBe('');
+    expect(csvField('Crouching Tiger, Hidden Dragon')).toBe('"Crouching Tiger, Hidden Dragon"');
+    expect(csvField('The "Burbs')).toBe('"The ""Burbs"');
+    expect(csvField('line\rbreak')).toBe('"line\rbreak"');
+  });
+});
@@ -0,0 +1,7 @@
+/**
+ * One CSV cell, quoted when it holds a quote, a comma or a line break.
+ */
+export const csvField = (value: string | number | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
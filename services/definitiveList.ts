@@ -0,0 +1,115 @@
+import { Movie, DefinitiveList } from '../types';
+import { PairHistory, getPairRecord } from './pairHistory';
+import { isOnLeaderboard } from './filmStatus';
+
+export const DEFINITIVE_SIZES = [5, 10, 25, 50, 100];
+
+export interface DefinitiveComparison {
+  candidateId: string; // The film being inserted
+  referenceId: string; // The already-placed film it's compared against
+}
+
+const createId = () => `definitive-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Starts a list from the leaderboard's current top `size` by Elo.
+ * Films are inserted best first, so each one usually lands near the bottom.
+ */
+export const createDefinitiveList = (movies: Movie[], size: number): DefinitiveList => {
+  const ids = movies
+    .filter(isOnLeaderboard)
+    .sort((a, b) => b.elo - a.elo)
+    .slice(0, size)
+    .map(m => m.id);
+
+  return {
+    id: createId(),
+    size: ids.length,
+    sortedIds: ids.slice(0, 1),
+    pendingIds: ids.slice(1),
+    low: 0,
+    high: Math.min(1, ids.length),
+    asked: 0,
+    reused: 0,
+    startedAt: Date.now(),
+    lockedAt: ids.length < 2 ? Date.now() : undefined
+  };
+};
+
+/**
+ * The comparison the binary search needs next, or null once the list is locked.
+ */
+export const getDefinitiveComparison = (list: DefinitiveList): DefinitiveComparison | null => {
+  if (list.lockedAt || list.pendingIds.length === 0) return null;
+  const mid = Math.floor((list.low + list.high) / 2);
+  return { candidateId: list.pendingIds[0], referenceId: list.sortedIds[mid] };
+};
+
+/**
+ * Narrows the search for the current film. Once the window closes the film is
+ * inserted and the next one starts; the list locks when nothing is left.
+ */
+export const recordDefinitiveResult = (list: DefinitiveList, candidateWon: boolean, reused = false): DefinitiveList => {
+  if (!getDefinitiveComparison(list)) return list;
+  const mid = Math.floor((list.low + list.high) / 2);
+  const low = candidateWon ? list.low : mid + 1;
+  const high = candidateWon ? mid : list.high;
+  const counts = reused ? { reused: list.reused + 1 } : { asked: list.asked + 1 };
+
+  if (low < high) return { ...list, ...counts, low, high };
+
+  const sortedIds = [...list.sortedIds];
+  sortedIds.splice(low, 0, list.pendingIds[0]);
+  const pendingIds = list.pendingIds.slice(1);
+
+  return {
+    ...list,
+    ...counts,
+    sortedIds,
+    pendingIds,
+    low: 0,
+    high: sortedIds.length,
+    lockedAt: pendingIds.length === 0 ? Date.now() : undefined
+  };
+};
+
+/**
+ * Who won between two films going by earlier votes: whoever leads the head-to-head.
+ * Level records (or none) return null and get asked.
+ */
+export const getKnownWinner = (history: PairHistory, idA: string, idB: string): string | null => {
+  const record = getPairRecord(history, idA, idB);
+  if (!record) return null;
+  const winsA = record.wins[idA] || 0;
+  const winsB = record.wins[idB] || 0;
+  if (winsA === winsB) return null;
+  return winsA > winsB ? idA : idB;
+};
+
+/**
+ * Answers every comparison it can from the match log until one needs the user.
+ */
+export const resolveKnownResults = (list: DefinitiveList, history: PairHistory): DefinitiveList => {
+  let current = list;
+  let comparison = getDefinitiveComparison(current);
+  while (comparison) {
+    const winner = getKnownWinner(history, comparison.candidateId, comparison.referenceId);
+    if (!winner) break;
+    current = recordDefinitiveResult(current, winner === comparison.candidateId, true);
+    comparison = getDefinitiveComparison(current);
+  }
+  return current;
+};
+
+/**
+ * Worst-case comparisons left: log2 of the window for the current film,
+ * then a full binary search for each film after it.
+ */
+export const estimateDefinitiveComparisons = (list: DefinitiveList): number => {
+  if (list.lockedAt) return 0;
+  let total = Math.ceil(Math.log2(list.high - list.low + 1));
+  for (let i = 1; i < list.pendingIds.length; i++) {
+    total += Math.ceil(Math.log2(list.sortedIds.length + i + 1));
+  }
+  return total;
+};
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { Movie } from '../types';
+import { DEFAULT_SETTINGS, LibraryData } from './libraryStorage';
+import { getRatingEngine } from './ratingEngine';
+import { createMatchEvent } from './matchLog';
+import { makeMovie } from './testFixtures';
+import { createTournament, getNextTournamentMatch, recordTournamentResult } from './tournament';
+import { findDuplicates, mergeDuplicateFilms } from './duplicates';
+
+const engine = getRatingEngine('elo');
+
+const library = (movies: Movie[], overrides: Partial<LibraryData> = {}): LibraryData => ({
+  movies,
+  settings: DEFAULT_SETTINGS,
+  matchLog: [],
+  tournaments: [],
+  definitiveList: null,
+  importReports: [],
+  ...overrides
+});
+
+describe('findDuplicates', () => {
+  it('pairs typo titles but not numbered sequels', () => {
+    const pairs = findDuplicates([
+      makeMovie({ id: '1', name: 'Se7en', year: '1995' }),
+      makeMovie({ id: '2', name: 'Seven', year: '1995' }),
+      makeMovie({ id: '3', name: 'Saw II', year: '2005' }),
+      makeMovie({ id: '4', name: 'Saw III', year: '2006' })
+    ]);
+    expect(pairs.map(p => [p.a.id, p.b.id])).toEqual([['1', '2']]);
+  });
+});
+
+describe('mergeDuplicateFilms', () => {
+  it('moves votes to the kept film and drops votes between the two', () => {
+    const matchLog = [createMatchEvent('a', 'b', 'WIN'), createMatchEvent('b', 'c', 'WIN')];
+    const merged = mergeDuplicateFilms(
+      library([
+        makeMovie({ id: 'a', name: 'Seven', year: '1995' }),
+        makeMovie({ id: 'b', name: 'Se7en', year: '1995' }),
+        makeMovie({ id: 'c', name: 'Heat', year: '1995' })
+      ], { matchLog }),
+      'a', 'b', engine
+    );
+    expect(merged.movies.map(m => m.id)).toEqual(['a', 'c']);
+    expect(merged.matchLog.map(e => [e.winnerId, e.loserId])).toEqual([['a', 'c']]);
+    expect(merged.movies.find(m => m.id === 'a')).toMatchObject({ matches: 1, wins: 1 });
+  });
+
+  it('leaves no tournament with the kept film entered twice or drawn against itself', () => {
+    let tournament = createTournament('Cup', 'SINGLE_ELIMINATION', ['a', 'b', 'c', 'd'], 0);
+    tournament = recordTournamentResult(tournament, getNextTournamentMatch(tournament)!.id, 'a', 'e1', 1);
+    tournament = recordTournamentResult(tournament, getNextTournamentMatch(tournament)!.id, 'b', 'e2', 1);
+    const league = createTournament('League', 'ROUND_ROBIN', ['a', 'b', 'c'], 0);
+
+    const merged = mergeDuplicateFilms(
+      library([
+        makeMovie({ id: 'a', name: 'Seven', year: '1995' }),
+        makeMovie({ id: 'b', name: 'Se7en', year: '1995' }),
+        makeMovie({ id: 'c', name: 'Heat', year: '1995' }),
+        makeMovie({ id: 'd', name: 'Alien', year: '1979' })
+      ], {
+        tournaments: [tournament, league]
+      }),
+      'a', 'b', engine
+    );
+
+    merged.tournaments.forEach(t => {
+      expect(new Set(t.entrantIds).size).toBe(t.entrantIds.length);
+      expect(t.matches.some(m => m.aId !== null && m.aId === m.bId)).toBe(false);
+    });
+    expect(merged.tournaments[0]).toMatchObject({ championId: 'a' });
+    expect(merged.tournaments[1].matches).toHaveLength(1);
+  });
+});
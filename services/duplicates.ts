@@ -0,0 +1,186 @@
+import { Movie, DefinitiveList } from '../types';
+import type { RatingEngine } from './ratingEngine';
+import type { LibraryData } from './libraryStorage';
+import { pairKey } from './pairHistory';
+import { letterboxdKey, normalizeTitle, remapLibraryIds } from './filmIdentity';
+import { replayMatchLog } from './matchLog';
+import { dedupeTournament } from './tournament';
+
+// Why two films look like the same one, strongest first
+export type DuplicateReason = 'SAME_URI' | 'SAME_TMDB' | 'SAME_TITLE' | 'SIMILAR_TITLE';
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  SAME_URI: 'Same Letterboxd link',
+  SAME_TMDB: 'Same TMDB id',
+  SAME_TITLE: 'Same title',
+  SIMILAR_TITLE: 'Similar title'
+};
+
+export interface DuplicatePair {
+  key: string; // pairKey of the two ids
+  a: Movie;
+  b: Movie;
+  reasons: DuplicateReason[];
+  distance: number; // Edit distance between the normalized titles
+}
+
+const REASON_ORDER: DuplicateReason[] = ['SAME_URI', 'SAME_TMDB', 'SAME_TITLE', 'SIMILAR_TITLE'];
+
+/**
+ * Levenshtein distance, giving up (returning max + 1) once it's past `max`.
+ */
+export const editDistance = (a: string, b: string, max = Infinity): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Leading articles don't count: "The Thing" and "Thing" compare equal
+const comparableTitle = (name: string) => normalizeTitle(name).replace(/^(the|a|an)-/, '');
+
+// Typos allowed for a title this long; very short titles must match exactly
+const allowedDistance = (title: string) => (title.length <= 3 ? 0 : title.length < 12 ? 1 : 2);
+
+// "Saw II" vs "Saw III": titles that differ only in a number are sequels, not typos
+const isSequelPair = (a: string, b: string): boolean => {
+  const tokensA = a.split('-');
+  const tokensB = b.split('-');
+  const differing = [...tokensA.filter(t => !tokensB.includes(t)), ...tokensB.filter(t => !tokensA.includes(t))];
+  return differing.length > 0 && differing.every(t => /^(\d+|[ivxlc]+)$/.test(t));
+};
+
+/**
+ * Pairs of films that are probably the same film: the same Letterboxd link or
+ * TMDB id, or titles that match after normalizing (or are a typo apart) with
+ * years at most one apart. Strongest matches first.
+ */
+export const findDuplicates = (movies: Movie[]): DuplicatePair[] => {
+  const pairs = new Map<string, DuplicatePair>();
+
+  const add = (a: Movie, b: Movie, reason: DuplicateReason, distance = 0) => {
+    const key = pairKey(a.id, b.id);
+    const existing = pairs.get(key);
+    if (existing) {
+      if (!existing.reasons.includes(reason)) existing.reasons.push(reason);
+      existing.distance = Math.min(existing.distance, distance);
+    } else {
+      pairs.set(key, { key, a, b, reasons: [reason], distance });
+    }
+  };
+
+  const addGroups = (keyOf: (m: Movie) => string | null | undefined, reason: DuplicateReason) => {
+    const groups = new Map<string, Movie[]>();
+    movies.forEach(m => {
+      const key = keyOf(m);
+      if (key) groups.set(key, [...(groups.get(key) || []), m]);
+    });
+    groups.forEach(group => {
+      for (let i = 0; i < group.length; i++) {
+        for (let j = i + 1; j < group.length; j++) add(group[i], group[j], reason);
+      }
+    });
+  };
+
+  addGroups(m => letterboxdKey(m.uri) || m.uri, 'SAME_URI');
+  addGroups(m => m.tmdbId, 'SAME_TMDB');
+
+  // Titles are only compared within a year of each other, which keeps this well short of every pair
+  const byYear = new Map<string, { movie: Movie; title: string }[]>();
+  movies.forEach(m => {
+    const year = m.year.trim();
+    byYear.set(year, [...(byYear.get(year) || []), { movie: m, title: comparableTitle(m.name) }]);
+  });
+
+  byYear.forEach((entries, year) => {
+    const nextYear = /^\d+$/.test(year) ? byYear.get(String(Number(year) + 1)) || [] : [];
+    entries.forEach((entry, i) => {
+      const candidates = [...entries.slice(i + 1), ...nextYear];
+      candidates.forEach(other => {
+        if (entry.title === other.title) {
+          add(entry.movie, other.movie, 'SAME_TITLE');
+          return;
+        }
+        const max = Math.min(allowedDistance(entry.title), allowedDistance(other.title));
+        if (max === 0 || isSequelPair(entry.title, other.title)) return;
+        const distance = editDistance(entry.title, other.title, max);
+        if (distance <= max) add(entry.movie, other.movie, 'SIMILAR_TITLE', distance);
+      });
+    });
+  });
+
+  const strength = (pair: DuplicatePair) => Math.min(...pair.reasons.map(r => REASON_ORDER.indexOf(r)));
+  return Array.from(pairs.values()).sort((x, y) => strength(x) - strength(y) || x.distance - y.distance);
+};
+
+// A definitive list can't hold a film twice; if the merge put one in twice, the current insertion restarts
+const dedupeDefinitiveList = (list: DefinitiveList): DefinitiveList => {
+  const sortedIds = list.sortedIds.filter((id, i) => list.sortedIds.indexOf(id) === i);
+  const pendingIds = list.pendingIds.filter((id, i) => list.pendingIds.indexOf(id) === i && !sortedIds.includes(id));
+  if (sortedIds.length === list.sortedIds.length && pendingIds.length === list.pendingIds.length) return list;
+  return {
+    ...list,
+    sortedIds,
+    pendingIds,
+    size: sortedIds.length + pendingIds.length,
+    low: 0,
+    high: sortedIds.length,
+    lockedAt: list.lockedAt ?? (pendingIds.length === 0 ? Date.now() : undefined)
+  };
+};
+
+const earliest = (a?: string, b?: string) => (a && b ? (a < b ? a : b) : a || b);
+const latest = (a?: string, b?: string) => (a && b ? (a > b ? a : b) : a || b);
+const larger = (a?: number, b?: number) => (a === undefined && b === undefined ? undefined : Math.max(a || 0, b || 0));
+const allYears = (a?: number[], b?: number[]) => (a || b ? Array.from(new Set([...(a || []), ...(b || [])])).sort((x, y) => x - y) : undefined);
+
+/**
+ * Folds `dropId` into `keepId`: the kept film fills its gaps (link, TMDB id,
+ * stars, diary dates) from the other, every vote involving the dropped film
+ * becomes a vote for the kept one, votes between the two are discarded, and
+ * every rating is rebuilt from the match log. Tournaments and the definitive
+ * list that had both films are cleaned up so the kept one appears once.
+ */
+export const mergeDuplicateFilms = (library: LibraryData, keepId: string, dropId: string, engine: RatingEngine): LibraryData => {
+  const keep = library.movies.find(m => m.id === keepId);
+  const drop = library.movies.find(m => m.id === dropId);
+  if (!keep || !drop || keepId === dropId) return library;
+
+  const combined: Movie = {
+    ...keep,
+    uri: keep.uri || drop.uri,
+    tmdbId: keep.tmdbId || drop.tmdbId,
+    rating: keep.rating ?? drop.rating,
+    posterPath: keep.posterPath || drop.posterPath,
+    firstWatched: earliest(keep.firstWatched, drop.firstWatched),
+    lastWatched: latest(keep.lastWatched, drop.lastWatched),
+    watchYears: allYears(keep.watchYears, drop.watchYears),
+    // The same viewings were likely logged under both, so counts aren't added up
+    watchCount: larger(keep.watchCount, drop.watchCount),
+    rewatchCount: larger(keep.rewatchCount, drop.rewatchCount)
+  };
+
+  const remapped = remapLibraryIds(
+    { ...library, movies: library.movies.filter(m => m.id !== dropId).map(m => (m.id === keepId ? combined : m)) },
+    new Map([[dropId, keepId]])
+  );
+  const matchLog = remapped.matchLog.filter(e => e.winnerId !== e.loserId);
+
+  return {
+    ...remapped,
+    movies: replayMatchLog(remapped.movies, matchLog, engine),
+    matchLog,
+    tournaments: remapped.tournaments.map(t => dedupeTournament(t)),
+    definitiveList: remapped.definitiveList && dedupeDefinitiveList(remapped.definitiveList)
+  };
+};
@@ -1,5 +1,7 @@
 
-import { Movie, MatchRecord } from '../types';
+import { INITIAL_ELO, INITIAL_VOLATILITY } from '../constants';
+import type { RatingEngine } from './ratingEngine';
+import { estimateDeviation, withGlickoDefaults } from './glickoCalculator';
 
 // Dynamic K-Factors configuration
 const K_PLACEMENT = 80;    // 0-5 matches: High volatility to find rank fast
@@ -19,19 +21,21 @@ const getKFactor = (matches: number): number => {
 /**
  * Calculates the expected score for player A against player B
  */
-const getExpectedScore = (ratingA: number, ratingB: number): number => {
+export const getExpectedScore = (ratingA: number, ratingB: number): number => {
   return 1 / (1 + Math.pow(10, (ratingB - ratingA) / 400));
 };
 
 /**
  * Updates ratings for a winner and a loser using asymmetric K-Factors.
+ * `score` is the winner's actual score: 1 for a win, 0.5 for a draw.
  * Returns the new ratings [winnerNewElo, loserNewElo]
  */
 export const calculateNewRatings = (
   winnerElo: number, 
   winnerMatches: number, 
   loserElo: number, 
-  loserMatches: number
+  loserMatches: number,
+  score: number = 1
 ): [number, number] => {
   const expectedWinner = getExpectedScore(winnerElo, loserElo);
   const expectedLoser = getExpectedScore(loserElo, winnerElo);
@@ -44,63 +48,46 @@ export const calculateNewRatings = (
   // If a new movie beats an established one:
   // - New movie gains A LOT (High K)
   // - Established movie loses A LITTLE (Low K)
-  const newWinnerElo = winnerElo + winnerK * (1 - expectedWinner);
-  const newLoserElo = loserElo + loserK * (0 - expectedLoser);
+  const newWinnerElo = winnerElo + winnerK * (score - expectedWinner);
+  const newLoserElo = loserElo + loserK * ((1 - score) - expectedLoser);
 
   return [Math.round(newWinnerElo), Math.round(newLoserElo)];
 };
 
 /**
- * Helper to update movie objects immutable style
+ * Classic Elo with the placement/calibration/established K schedule.
+ * Elo has no notion of uncertainty: `rd` is inferred from the match count so
+ * matchmaking and the convergence meter still work, but it isn't shown as one.
  */
-export const updateMovieStats = (winner: Movie, loser: Movie): { winner: Movie; loser: Movie } => {
-  const [newWinnerElo, newLoserElo] = calculateNewRatings(
-    winner.elo, 
-    winner.matches, 
-    loser.elo, 
-    loser.matches
-  );
-  
-  const timestamp = Date.now();
+export const eloEngine: RatingEngine = {
+  id: 'elo',
+  label: 'Elo',
+  description: 'Dynamic K-Factor. New films move fast, established films stay put.',
+  tracksDeviation: false,
 
-  const winnerDiff = newWinnerElo - winner.elo;
-  const loserDiff = newLoserElo - loser.elo;
+  initialState: (seedElo = INITIAL_ELO) => ({
+    elo: seedElo,
+    rd: estimateDeviation(0),
+    volatility: INITIAL_VOLATILITY
+  }),
 
-  const winnerRecord: MatchRecord = {
-    timestamp,
-    opponentId: loser.id,
-    opponentName: loser.name,
-    result: 'WIN',
-    eloChange: winnerDiff,
-    newElo: newWinnerElo,
-    opponentElo: loser.elo
-  };
+  expectedScore: (a, b) => getExpectedScore(a.elo, b.elo),
 
-  const loserRecord: MatchRecord = {
-    timestamp,
-    opponentId: winner.id,
-    opponentName: winner.name,
-    result: 'LOSS',
-    eloChange: loserDiff,
-    newElo: newLoserElo,
-    opponentElo: winner.elo
-  };
+  update: (winner, loser, score = 1) => {
+    const [newWinnerElo, newLoserElo] = calculateNewRatings(
+      winner.elo,
+      winner.matches,
+      loser.elo,
+      loser.matches,
+      score
+    );
+    return [
+      { elo: newWinnerElo, rd: estimateDeviation(winner.matches + 1), volatility: winner.volatility },
+      { elo: newLoserElo, rd: estimateDeviation(loser.matches + 1), volatility: loser.volatility }
+    ];
+  },
 
-  const updatedWinner: Movie = {
-    ...winner,
-    elo: newWinnerElo,
-    matches: winner.matches + 1,
-    wins: winner.wins + 1,
-    history: [...(winner.history || []), winnerRecord]
-  };
+  serializeState: (movie) => ({ kFactor: getKFactor(movie.matches) }),
 
-  const updatedLoser: Movie = {
-    ...loser,
-    elo: newLoserElo,
-    matches: loser.matches + 1,
-    losses: loser.losses + 1,
-    history: [...(loser.history || []), loserRecord]
-  };
-
-  return { winner: updatedWinner, loser: updatedLoser };
+  deserializeState: (movie) => withGlickoDefaults(movie)
 };
@@ -0,0 +1,124 @@
+import { Movie, Tournament, DefinitiveList } from '../types';
+import type { LibraryData } from './libraryStorage';
+
+/**
+ * Stable film ids: the same film gets the same id on every import and in every
+ * library. In order of preference:
+ *   lb:<code>        Letterboxd short link (boxd.it/<code>)
+ *   lb:film/<slug>   Letterboxd film page (list exports, diary entries)
+ *   tmdb:<id>        TMDB id (Trakt exports, mapped CSVs)
+ *   film:<title>-<year>  Normalized title + year
+ * Two different films that land on the same id get a ~2, ~3... suffix.
+ */
+
+// What an id can be derived from
+export interface FilmIdentitySource {
+  name: string;
+  year: string;
+  uri?: string;
+  tmdbId?: string;
+}
+
+/**
+ * Lowercase ASCII words joined by dashes: accents, punctuation and
+ * "&" vs "and" don't make two titles different.
+ */
+export const normalizeTitle = (name: string): string => {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+};
+
+/**
+ * The Letterboxd part of a URI, or null if it isn't a Letterboxd film link.
+ * User-scoped pages (letterboxd.com/<user>/film/<slug>/) resolve to the film.
+ */
+export const letterboxdKey = (uri: string | undefined): string | null => {
+  const match = uri?.trim().match(/^(?:https?:\/\/)?(?:www\.)?(boxd\.it|letterboxd\.com)\/([^?#]+?)\/?(?:[?#].*)?$/i);
+  if (!match) return null;
+  const [, host, path] = match;
+  if (host.toLowerCase() === 'boxd.it') return path.includes('/') ? null : path; // Short codes are case-sensitive
+
+  const film = path.match(/(?:^|\/)film\/([^/]+)/i);
+  return film ? `film/${film[1].toLowerCase()}` : null;
+};
+
+export const getFilmId = (film: FilmIdentitySource): string => {
+  const lb = letterboxdKey(film.uri);
+  if (lb) return `lb:${lb}`;
+  const tmdbId = film.tmdbId?.trim();
+  if (tmdbId) return `tmdb:${tmdbId}`;
+  return `film:${normalizeTitle(film.name) || 'untitled'}-${film.year.trim() || 'unknown'}`;
+};
+
+/**
+ * Gives each film its stable id, suffixing any that collide with each other
+ * or with `taken` (ids already in the library). Order decides who keeps the bare id.
+ */
+export const assignFilmIds = <T extends FilmIdentitySource>(films: T[], taken: Iterable<string> = []): (T & { id: string })[] => {
+  const used = new Set(taken);
+  return films.map(film => {
+    const base = getFilmId(film);
+    let id = base;
+    for (let n = 2; used.has(id); n++) id = `${base}~${n}`;
+    used.add(id);
+    return { ...film, id };
+  });
+};
+
+const remapTournament = (tournament: Tournament, remap: (id: string) => string): Tournament => {
+  const remapSlot = (id: string | null) => (id === null ? null : remap(id));
+  return {
+    ...tournament,
+    entrantIds: tournament.entrantIds.map(remap),
+    matches: tournament.matches.map(m => ({ ...m, aId: remapSlot(m.aId), bId: remapSlot(m.bId), winnerId: remapSlot(m.winnerId) })),
+    championId: tournament.championId && remap(tournament.championId)
+  };
+};
+
+const remapDefinitiveList = (list: DefinitiveList, remap: (id: string) => string): DefinitiveList => ({
+  ...list,
+  sortedIds: list.sortedIds.map(remap),
+  pendingIds: list.pendingIds.map(remap)
+});
+
+/**
+ * Rewrites every reference to a film in the library (film ids, match histories,
+ * the match log, tournaments, the definitive list) through `idMap`.
+ * Ids not in the map are left alone.
+ */
+export const remapLibraryIds = (library: LibraryData, idMap: Map<string, string>): LibraryData => {
+  if (idMap.size === 0) return library;
+  const remap = (id: string) => idMap.get(id) ?? id;
+  const movies: Movie[] = library.movies.map(m => ({
+    ...m,
+    id: remap(m.id),
+    history: m.history.map(h => ({ ...h, opponentId: remap(h.opponentId) }))
+  }));
+
+  return {
+    ...library,
+    movies,
+    matchLog: library.matchLog.map(e => ({ ...e, winnerId: remap(e.winnerId), loserId: remap(e.loserId) })),
+    tournaments: library.tournaments.map(t => remapTournament(t, remap)),
+    definitiveList: library.definitiveList && remapDefinitiveList(library.definitiveList, remap)
+  };
+};
+
+/**
+ * Moves a library onto stable ids. Safe to run on every load; a library
+ * already on stable ids comes back unchanged. Also picks up films whose
+ * identity improved since, e.g. one that gained a Letterboxd URI in a merge.
+ */
+export const migrateFilmIds = (library: LibraryData): LibraryData => {
+  const withIds = assignFilmIds(library.movies);
+  const idMap = new Map<string, string>();
+  library.movies.forEach((m, i) => {
+    if (m.id !== withIds[i].id) idMap.set(m.id, withIds[i].id);
+  });
+  return remapLibraryIds(library, idMap);
+};
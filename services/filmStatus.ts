@@ -0,0 +1,32 @@
+import { Movie, FilmStatus } from '../types';
+
+export const FILM_STATUSES: FilmStatus[] = ['ACTIVE', 'EXCLUDED', 'REWATCH', 'HIDDEN'];
+
+export const FILM_STATUS_LABELS: Record<FilmStatus, string> = {
+  ACTIVE: 'Active',
+  EXCLUDED: 'Excluded',
+  REWATCH: 'Needs Rewatch',
+  HIDDEN: 'Hidden'
+};
+
+export const getFilmStatus = (movie: Movie): FilmStatus => movie.status || 'ACTIVE';
+
+/**
+ * Whether the arena (pairs, ranking rounds, placement, tournaments) may show this film.
+ */
+export const isInArena = (movie: Movie): boolean => getFilmStatus(movie) === 'ACTIVE';
+
+/**
+ * Whether the film is listed and ranked on the leaderboard.
+ */
+export const isOnLeaderboard = (movie: Movie): boolean => getFilmStatus(movie) !== 'HIDDEN';
+
+/**
+ * Sets the status of every film in `ids`. History and ratings are untouched.
+ */
+export const setFilmStatus = (movies: Movie[], ids: Iterable<string>, status: FilmStatus): Movie[] => {
+  const targets = new Set(ids);
+  return movies.map(m => (
+    targets.has(m.id) ? { ...m, status: status === 'ACTIVE' ? undefined : status } : m
+  ));
+};
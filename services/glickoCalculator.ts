@@ -0,0 +1,178 @@
+import { Movie } from '../types';
+import { INITIAL_ELO, INITIAL_RD, INITIAL_VOLATILITY } from '../constants';
+import type { RatingEngine } from './ratingEngine';
+
+// Glicko-2 system constants
+const GLICKO_SCALE = 173.7178; // Converts between the Elo-like scale and the internal Glicko-2 scale
+const TAU = 0.5;               // Constrains how fast volatility can change
+const CONVERGENCE = 0.000001;  // Tolerance for the volatility iteration
+
+export interface GlickoRating {
+  rating: number;
+  rd: number;
+  volatility: number;
+}
+
+/**
+ * Dampens the impact of an opponent whose rating is itself uncertain.
+ */
+const g = (phi: number): number => 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+
+/**
+ * Expected score on the internal scale.
+ */
+const expectation = (mu: number, muOpponent: number, phiOpponent: number): number => {
+  return 1 / (1 + Math.exp(-g(phiOpponent) * (mu - muOpponent)));
+};
+
+/**
+ * Solves for the new volatility using the Illinois algorithm (Glickman, step 5).
+ */
+const computeVolatility = (phi: number, sigma: number, delta: number, v: number): number => {
+  const a = Math.log(sigma * sigma);
+  const f = (x: number) => {
+    const ex = Math.exp(x);
+    const denom = phi * phi + v + ex;
+    return (ex * (delta * delta - phi * phi - v - ex)) / (2 * denom * denom) - (x - a) / (TAU * TAU);
+  };
+
+  let A = a;
+  let B: number;
+  if (delta * delta > phi * phi + v) {
+    B = Math.log(delta * delta - phi * phi - v);
+  } else {
+    let k = 1;
+    while (f(a - k * TAU) < 0) k++;
+    B = a - k * TAU;
+  }
+
+  let fA = f(A);
+  let fB = f(B);
+  let safety = 0;
+  while (Math.abs(B - A) > CONVERGENCE && safety < 100) {
+    const C = A + ((A - B) * fA) / (fB - fA);
+    const fC = f(C);
+    if (fC * fB <= 0) {
+      A = B;
+      fA = fB;
+    } else {
+      fA = fA / 2;
+    }
+    B = C;
+    fB = fC;
+    safety++;
+  }
+
+  return Math.exp(A / 2);
+};
+
+/**
+ * Rates a single game as its own rating period.
+ * `score` is 1 for a win, 0.5 for a draw, 0 for a loss from the player's point of view.
+ */
+const ratePlayer = (player: GlickoRating, opponent: GlickoRating, score: number): GlickoRating => {
+  const mu = (player.rating - INITIAL_ELO) / GLICKO_SCALE;
+  const phi = player.rd / GLICKO_SCALE;
+  const muOpp = (opponent.rating - INITIAL_ELO) / GLICKO_SCALE;
+  const phiOpp = opponent.rd / GLICKO_SCALE;
+
+  const gOpp = g(phiOpp);
+  const expected = expectation(mu, muOpp, phiOpp);
+  const v = 1 / (gOpp * gOpp * expected * (1 - expected));
+  const delta = v * gOpp * (score - expected);
+
+  const newSigma = computeVolatility(phi, player.volatility, delta, v);
+  const phiStar = Math.sqrt(phi * phi + newSigma * newSigma);
+  const newPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v);
+  const newMu = mu + newPhi * newPhi * gOpp * (score - expected);
+
+  return {
+    rating: newMu * GLICKO_SCALE + INITIAL_ELO,
+    rd: newPhi * GLICKO_SCALE,
+    volatility: newSigma
+  };
+};
+
+/**
+ * Updates a winner and a loser with Glicko-2, both rated against the other's pre-match state.
+ * `score` is the winner's actual score: 1 for a win, 0.5 for a draw.
+ * Returns the new states [winner, loser]
+ */
+export const calculateGlickoRatings = (
+  winner: GlickoRating,
+  loser: GlickoRating,
+  score: number = 1
+): [GlickoRating, GlickoRating] => {
+  return [ratePlayer(winner, loser, score), ratePlayer(loser, winner, 1 - score)];
+};
+
+/**
+ * Estimates the rating deviation a movie would have after `matches` even games.
+ * Used to migrate libraries that only ever tracked plain Elo.
+ */
+export const estimateDeviation = (matches: number): number => {
+  const phi = INITIAL_RD / GLICKO_SCALE;
+  // An even match against a settled opponent contributes ~g^2 * 0.25 information
+  const info = matches * 0.25;
+  return Math.sqrt(1 / (1 / (phi * phi) + info)) * GLICKO_SCALE;
+};
+
+/**
+ * Inverse of estimateDeviation: roughly how many even games it takes to get down to `rd`.
+ */
+export const matchesForDeviation = (rd: number): number => {
+  const phi = rd / GLICKO_SCALE;
+  const phi0 = INITIAL_RD / GLICKO_SCALE;
+  return Math.max(0, 4 * (1 / (phi * phi) - 1 / (phi0 * phi0)));
+};
+
+/**
+ * Fills in Glicko-2 fields for movies saved before they existed.
+ * The current Elo is kept as the rating; the deviation is inferred from the match count.
+ */
+export const withGlickoDefaults = (movie: Movie): Movie => {
+  if (typeof movie.rd === 'number' && typeof movie.volatility === 'number') return movie;
+  return {
+    ...movie,
+    rd: typeof movie.rd === 'number' ? movie.rd : estimateDeviation(movie.matches || 0),
+    volatility: typeof movie.volatility === 'number' ? movie.volatility : INITIAL_VOLATILITY
+  };
+};
+
+/**
+ * Glicko-2: every film carries its own uncertainty, so films with few matches move further
+ * and a win against an unsettled opponent counts for less.
+ */
+export const glickoEngine: RatingEngine = {
+  id: 'glicko2',
+  label: 'Glicko-2',
+  description: 'Tracks rating deviation and volatility. Uncertain films move fast, settled films barely budge.',
+  tracksDeviation: true,
+
+  initialState: (seedElo = INITIAL_ELO) => ({
+    elo: seedElo,
+    rd: INITIAL_RD,
+    volatility: INITIAL_VOLATILITY
+  }),
+
+  expectedScore: (a, b) => {
+    const combinedPhi = Math.sqrt(a.rd * a.rd + b.rd * b.rd) / GLICKO_SCALE;
+    return expectation((a.elo - INITIAL_ELO) / GLICKO_SCALE, (b.elo - INITIAL_ELO) / GLICKO_SCALE, combinedPhi);
+  },
+
+  update: (winner, loser, score = 1) => {
+    const [winnerRating, loserRating] = calculateGlickoRatings(
+      { rating: winner.elo, rd: winner.rd, volatility: winner.volatility },
+      { rating: loser.elo, rd: loser.rd, volatility: loser.volatility },
+      score
+    );
+    return [
+      { elo: Math.round(winnerRating.rating), rd: winnerRating.rd, volatility: winnerRating.volatility },
+      { elo: Math.round(loserRating.rating), rd: loserRating.rd, volatility: loserRating.volatility }
+    ];
+  },
+
+  serializeState: (movie) => ({ rd: movie.rd, volatility: movie.volatility }),
+
+  deserializeState: (movie, state) => withGlickoDefaults(state ? { ...movie, ...state } : movie)
+};
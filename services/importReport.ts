@@ -0,0 +1,72 @@
+import { ImportIssue, ImportIssueKind, ImportReport } from '../types';
+import { csvField } from './csv';
+
+// Reports kept with the library, newest last
+export const MAX_KEPT_REPORTS = 10;
+// Issues kept per report; a broken file shouldn't fill local storage
+export const MAX_REPORT_ISSUES = 1000;
+
+export const IMPORT_ISSUE_LABELS: Record<ImportIssueKind, string> = {
+  SKIPPED_FILE: 'File Skipped',
+  MISSING_COLUMNS: 'Short Row',
+  MISSING_TITLE: 'No Title',
+  MISSING_YEAR: 'No Year',
+  BAD_RATING: 'Unreadable Rating',
+  DUPLICATE: 'Duplicate'
+};
+
+export const createImportReport = (source: string): ImportReport => ({
+  id: `import-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  importedAt: Date.now(),
+  source,
+  files: [],
+  imported: 0,
+  updated: 0,
+  merged: 0,
+  skipped: 0,
+  issues: []
+});
+
+/**
+ * Records an issue and counts it. Mutates the report (it's only shared once the import is done).
+ */
+export const addImportIssue = (report: ImportReport, issue: ImportIssue) => {
+  if (issue.action === 'SKIPPED') report.skipped++;
+  if (issue.action === 'MERGED') report.merged++;
+  if (report.issues.length < MAX_REPORT_ISSUES) {
+    report.issues.push(issue);
+  } else {
+    report.truncatedIssues = (report.truncatedIssues || 0) + 1;
+  }
+};
+
+/**
+ * Adds a report to the library's list, dropping the oldest past MAX_KEPT_REPORTS.
+ */
+export const appendImportReport = (reports: ImportReport[], report: ImportReport): ImportReport[] => {
+  return [...reports, report].slice(-MAX_KEPT_REPORTS);
+};
+
+/**
+ * The report as CSV: one line per issue with the offending row, after a short summary.
+ */
+export const importReportToCSV = (report: ImportReport): string => {
+  const summary = [
+    `# ${report.source} • ${new Date(report.importedAt).toISOString()}`,
+    `# Imported ${report.imported}, updated ${report.updated}, merged ${report.merged}, skipped ${report.skipped}`,
+    `# Files: ${report.files.join('; ') || 'none'}`
+  ];
+  if (report.truncatedIssues) summary.push(`# ${report.truncatedIssues} more issues not kept`);
+
+  const headers = ['File', 'Row', 'Issue', 'Action', 'Detail', 'Row Data'];
+  const rows = report.issues.map(issue => [
+    issue.file,
+    issue.row,
+    IMPORT_ISSUE_LABELS[issue.kind],
+    issue.action,
+    issue.detail,
+    issue.data ? issue.data.join(' | ') : ''
+  ].map(csvField).join(','));
+
+  return [...summary, headers.join(','), ...rows].join('\n');
+};
@@ -0,0 +1,248 @@
+import { describe, it, expect } from 'vitest';
+import { deflateRawSync } from 'zlib';
+import {
+  parseCSVRaw,
+  parseFilmTable,
+  classifyImportFile,
+  isWantedZipEntry,
+  mergeImportFiles,
+  ImportFile
+} from './importService';
+import { readZip } from './zipReader';
+
+const file = (path: string, text: string): ImportFile => ({ path, kind: classifyImportFile(path), text });
+
+// A minimal archive: local headers, then the central directory, then its end record. CRCs aren't checked.
+const buildZip = (entries: { path: string; text: string; deflate?: boolean; method?: number }[]): ArrayBuffer => {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach(({ path, text, deflate, method: forcedMethod }) => {
+    const name = encoder.encode(path);
+    const raw = encoder.encode(text);
+    const data = deflate ? new Uint8Array(deflateRawSync(raw)) : raw;
+    const method = forcedMethod ?? (deflate ? 8 : 0);
+
+    const local = new Uint8Array(30 + name.length + data.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(8, method, true);
+    lv.setUint32(18, data.length, true);
+    lv.setUint32(22, raw.length, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+    local.set(data, 30 + name.length);
+
+    const central = new Uint8Array(46 + name.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(10, method, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, raw.length, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  });
+
+  const centralSize = centrals.reduce((sum, c) => sum + c.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, entries.length, true);
+  ev.setUint16(10, entries.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  const parts = [...locals, ...centrals, end];
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let at = 0;
+  parts.forEach(p => {
+    out.set(p, at);
+    at += p.length;
+  });
+  return out.buffer;
+};
+
+describe('parseCSVRaw', () => {
+  it('keeps commas and newlines inside quoted fields', () => {
+    expect(parseCSVRaw('Name,Year\n"Crouching Tiger, Hidden Dragon",2000\n"Line\nBreak",1999')).toEqual([
+      ['Name', 'Year'],
+      ['Crouching Tiger, Hidden Dragon', '2000'],
+      ['Line\nBreak', '1999']
+    ]);
+  });
+
+  it('reads doubled quotes as one quote', () => {
+    expect(parseCSVRaw('"The ""Burbs""",1989')).toEqual([['The "Burbs"', '1989']]);
+  });
+
+  it('splits rows on CRLF without leaving empty rows', () => {
+    expect(parseCSVRaw('Name,Year\r\nAlien,1979\r\nHeat,1995\r\n')).toEqual([
+      ['Name', 'Year'],
+      ['Alien', '1979'],
+      ['Heat', '1995']
+    ]);
+  });
+
+  it('keeps empty trailing fields', () => {
+    expect(parseCSVRaw('Alien,1979,')).toEqual([['Alien', '1979', '']]);
+  });
+});
+
+describe('parseFilmTable', () => {
+  it('strips a BOM and lowercases headers', () => {
+    const table = parseFilmTable('\uFEFFDate,Name,Year,Letterboxd URI\n2024-01-01,Alien,1979,https://boxd.it/2bfi');
+    expect(table?.headers).toEqual(['date', 'name', 'year', 'letterboxd uri']);
+    expect(table?.rows).toEqual([['2024-01-01', 'Alien', '1979', 'https://boxd.it/2bfi']]);
+    expect(table?.firstRow).toBe(2);
+  });
+
+  it('finds the film table under a list export metadata block', () => {
+    const text = [
+      'Letterboxd list export v7',
+      'Date,Name,Tags,URL,Description',
+      '2024-02-01,Favourites,,https://letterboxd.com/me/list/favourites/,Best ever',
+      '',
+      'Position,Name,Year,URL,Description',
+      '1,Heat,1995,https://letterboxd.com/film/heat-1995/,',
+      '2,Alien,1979,https://letterboxd.com/film/alien/,'
+    ].join('\n');
+    const table = parseFilmTable(text);
+    expect(table?.headers).toEqual(['position', 'name', 'year', 'url', 'description']);
+    expect(table?.rows.map(r => r[1])).toEqual(['Heat', 'Alien']);
+    expect(table?.firstRow).toBe(5);
+  });
+
+  it('returns null for files without a Name and Year header or without rows', () => {
+    expect(parseFilmTable('Title,Comment\nfoo,bar')).toBeNull();
+    expect(parseFilmTable('Name,Year\n')).toBeNull();
+  });
+});
+
+describe('classifyImportFile', () => {
+  it('classifies export files by name', () => {
+    expect(classifyImportFile('ratings.csv')).toBe('ratings');
+    expect(classifyImportFile('export/watched.csv')).toBe('watched');
+    expect(classifyImportFile('diary.csv')).toBe('diary');
+    expect(classifyImportFile('likes/films.csv')).toBe('likes');
+    expect(classifyImportFile('lists\\favourites.csv')).toBe('list');
+    expect(classifyImportFile('watchlist.csv')).toBe('other');
+  });
+});
+
+describe('isWantedZipEntry', () => {
+  it('reads the top-level export files, likes and lists', () => {
+    expect(isWantedZipEntry('ratings.csv')).toBe(true);
+    expect(isWantedZipEntry('letterboxd-me-2024/diary.csv')).toBe(true);
+    expect(isWantedZipEntry('likes/films.csv')).toBe(true);
+    expect(isWantedZipEntry('lists/favourites.csv')).toBe(true);
+    expect(isWantedZipEntry('letterboxd-me-2024/lists/favourites.csv')).toBe(true);
+  });
+
+  it('skips deleted and orphaned entries, unknown files and non-CSVs', () => {
+    expect(isWantedZipEntry('deleted/ratings.csv')).toBe(false);
+    expect(isWantedZipEntry('deleted/lists/old.csv')).toBe(false);
+    expect(isWantedZipEntry('orphaned/diary.csv')).toBe(false);
+    expect(isWantedZipEntry('watchlist.csv')).toBe(false);
+    expect(isWantedZipEntry('likes/reviews.csv')).toBe(false);
+    expect(isWantedZipEntry('ratings.txt')).toBe(false);
+    expect(isWantedZipEntry('a/b/ratings.csv')).toBe(false);
+  });
+});
+
+describe('mergeImportFiles', () => {
+  it('lets ratings win over watched, whatever order the files come in', () => {
+    const result = mergeImportFiles([
+      file('ratings.csv', 'Date,Name,Year,Letterboxd URI,Rating\n2024-01-01,Alien,1979,https://boxd.it/2bfi,4.5'),
+      file('watched.csv', 'Date,Name,Year,Letterboxd URI\n2024-01-01,Alien,1979,https://boxd.it/other\n2024-01-02,Heat,1995,')
+    ]);
+    expect(result.films).toHaveLength(2);
+    const alien = result.films.find(f => f.name === 'Alien');
+    expect(alien?.rating).toBe(4.5);
+    expect(alien?.uri).toBe('https://boxd.it/2bfi');
+    expect(alien?.id).toBe('lb:2bfi');
+    expect(result.hasRatings).toBe(true);
+    expect(result.report.merged).toBe(1);
+    expect(result.report.issues).toEqual([]);
+  });
+
+  it('counts diary repeats as viewings, not duplicates', () => {
+    const diary = [
+      'Date,Name,Year,Letterboxd URI,Rating,Rewatch,Tags,Watched Date',
+      '2021-03-01,Heat,1995,https://boxd.it/d1,,,,2021-03-01',
+      '2023-07-01,Heat,1995,https://boxd.it/d3,,Yes,,2023-07-01',
+      '2022-05-01,Heat,1995,https://boxd.it/d2,,Yes,,2022-05-01',
+      '2023-01-09,Heat,1995,https://boxd.it/d4,,Yes,,2023-01-09'
+    ].join('\n');
+    const result = mergeImportFiles([file('diary.csv', diary)]);
+    expect(result.films).toHaveLength(1);
+    expect(result.films[0]).toMatchObject({ watchCount: 4, rewatchCount: 3, firstWatched: '2021-03-01', lastWatched: '2023-07-01' });
+    expect(result.films[0].watchYears).toEqual([2021, 2022, 2023]);
+    expect(result.report.issues).toEqual([]);
+    expect(result.report.merged).toBe(0);
+  });
+
+  it('only treats diary.csv as a diary', () => {
+    const reviews = 'Date,Name,Year,Letterboxd URI,Rating,Rewatch,Review,Tags,Watched Date\n'
+      + '2024-01-01,Heat,1995,https://boxd.it/r1,,,Great,,2024-01-01\n'
+      + '2024-02-01,Heat,1995,https://boxd.it/r2,,,Still great,,2024-02-01';
+    const result = mergeImportFiles([file('reviews.csv', reviews)]);
+    expect(result.films[0]).toMatchObject({ uri: 'https://boxd.it/r2' });
+    expect(result.films[0].watchCount).toBeUndefined();
+    expect(result.report.issues.map(i => i.kind)).toEqual(['DUPLICATE']);
+  });
+
+  it('reports files that couldn\'t be read as skipped', () => {
+    const result = mergeImportFiles([
+      file('watched.csv', 'Date,Name,Year\n2024-01-01,Heat,1995'),
+      { ...file('ratings.csv', ''), unreadable: 'Unsupported ZIP compression method 12' }
+    ]);
+    expect(result.films.map(f => f.name)).toEqual(['Heat']);
+    expect(result.report.issues).toEqual([
+      { kind: 'SKIPPED_FILE', action: 'SKIPPED', file: 'ratings.csv', detail: 'Unsupported ZIP compression method 12' }
+    ]);
+    expect(result.report.skipped).toBe(1);
+  });
+
+  it('reports repeats outside the diary and rows it can\'t use', () => {
+    const result = mergeImportFiles([
+      file('watched.csv', 'Date,Name,Year\n2024-01-01,Heat,1995\n2024-01-01,Heat,1995\n2024-01-01,,1995\n2024-01-01,Alien,'),
+      file('ratings.csv', 'Date,Name,Year,Rating\n2024-01-01,Heat,1995,9'),
+      file('reviews.txt', 'not a csv')
+    ]);
+    expect(result.films.map(f => f.name)).toEqual(['Heat']);
+    expect(result.films[0].rating).toBeUndefined();
+    expect(result.report.issues.map(i => i.kind).sort()).toEqual(['BAD_RATING', 'DUPLICATE', 'MISSING_TITLE', 'MISSING_YEAR', 'SKIPPED_FILE']);
+    expect(result.filesUsed).toEqual(['watched.csv', 'ratings.csv']);
+  });
+});
+
+describe('readZip', () => {
+  it('reads stored and deflated entries, skipping unwanted ones', async () => {
+    const zip = buildZip([
+      { path: 'ratings.csv', text: 'Name,Year,Rating\nAlien,1979,4.5' },
+      { path: 'diary.csv', text: 'Name,Year\n' + 'Heat,1995\n'.repeat(20), deflate: true },
+      { path: 'deleted/ratings.csv', text: 'Name,Year\nGone,2000' }
+    ]);
+    const decoder = new TextDecoder();
+    const entries = await readZip(zip, isWantedZipEntry);
+    expect(entries.map(e => e.path)).toEqual(['ratings.csv', 'diary.csv']);
+    expect(decoder.decode(entries[0].data)).toBe('Name,Year,Rating\nAlien,1979,4.5');
+    expect(decoder.decode(entries[1].data)).toBe('Name,Year\n' + 'Heat,1995\n'.repeat(20));
+  });
+
+  it('marks entries with an unsupported compression method unreadable', async () => {
+    const entries = await readZip(buildZip([{ path: 'ratings.csv', text: 'Name,Year', method: 12 }]));
+    expect(entries).toEqual([{ path: 'ratings.csv', data: new Uint8Array(0), unreadable: 'Unsupported ZIP compression method 12' }]);
+  });
+
+  it('rejects data that isn\'t a ZIP', async () => {
+    await expect(readZip(new TextEncoder().encode('Name,Year\n').buffer)).rejects.toThrow('Not a valid ZIP file.');
+  });
+});
@@ -0,0 +1,436 @@
+import { Movie, ImportReport } from '../types';
+import { INITIAL_ELO } from '../constants';
+import type { RatingEngine } from './ratingEngine';
+import { isZipFile, readZip } from './zipReader';
+import { createImportReport, addImportIssue } from './importReport';
+import { assignFilmIds } from './filmIdentity';
+import { SeedTable, LINEAR_SEED_TABLE, seedEloForRating } from './seedingCurve';
+
+// How imported films get their starting rating
+export type EloStrategy = 'fixed' | 'rating';
+
+// Which part of a Letterboxd export a file is
+export type ImportFileKind = 'watched' | 'ratings' | 'diary' | 'likes' | 'list' | 'other';
+
+export interface ImportFile {
+  path: string; // File name, or path inside the ZIP
+  kind: ImportFileKind;
+  text: string;
+  unreadable?: string; // Set when the file couldn't be read (text is empty)
+}
+
+export interface ParsedTable {
+  headers: string[]; // Trimmed and lowercased
+  rows: string[][];
+  firstRow: number; // Row number of rows[0] in the file (blank lines not counted)
+}
+
+// A film as read from the export, before it gets a rating
+export interface ImportedFilm {
+  id: string;
+  name: string;
+  year: string;
+  rating?: number;
+  uri?: string;
+  tmdbId?: string;
+  firstWatched?: string;
+  lastWatched?: string;
+  watchYears?: number[];
+  watchCount?: number;
+  rewatchCount?: number;
+}
+
+export interface ImportResult {
+  films: ImportedFilm[];
+  filesUsed: string[];
+  hasRatings: boolean;
+  report: ImportReport;
+}
+
+// Later files win on ratings and URIs, so ratings.csv goes last
+const KIND_ORDER: ImportFileKind[] = ['list', 'likes', 'other', 'diary', 'watched', 'ratings'];
+
+/**
+ * Splits CSV text into rows of fields. Handles quoted fields, doubled quotes
+ * and CRLF line endings.
+ */
+export const parseCSVRaw = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let currentRow: string[] = [];
+  let currentField = '';
+  let inQuote = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    const nextChar = text[i + 1];
+
+    if (char === '"') {
+      if (inQuote && nextChar === '"') {
+        currentField += '"';
+        i++;
+      } else {
+        inQuote = !inQuote;
+      }
+    } else if (char === ',' && !inQuote) {
+      currentRow.push(currentField);
+      currentField = '';
+    } else if ((char === '\n' || char === '\r') && !inQuote) {
+      currentRow.push(currentField);
+      rows.push(currentRow);
+      currentRow = [];
+      currentField = '';
+      if (char === '\r' && nextChar === '\n') {
+        i++;
+      }
+    } else {
+      currentField += char;
+    }
+  }
+
+  if (currentField || currentRow.length > 0) {
+    currentRow.push(currentField);
+    rows.push(currentRow);
+  }
+
+  return rows;
+};
+
+/**
+ * Finds the film table in a CSV: the first row with Name and Year columns.
+ * List exports put a block of list metadata above it. Returns null for files
+ * that aren't film lists.
+ */
+export const parseFilmTable = (text: string): ParsedTable | null => {
+  const rows = parseCSVRaw(text.replace(/^\uFEFF/, ''))
+    .filter(r => r.length > 0 && (r.length > 1 || r[0] !== ''));
+
+  const headerIndex = rows.findIndex(r => {
+    const headers = r.map(h => h.trim().toLowerCase());
+    return headers.includes('name') && headers.includes('year');
+  });
+  if (headerIndex === -1 || headerIndex === rows.length - 1) return null;
+
+  return {
+    headers: rows[headerIndex].map(h => h.trim().toLowerCase()),
+    rows: rows.slice(headerIndex + 1),
+    firstRow: headerIndex + 2
+  };
+};
+
+// Letterboxd dates are YYYY-MM-DD; anything else is ignored
+const parseWatchDate = (value: string | undefined): string | undefined => {
+  const match = value?.trim().match(/^(\d{4}-\d{2}-\d{2})/);
+  return match ? match[1] : undefined;
+};
+
+/**
+ * What a file in a Letterboxd export is, from its path. Loose files are
+ * matched by name; anything else is 'other'.
+ */
+export const classifyImportFile = (path: string): ImportFileKind => {
+  const normalized = path.toLowerCase().replace(/\\/g, '/');
+  const fileName = normalized.split('/').pop() || '';
+
+  if (/(^|\/)likes\/films\.csv$/.test(normalized)) return 'likes';
+  if (/(^|\/)lists\/[^/]+\.csv$/.test(normalized)) return 'list';
+  if (fileName.startsWith('ratings')) return 'ratings';
+  if (fileName.startsWith('watched')) return 'watched';
+  if (fileName.startsWith('diary')) return 'diary';
+  return 'other';
+};
+
+// Inside a ZIP only the files we know about are read (not the watchlist, reviews, deleted/ etc.)
+export const isWantedZipEntry = (path: string): boolean => {
+  const normalized = path.toLowerCase();
+  if (!normalized.endsWith('.csv') || /(^|\/)(deleted|orphaned)\//.test(normalized)) return false;
+  const kind = classifyImportFile(path);
+  if (kind === 'other') return false;
+  // Top-level files only (or one folder deep, for a re-zipped export)
+  if (kind === 'list' || kind === 'likes') return true;
+  return normalized.split('/').length <= 2;
+};
+
+/**
+ * Reads dropped files into text, unpacking Letterboxd export ZIPs.
+ */
+export const readImportFiles = async (files: File[]): Promise<ImportFile[]> => {
+  const result: ImportFile[] = [];
+  const decoder = new TextDecoder();
+
+  for (const file of files) {
+    if (isZipFile(file)) {
+      const entries = await readZip(await file.arrayBuffer(), isWantedZipEntry);
+      entries.forEach(entry => result.push({
+        path: entry.path,
+        kind: classifyImportFile(entry.path),
+        text: decoder.decode(entry.data),
+        unreadable: entry.unreadable
+      }));
+    } else {
+      result.push({ path: file.name, kind: classifyImportFile(file.name), text: await file.text() });
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Merges every film table into one deduplicated list (by name + year),
+ * reporting every row it drops or can't read.
+ */
+export const mergeImportFiles = (files: ImportFile[], source = 'Letterboxd export'): ImportResult => {
+  // Ids are given once every file is read, when the best identity (e.g. a URI) is known
+  const filmMap = new Map<string, Omit<ImportedFilm, 'id'>>();
+  const report = createImportReport(source);
+
+  const filesUsed: string[] = [];
+  let hasRatings = false;
+
+  const ordered = [...files].sort((a, b) => KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind));
+
+  for (const file of ordered) {
+    report.files.push(file.path);
+    if (file.unreadable) {
+      addImportIssue(report, { kind: 'SKIPPED_FILE', action: 'SKIPPED', file: file.path, detail: file.unreadable });
+      continue;
+    }
+    const table = parseFilmTable(file.text);
+    if (!table) {
+      // Skip files that don't look like movie lists
+      addImportIssue(report, { kind: 'SKIPPED_FILE', action: 'SKIPPED', file: file.path, detail: "No 'Name' and 'Year' header row" });
+      continue;
+    }
+    filesUsed.push(file.path);
+    const seenInFile = new Set<string>();
+
+    const nameIndex = table.headers.indexOf('name');
+    const yearIndex = table.headers.indexOf('year');
+    const ratingIndex = table.headers.indexOf('rating');
+    // Diary rows are individual viewings; a film can appear several times
+    // (reviews.csv has a Watched Date too, but it isn't the diary)
+    const watchedDateIndex = table.headers.indexOf('watched date');
+    const isDiary = file.kind === 'diary';
+    const dateIndex = watchedDateIndex > -1 ? watchedDateIndex : table.headers.indexOf('date');
+    const rewatchIndex = table.headers.indexOf('rewatch');
+    // Lists link films by URL rather than URI
+    const uriIndex = table.headers.indexOf('letterboxd uri') > -1
+      ? table.headers.indexOf('letterboxd uri')
+      : table.headers.indexOf('url');
+
+    table.rows.forEach((columns, r) => {
+      const at = { file: file.path, row: table.firstRow + r, data: columns };
+      if (columns.length <= Math.max(nameIndex, yearIndex)) {
+        addImportIssue(report, { ...at, kind: 'MISSING_COLUMNS', action: 'SKIPPED', detail: `${columns.length} columns, expected ${table.headers.length}` });
+        return;
+      }
+
+      const name = columns[nameIndex]?.trim();
+      const year = columns[yearIndex]?.trim();
+      if (!name) {
+        addImportIssue(report, { ...at, kind: 'MISSING_TITLE', action: 'SKIPPED', detail: 'Name is empty' });
+        return;
+      }
+      if (!year) {
+        addImportIssue(report, { ...at, kind: 'MISSING_YEAR', action: 'SKIPPED', detail: `"${name}" has no year` });
+        return;
+      }
+
+      const key = `${name.toLowerCase()}-${year}`;
+
+      let ratingVal: number | undefined = undefined;
+      const ratingText = ratingIndex > -1 ? columns[ratingIndex]?.trim() : '';
+      if (ratingText) {
+        const parsed = parseFloat(ratingText);
+        if (!isNaN(parsed) && parsed > 0 && parsed <= 5) {
+          ratingVal = parsed;
+          hasRatings = true;
+        } else {
+          addImportIssue(report, { ...at, kind: 'BAD_RATING', action: 'KEPT', detail: `Rating "${ratingText}" isn't 0.5–5 stars; imported unrated` });
+        }
+      }
+
+      // Diaries log each viewing, so repeats there are expected
+      if (seenInFile.has(key) && !isDiary) {
+        addImportIssue(report, { ...at, kind: 'DUPLICATE', action: 'MERGED', detail: `"${name}" (${year}) appears more than once` });
+      } else if (filmMap.has(key) && !seenInFile.has(key)) {
+        report.merged++;
+      }
+      seenInFile.add(key);
+
+      const uri = uriIndex > -1 ? columns[uriIndex]?.trim() || undefined : undefined;
+      const existingFilm = filmMap.get(key);
+
+      const film: Omit<ImportedFilm, 'id'> = {
+        ...existingFilm,
+        name: existingFilm?.name || name,
+        year: existingFilm?.year || year,
+        rating: ratingVal || existingFilm?.rating,
+        // Diary URIs point at the diary entry, not the film
+        uri: (isDiary ? existingFilm?.uri || uri : uri || existingFilm?.uri)
+      };
+
+      if (isDiary) {
+        const watched = dateIndex > -1 ? parseWatchDate(columns[dateIndex]) : undefined;
+        if (watched) {
+          if (!film.firstWatched || watched < film.firstWatched) film.firstWatched = watched;
+          if (!film.lastWatched || watched > film.lastWatched) film.lastWatched = watched;
+          const year = parseInt(watched.slice(0, 4), 10);
+          if (!film.watchYears?.includes(year)) film.watchYears = [...(film.watchYears || []), year].sort((a, b) => a - b);
+        }
+        film.watchCount = (film.watchCount || 0) + 1;
+        const isRewatch = rewatchIndex > -1 && columns[rewatchIndex]?.trim().toLowerCase() === 'yes';
+        film.rewatchCount = (film.rewatchCount || 0) + (isRewatch ? 1 : 0);
+      }
+
+      filmMap.set(key, film);
+    });
+  }
+
+  const films = assignFilmIds(Array.from(filmMap.values()));
+  report.imported = films.length;
+  return { films, filesUsed, hasRatings, report };
+};
+
+/**
+ * Turns imported films into fresh library entries with a starting rating.
+ * Under 'rating', stars map to Elo through `seedTable` (see seedingCurve).
+ */
+export const seedMovies = (
+  films: ImportedFilm[],
+  strategy: EloStrategy,
+  engine: RatingEngine,
+  seedTable: SeedTable = LINEAR_SEED_TABLE
+): Movie[] => {
+  return films.map(f => {
+    let initialElo = INITIAL_ELO;
+
+    if (strategy === 'rating' && f.rating) {
+      initialElo = seedEloForRating(f.rating, seedTable);
+    }
+
+    return {
+      id: f.id,
+      name: f.name,
+      year: f.year,
+      rating: f.rating,
+      uri: f.uri,
+      tmdbId: f.tmdbId,
+      firstWatched: f.firstWatched,
+      lastWatched: f.lastWatched,
+      watchYears: f.watchYears,
+      watchCount: f.watchCount,
+      rewatchCount: f.rewatchCount,
+      ...engine.initialState(initialElo),
+      initialElo,
+      matches: 0,
+      wins: 0,
+      losses: 0,
+      draws: 0,
+      history: []
+    };
+  });
+};
+
+export interface ReimportUpdate {
+  movie: Movie;
+  film: ImportedFilm;
+  ratingChanged: boolean;
+  diaryChanged: boolean;
+  uriAdded: boolean;
+}
+
+/**
+ * What merging a newer export into the library would do. Nothing is applied yet.
+ */
+export interface ReimportPlan {
+  added: ImportedFilm[];
+  updated: ReimportUpdate[];
+  removed: Movie[]; // In the library but not in the export
+  unchanged: number;
+}
+
+const nameYearKey = (name: string, year: string) => `${name.trim().toLowerCase()}-${year.trim()}`;
+
+/**
+ * Matches an export against the library: by Letterboxd URI first, then TMDB id, then name + year.
+ */
+export const planReimport = (movies: Movie[], films: ImportedFilm[]): ReimportPlan => {
+  const byUri = new Map<string, Movie>();
+  const byTmdbId = new Map<string, Movie>();
+  const byNameYear = new Map<string, Movie>();
+  movies.forEach(m => {
+    if (m.uri) byUri.set(m.uri, m);
+    if (m.tmdbId) byTmdbId.set(m.tmdbId, m);
+    byNameYear.set(nameYearKey(m.name, m.year), m);
+  });
+
+  const matched = new Set<string>();
+  const plan: ReimportPlan = { added: [], updated: [], removed: [], unchanged: 0 };
+
+  films.forEach(film => {
+    const movie = (film.uri && byUri.get(film.uri))
+      || (film.tmdbId && byTmdbId.get(film.tmdbId))
+      || byNameYear.get(nameYearKey(film.name, film.year));
+    if (!movie || matched.has(movie.id)) {
+      plan.added.push(film);
+      return;
+    }
+    matched.add(movie.id);
+
+    // A missing rating in the export leaves the old one alone (e.g. ratings.csv wasn't included)
+    const ratingChanged = film.rating !== undefined && film.rating !== movie.rating;
+    const diaryChanged = film.watchCount !== undefined && (
+      film.watchCount !== movie.watchCount ||
+      film.firstWatched !== movie.firstWatched ||
+      film.lastWatched !== movie.lastWatched ||
+      film.watchYears?.join() !== movie.watchYears?.join()
+    );
+    const uriAdded = !movie.uri && !!film.uri;
+
+    if (ratingChanged || diaryChanged || uriAdded) {
+      plan.updated.push({ movie, film, ratingChanged, diaryChanged, uriAdded });
+    } else {
+      plan.unchanged++;
+    }
+  });
+
+  plan.removed = movies.filter(m => !matched.has(m.id));
+  return plan;
+};
+
+/**
+ * Applies a plan: updates matched films in place (votes and ratings untouched),
+ * appends the new ones with a seeded rating. Films missing from the export are kept.
+ */
+export const applyReimport = (
+  movies: Movie[],
+  plan: ReimportPlan,
+  strategy: EloStrategy,
+  engine: RatingEngine,
+  seedTable: SeedTable = LINEAR_SEED_TABLE
+): Movie[] => {
+  const updates = new Map(plan.updated.map(u => [u.movie.id, u]));
+
+  const merged = movies.map(m => {
+    const update = updates.get(m.id);
+    if (!update) return m;
+    const { film } = update;
+    return {
+      ...m,
+      rating: update.ratingChanged ? film.rating : m.rating,
+      uri: update.uriAdded ? film.uri : m.uri,
+      ...(update.diaryChanged ? {
+        firstWatched: film.firstWatched,
+        lastWatched: film.lastWatched,
+        watchYears: film.watchYears,
+        watchCount: film.watchCount,
+        rewatchCount: film.rewatchCount
+      } : {})
+    };
+  });
+
+  // New ids mustn't collide with films already in the library
+  const added = assignFilmIds(plan.added, movies.map(m => m.id));
+
+  return [...merged, ...seedMovies(added, strategy, engine, seedTable)];
+};
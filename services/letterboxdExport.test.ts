@@ -0,0 +1,16 @@
+import { describe, it, expect } from 'vitest';
+import { diffStars, toLetterboxdImportCSV } from './letterboxdExport';
+import { makeMovie } from './testFixtures';
+
+describe('diffStars', () => {
+  it('skips unchanged films and films without stars', () => {
+    const movies = [makeMovie({ id: 'a', name: 'Heat', rating: 4 }), makeMovie({ id: 'b', name: 'Alien', rating: 3 }), makeMovie({ id: 'c', name: 'Seven' })];
+    const changes = diffStars(movies, new Map([['a', 4], ['b', 4.5]]));
+    expect(changes.map(c => [c.movie.id, c.before, c.after])).toEqual([['b', 3, 4.5]]);
+  });
+
+  it('writes Letterboxd\'s import columns', () => {
+    const csv = toLetterboxdImportCSV([makeMovie({ id: 'a', name: 'Heat, Again' })], new Map([['a', 4]]));
+    expect(csv.split('\n')).toEqual(['LetterboxdURI,tmdbID,Title,Year,Rating', ',,"Heat, Again",1995,4']);
+  });
+});
@@ -0,0 +1,92 @@
+import { Movie } from '../types';
+import { INITIAL_ELO } from '../constants';
+import { HALF_STARS } from './seedingCurve';
+import { letterboxdKey } from './filmIdentity';
+import { csvField } from './csv';
+
+// How a ranking is turned back into 0.5–5 stars
+export type StarStrategy = 'percentile' | 'cutoffs';
+
+export const STAR_STRATEGIES: { id: StarStrategy; label: string; description: string }[] = [
+  { id: 'percentile', label: 'Your Distribution', description: 'As many films at each star rating as you gave originally, handed out in ranking order.' },
+  { id: 'cutoffs', label: 'Fixed Cutoffs', description: 'Each 200 Elo is a star, with 1200 at 3★ (the inverse of the linear seeding curve).' }
+];
+
+export interface StarChange {
+  movie: Movie;
+  before?: number; // Stars on the film now (absent if unrated)
+  after: number;
+}
+
+/**
+ * Stars for an Elo on fixed cutoffs: 200 Elo a star around 1200 = 3★, to the nearest half.
+ */
+export const cutoffStars = (elo: number): number => {
+  const stars = Math.round((3 + (elo - INITIAL_ELO) / 200) * 2) / 2;
+  return Math.min(5, Math.max(0.5, stars));
+};
+
+/**
+ * Stars for every film in `ranked` (best first). 'percentile' gives each star
+ * rating the same share of the list it had among the original ratings, falling
+ * back to cutoffs if nothing was rated; 'cutoffs' reads each film's `score`.
+ */
+export const assignStars = (ranked: Movie[], strategy: StarStrategy, score: (m: Movie) => number): Map<string, number> => {
+  const stars = new Map<string, number>();
+  const original = ranked.map(m => m.rating).filter((r): r is number => !!r);
+
+  if (strategy === 'cutoffs' || original.length === 0) {
+    ranked.forEach(m => stars.set(m.id, cutoffStars(score(m))));
+    return stars;
+  }
+
+  // Share of original ratings at or below each half star
+  const cumulative = HALF_STARS.map(s => original.filter(r => r <= s).length / original.length);
+  const n = ranked.length;
+  ranked.forEach((m, i) => {
+    const quantile = (n - i - 0.5) / n; // Worst film is near 0, best near 1
+    const index = cumulative.findIndex(share => share >= quantile);
+    stars.set(m.id, HALF_STARS[index === -1 ? HALF_STARS.length - 1 : index]);
+  });
+  return stars;
+};
+
+/**
+ * Films whose stars would change (or that would get stars for the first time),
+ * biggest moves first.
+ */
+export const diffStars = (ranked: Movie[], stars: Map<string, number>): StarChange[] => {
+  return ranked
+    .map(movie => ({ movie, before: movie.rating, after: stars.get(movie.id) }))
+    .filter((change): change is typeof change & { after: number } => change.after !== undefined && change.before !== change.after)
+    .sort((a, b) => Math.abs(b.after - (b.before ?? b.after)) - Math.abs(a.after - (a.before ?? a.after)));
+};
+
+/**
+ * A CSV in Letterboxd's import format (Settings → Import & Export on letterboxd.com).
+ * Films are matched on LetterboxdURI or tmdbID where we have them, else Title and Year.
+ */
+export const toLetterboxdImportCSV = (movies: Movie[], stars: Map<string, number>): string => {
+  const headers = ['LetterboxdURI', 'tmdbID', 'Title', 'Year', 'Rating'];
+  const rows = movies.map(m => [letterboxdKey(m.uri) ? m.uri : '', m.tmdbId, m.name, m.year, stars.get(m.id)].map(csvField).join(','));
+  return [headers.join(','), ...rows].join('\n');
+};
+
+// One film in a ranked list export
+export interface ListEntry {
+  movie: Movie;
+  position: number; // 1-based, within the exported list
+  note: string; // Shown under the film on the list
+}
+
+/**
+ * A ranked list in the format Letterboxd's own list exports use, which its
+ * list importer reads back (Position keeps the order on a ranked list).
+ */
+export const toLetterboxdListCSV = (entries: ListEntry[]): string => {
+  const headers = ['Position', 'Name', 'Year', 'URL', 'Description'];
+  const rows = entries.map(({ movie, position, note }) =>
+    [position, movie.name, movie.year, letterboxdKey(movie.uri) ? movie.uri : '', note].map(csvField).join(',')
+  );
+  return [headers.join(','), ...rows].join('\n');
+};
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_SETTINGS, hydrateLibrary } from './libraryStorage';
+
+const storedFilm = { id: 'lb:2bfi', name: 'Alien', year: '1979', uri: 'https://boxd.it/2bfi', elo: 1250, matches: 0, wins: 0, losses: 0, history: [] };
+
+describe('hydrateLibrary', () => {
+  it('reads the original bare movie array format', () => {
+    const library = hydrateLibrary([{ ...storedFilm, id: 'Alien-1979-1', kFactor: 40, notes: { evil: true } }]);
+    expect(library.movies).toHaveLength(1);
+    expect(library.movies[0]).toMatchObject({ id: 'lb:2bfi', initialElo: 1250, rd: 350, volatility: 0.06, draws: 0 });
+    expect(library.movies[0]).not.toHaveProperty('kFactor');
+    expect(library.movies[0]).not.toHaveProperty('notes');
+    expect(library.settings).toEqual(DEFAULT_SETTINGS);
+    expect(library.matchLog).toEqual([]);
+  });
+
+  it('returns an empty library for data that isn\'t a library at all', () => {
+    [null, 42, 'library', { movies: 'nope' }].forEach(raw => {
+      expect(hydrateLibrary(raw)).toMatchObject({ movies: [], tournaments: [], definitiveList: null, importReports: [] });
+    });
+  });
+
+  it('drops unreadable films, votes and tournaments', () => {
+    const library = hydrateLibrary({
+      movies: [storedFilm, { id: 7, name: 'Heat' }, { ...storedFilm, id: 'tmdb:949', name: 'Heat', year: 1995, uri: undefined, tmdbId: '949', history: 'x' }],
+      matchLog: [
+        { id: 'e1', timestamp: 1, winnerId: 'lb:2bfi', loserId: 'tmdb:949', outcome: 'WIN' },
+        { id: 'e2', timestamp: 2, winnerId: 'lb:2bfi', loserId: 'tmdb:949', outcome: 'LOSE' }
+      ],
+      tournaments: [
+        { id: 't1', name: 'Cup', format: 'ROUND_ROBIN', entrantIds: ['a', 'b'], matches: [{ id: 'm', round: 0, slot: 0, aId: 'a', bId: 3, winnerId: null }], createdAt: 1 },
+        { id: 't2', name: 'Cup', format: 'KNOCKOUT', entrantIds: [], matches: [], createdAt: 1 }
+      ]
+    });
+    expect(library.movies.map(m => [m.id, m.year, m.history])).toEqual([['lb:2bfi', '1979', []], ['tmdb:949', '1995', []]]);
+    expect(library.matchLog.map(e => e.id)).toEqual(['e1']);
+    expect(library.tournaments).toEqual([]);
+  });
+
+  it('resets corrupt settings, definitive lists and import reports', () => {
+    const library = hydrateLibrary({
+      movies: [storedFilm],
+      settings: { ratingEngine: 'trueskill', pairCooldown: '5', convergenceGoal: { topN: 10 } },
+      definitiveList: { id: 'd', sortedIds: 'lb:2bfi', pendingIds: [] },
+      importReports: [
+        { id: 'r1', importedAt: 1, source: 'Letterboxd export', issues: [{ kind: 'DUPLICATE', action: 'MERGED', file: 'a.csv', detail: 'x' }, { kind: 'OOPS' }] },
+        'not a report'
+      ]
+    });
+    expect(library.settings).toEqual({ ...DEFAULT_SETTINGS, convergenceGoal: { ...DEFAULT_SETTINGS.convergenceGoal, topN: 10 } });
+    expect(library.definitiveList).toBeNull();
+    expect(library.importReports).toHaveLength(1);
+    expect(library.importReports[0]).toMatchObject({ files: [], imported: 0 });
+    expect(library.importReports[0].issues.map(i => i.kind)).toEqual(['DUPLICATE']);
+  });
+});
@@ -0,0 +1,294 @@
+import {
+  Movie,
+  MatchRecord,
+  MatchEvent,
+  LibrarySettings,
+  Tournament,
+  TournamentMatch,
+  DefinitiveList,
+  ImportReport,
+  ImportIssue,
+  ImportIssueKind,
+  RatingEngineId,
+  MatchmakingStrategyId,
+  VoteStrength
+} from '../types';
+import {
+  STORAGE_KEY,
+  SETTINGS_STORAGE_KEY,
+  MATCH_LOG_STORAGE_KEY,
+  TOURNAMENTS_STORAGE_KEY,
+  DEFINITIVE_LIST_STORAGE_KEY,
+  IMPORT_REPORTS_STORAGE_KEY,
+  DEFAULT_RATING_ENGINE,
+  DEFAULT_MATCHMAKING,
+  DEFAULT_PAIR_COOLDOWN,
+  INITIAL_VOLATILITY
+} from '../constants';
+import { getRatingEngine, inferInitialElo, restoreMovie } from './ratingEngine';
+import { estimateDeviation } from './glickoCalculator';
+import { FILM_STATUSES } from './filmStatus';
+import { buildLogFromHistory } from './matchLog';
+import { migrateFilmIds } from './filmIdentity';
+
+/**
+ * Everything that makes up one user's library.
+ */
+export interface LibraryData {
+  movies: Movie[];
+  settings: LibrarySettings;
+  matchLog: MatchEvent[];
+  tournaments: Tournament[];
+  definitiveList: DefinitiveList | null;
+  importReports: ImportReport[];
+}
+
+export const DEFAULT_SETTINGS: LibrarySettings = {
+  ratingEngine: DEFAULT_RATING_ENGINE,
+  matchmaking: DEFAULT_MATCHMAKING,
+  pairCooldown: DEFAULT_PAIR_COOLDOWN,
+  convergenceGoal: { topN: 25, stopWhenStable: false }
+};
+
+// Stored and cloud data is untrusted: every field is checked before it reaches the app
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString);
+const isNumberArray = (value: unknown): value is number[] => Array.isArray(value) && value.every(isNumber);
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+const isSlot = (value: unknown): value is string | null => value === null || isString(value);
+const optional = <T>(value: unknown, guard: (v: unknown) => v is T): T | undefined => (guard(value) ? value : undefined);
+const arrayOf = <T>(value: unknown, narrow: (item: unknown) => T | null): T[] =>
+  Array.isArray(value) ? value.map(narrow).filter((item): item is T => item !== null) : [];
+
+const RATING_ENGINE_IDS: RatingEngineId[] = ['elo', 'glicko2'];
+const MATCHMAKING_IDS: MatchmakingStrategyId[] = ['random', 'information'];
+const ISSUE_KINDS: ImportIssueKind[] = ['SKIPPED_FILE', 'MISSING_COLUMNS', 'MISSING_TITLE', 'MISSING_YEAR', 'BAD_RATING', 'DUPLICATE'];
+const ISSUE_ACTIONS: ImportIssue['action'][] = ['SKIPPED', 'KEPT', 'MERGED'];
+const VOTE_STRENGTHS: VoteStrength[] = ['SLIGHT', 'CLEAR', 'OVERWHELMING'];
+const oneOf = <T extends string>(options: readonly T[]) => (value: unknown): value is T => options.includes(value as T);
+
+const narrowMatchRecord = (raw: unknown): MatchRecord | null => {
+  if (!isRecord(raw) || !isString(raw.opponentId) || !isNumber(raw.timestamp) || !isNumber(raw.newElo)) return null;
+  if (raw.result !== 'WIN' && raw.result !== 'LOSS' && raw.result !== 'DRAW') return null;
+  return {
+    timestamp: raw.timestamp,
+    opponentId: raw.opponentId,
+    opponentName: isString(raw.opponentName) ? raw.opponentName : '',
+    result: raw.result,
+    eloChange: isNumber(raw.eloChange) ? raw.eloChange : 0,
+    newElo: raw.newElo,
+    opponentElo: optional(raw.opponentElo, isNumber),
+    strength: optional(raw.strength, oneOf(VOTE_STRENGTHS))
+  };
+};
+
+// Libraries saved before the seed and Glicko-2 fields existed get them inferred
+const narrowMovie = (raw: unknown): Movie | null => {
+  if (!isRecord(raw) || !isString(raw.id) || !isString(raw.name) || !isNumber(raw.elo)) return null;
+  const matches = isNumber(raw.matches) ? raw.matches : 0;
+  const history = arrayOf(raw.history, narrowMatchRecord);
+  return {
+    id: raw.id,
+    name: raw.name,
+    year: isString(raw.year) ? raw.year : isNumber(raw.year) ? String(raw.year) : '',
+    rating: optional(raw.rating, isNumber),
+    elo: raw.elo,
+    initialElo: optional(raw.initialElo, isNumber) ?? inferInitialElo(raw.elo, history),
+    rd: optional(raw.rd, isNumber) ?? estimateDeviation(matches),
+    volatility: optional(raw.volatility, isNumber) ?? INITIAL_VOLATILITY,
+    matches,
+    wins: isNumber(raw.wins) ? raw.wins : 0,
+    losses: isNumber(raw.losses) ? raw.losses : 0,
+    draws: isNumber(raw.draws) ? raw.draws : 0,
+    uri: optional(raw.uri, isString),
+    tmdbId: optional(raw.tmdbId, isString),
+    posterPath: optional(raw.posterPath, isString),
+    firstWatched: optional(raw.firstWatched, isString),
+    lastWatched: optional(raw.lastWatched, isString),
+    watchYears: optional(raw.watchYears, isNumberArray),
+    watchCount: optional(raw.watchCount, isNumber),
+    rewatchCount: optional(raw.rewatchCount, isNumber),
+    status: optional(raw.status, oneOf(FILM_STATUSES)),
+    history
+  };
+};
+
+const narrowMatchEvent = (raw: unknown): MatchEvent | null => {
+  if (!isRecord(raw) || !isString(raw.id) || !isNumber(raw.timestamp) || !isString(raw.winnerId) || !isString(raw.loserId)) return null;
+  if (raw.outcome !== 'WIN' && raw.outcome !== 'DRAW') return null;
+  const strength = optional(raw.strength, oneOf(VOTE_STRENGTHS));
+  return { id: raw.id, timestamp: raw.timestamp, winnerId: raw.winnerId, loserId: raw.loserId, outcome: raw.outcome, ...(strength ? { strength } : {}) };
+};
+
+const narrowSettings = (raw: unknown): LibrarySettings => {
+  if (!isRecord(raw)) return DEFAULT_SETTINGS;
+  const goal = isRecord(raw.convergenceGoal) ? raw.convergenceGoal : {};
+  return {
+    ratingEngine: optional(raw.ratingEngine, oneOf(RATING_ENGINE_IDS)) ?? DEFAULT_SETTINGS.ratingEngine,
+    matchmaking: optional(raw.matchmaking, oneOf(MATCHMAKING_IDS)) ?? DEFAULT_SETTINGS.matchmaking,
+    pairCooldown: isNumber(raw.pairCooldown) ? raw.pairCooldown : DEFAULT_SETTINGS.pairCooldown,
+    convergenceGoal: {
+      topN: isNumber(goal.topN) ? goal.topN : DEFAULT_SETTINGS.convergenceGoal.topN,
+      stopWhenStable: isBoolean(goal.stopWhenStable) ? goal.stopWhenStable : DEFAULT_SETTINGS.convergenceGoal.stopWhenStable
+    }
+  };
+};
+
+const narrowTournamentMatch = (raw: unknown): TournamentMatch | null => {
+  if (!isRecord(raw) || !isString(raw.id) || !isNumber(raw.round) || !isNumber(raw.slot)) return null;
+  if (!isSlot(raw.aId) || !isSlot(raw.bId) || !isSlot(raw.winnerId)) return null;
+  return {
+    id: raw.id,
+    round: raw.round,
+    slot: raw.slot,
+    aId: raw.aId,
+    bId: raw.bId,
+    winnerId: raw.winnerId,
+    isDraw: optional(raw.isDraw, isBoolean),
+    isBye: optional(raw.isBye, isBoolean),
+    eventId: optional(raw.eventId, isString)
+  };
+};
+
+// A tournament with any unreadable match is dropped whole; a partial bracket can't be played
+const narrowTournament = (raw: unknown): Tournament | null => {
+  if (!isRecord(raw) || !isString(raw.id) || !isString(raw.name) || !isStringArray(raw.entrantIds) || !isNumber(raw.createdAt)) return null;
+  if (raw.format !== 'SINGLE_ELIMINATION' && raw.format !== 'ROUND_ROBIN') return null;
+  if (!Array.isArray(raw.matches)) return null;
+  const matches = arrayOf(raw.matches, narrowTournamentMatch);
+  if (matches.length !== raw.matches.length) return null;
+  return {
+    id: raw.id,
+    name: raw.name,
+    format: raw.format,
+    entrantIds: raw.entrantIds,
+    matches,
+    createdAt: raw.createdAt,
+    completedAt: optional(raw.completedAt, isNumber),
+    championId: optional(raw.championId, isString)
+  };
+};
+
+const narrowDefinitiveList = (raw: unknown): DefinitiveList | null => {
+  if (!isRecord(raw) || !isString(raw.id) || !isStringArray(raw.sortedIds) || !isStringArray(raw.pendingIds)) return null;
+  const { size, low, high, asked, reused, startedAt } = raw;
+  if (!isNumber(size) || !isNumber(low) || !isNumber(high) || !isNumber(asked) || !isNumber(reused) || !isNumber(startedAt)) return null;
+  return {
+    id: raw.id,
+    size,
+    sortedIds: raw.sortedIds,
+    pendingIds: raw.pendingIds,
+    low,
+    high,
+    asked,
+    reused,
+    startedAt,
+    lockedAt: optional(raw.lockedAt, isNumber)
+  };
+};
+
+const narrowImportIssue = (raw: unknown): ImportIssue | null => {
+  if (!isRecord(raw) || !isString(raw.file) || !isString(raw.detail)) return null;
+  const kind = optional(raw.kind, oneOf(ISSUE_KINDS));
+  const action = optional(raw.action, oneOf(ISSUE_ACTIONS));
+  if (!kind || !action) return null;
+  return {
+    kind,
+    action,
+    file: raw.file,
+    row: optional(raw.row, isNumber),
+    data: optional(raw.data, isStringArray),
+    detail: raw.detail
+  };
+};
+
+const narrowImportReport = (raw: unknown): ImportReport | null => {
+  if (!isRecord(raw) || !isString(raw.id) || !isNumber(raw.importedAt) || !isString(raw.source)) return null;
+  const count = (value: unknown) => (isNumber(value) ? value : 0);
+  return {
+    id: raw.id,
+    importedAt: raw.importedAt,
+    source: raw.source,
+    files: isStringArray(raw.files) ? raw.files : [],
+    imported: count(raw.imported),
+    updated: count(raw.updated),
+    merged: count(raw.merged),
+    skipped: count(raw.skipped),
+    issues: arrayOf(raw.issues, narrowImportIssue),
+    truncatedIssues: optional(raw.truncatedIssues, isNumber)
+  };
+};
+
+/**
+ * Normalizes stored library data of any age into the current shape.
+ * Accepts a bare movie array (the original save format) or a partial LibraryData.
+ * Anything unreadable is dropped or reset to its default rather than passed on.
+ * Libraries saved before the match log existed get one rebuilt from their film histories,
+ * and films still on row-based ids are moved to stable ones.
+ */
+export const hydrateLibrary = (raw: unknown): LibraryData => {
+  const stored = isRecord(raw) ? raw : {};
+  const settings = narrowSettings(stored.settings);
+  const engine = getRatingEngine(settings.ratingEngine);
+  const movies = arrayOf(Array.isArray(raw) ? raw : stored.movies, narrowMovie).map(m => restoreMovie(m, engine));
+  const matchLog = Array.isArray(stored.matchLog)
+    ? arrayOf(stored.matchLog, narrowMatchEvent)
+    : buildLogFromHistory(movies);
+  const tournaments = arrayOf(stored.tournaments, narrowTournament);
+  const definitiveList = narrowDefinitiveList(stored.definitiveList);
+  const importReports = arrayOf(stored.importReports, narrowImportReport);
+
+  return migrateFilmIds({ movies, settings, matchLog, tournaments, definitiveList, importReports });
+};
+
+export const loadLocalLibrary = (): LibraryData | null => {
+  const savedData = localStorage.getItem(STORAGE_KEY);
+  if (!savedData) return null;
+
+  const movies = JSON.parse(savedData);
+  if (!Array.isArray(movies) || movies.length === 0) return null;
+
+  const savedSettings = localStorage.getItem(SETTINGS_STORAGE_KEY);
+  const savedLog = localStorage.getItem(MATCH_LOG_STORAGE_KEY);
+  const savedTournaments = localStorage.getItem(TOURNAMENTS_STORAGE_KEY);
+  const savedDefinitiveList = localStorage.getItem(DEFINITIVE_LIST_STORAGE_KEY);
+  const savedReports = localStorage.getItem(IMPORT_REPORTS_STORAGE_KEY);
+
+  return hydrateLibrary({
+    movies,
+    settings: savedSettings ? JSON.parse(savedSettings) : undefined,
+    matchLog: savedLog ? JSON.parse(savedLog) : undefined,
+    tournaments: savedTournaments ? JSON.parse(savedTournaments) : undefined,
+    definitiveList: savedDefinitiveList ? JSON.parse(savedDefinitiveList) : undefined,
+    importReports: savedReports ? JSON.parse(savedReports) : undefined
+  });
+};
+
+export const saveLocalLibrary = (library: LibraryData) => {
+  if (library.movies.length === 0) {
+    clearLocalLibrary();
+    return;
+  }
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(library.movies));
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(library.settings));
+  localStorage.setItem(MATCH_LOG_STORAGE_KEY, JSON.stringify(library.matchLog));
+  localStorage.setItem(TOURNAMENTS_STORAGE_KEY, JSON.stringify(library.tournaments));
+  localStorage.setItem(IMPORT_REPORTS_STORAGE_KEY, JSON.stringify(library.importReports));
+  if (library.definitiveList) {
+    localStorage.setItem(DEFINITIVE_LIST_STORAGE_KEY, JSON.stringify(library.definitiveList));
+  } else {
+    localStorage.removeItem(DEFINITIVE_LIST_STORAGE_KEY);
+  }
+};
+
+export const clearLocalLibrary = () => {
+  localStorage.removeItem(STORAGE_KEY);
+  localStorage.removeItem(SETTINGS_STORAGE_KEY);
+  localStorage.removeItem(MATCH_LOG_STORAGE_KEY);
+  localStorage.removeItem(TOURNAMENTS_STORAGE_KEY);
+  localStorage.removeItem(DEFINITIVE_LIST_STORAGE_KEY);
+  localStorage.removeItem(IMPORT_REPORTS_STORAGE_KEY);
+};
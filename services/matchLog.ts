@@ -0,0 +1,103 @@
+import { Movie, MatchEvent, MatchOutcome, VoteStrength } from '../types';
+import { RatingEngine, updateMovieStats } from './ratingEngine';
+
+/**
+ * Creates a new event for the match log.
+ */
+export const createMatchEvent = (
+  winnerId: string,
+  loserId: string,
+  outcome: MatchOutcome = 'WIN',
+  timestamp: number = Date.now(),
+  strength?: VoteStrength
+): MatchEvent => ({
+  id: `${timestamp.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  timestamp,
+  winnerId,
+  loserId,
+  outcome,
+  ...(outcome === 'WIN' && strength ? { strength } : {})
+});
+
+/**
+ * Reconstructs a match log from the per-film history arrays of libraries
+ * saved before the log existed. Each match was written to both films, so
+ * wins are read from the winner's side and draws are de-duplicated.
+ */
+export const buildLogFromHistory = (movies: Movie[]): MatchEvent[] => {
+  const events: MatchEvent[] = [];
+  const seenDraws = new Set<string>();
+
+  movies.forEach(m => {
+    (m.history || []).forEach(match => {
+      if (match.result === 'WIN') {
+        events.push(createMatchEvent(m.id, match.opponentId, 'WIN', match.timestamp, match.strength));
+      } else if (match.result === 'DRAW') {
+        const key = `${match.timestamp}|${[m.id, match.opponentId].sort().join('|')}`;
+        if (seenDraws.has(key)) return;
+        seenDraws.add(key);
+        events.push(createMatchEvent(m.id, match.opponentId, 'DRAW', match.timestamp));
+      }
+    });
+  });
+
+  // Stable sort keeps same-timestamp events in discovery order
+  return events.sort((a, b) => a.timestamp - b.timestamp);
+};
+
+/**
+ * Converts a best-to-worst ordering of films into its implied pairwise results:
+ * every film beats every film ranked below it.
+ */
+export const rankingToMatchEvents = (orderedIds: string[], timestamp: number = Date.now()): MatchEvent[] => {
+  const events: MatchEvent[] = [];
+  for (let i = 0; i < orderedIds.length; i++) {
+    for (let j = i + 1; j < orderedIds.length; j++) {
+      events.push(createMatchEvent(orderedIds[i], orderedIds[j], 'WIN', timestamp));
+    }
+  }
+  return events;
+};
+
+/**
+ * Applies events, in order, on top of the films' current state.
+ * Events that reference films no longer in the library are skipped.
+ */
+export const applyMatchEvents = (movies: Movie[], events: MatchEvent[], engine: RatingEngine): Movie[] => {
+  const byId = new Map<string, Movie>();
+  movies.forEach(m => byId.set(m.id, m));
+
+  events.forEach(event => {
+    const winner = byId.get(event.winnerId);
+    const loser = byId.get(event.loserId);
+    if (!winner || !loser || winner.id === loser.id) return;
+
+    const result = updateMovieStats(winner, loser, engine, {
+      outcome: event.outcome,
+      strength: event.strength,
+      timestamp: event.timestamp
+    });
+    byId.set(winner.id, result.winner);
+    byId.set(loser.id, result.loser);
+  });
+
+  return movies.map(m => byId.get(m.id)!);
+};
+
+/**
+ * Rebuilds every film's rating, record and history by replaying the log from
+ * each film's seed rating. Deterministic: same movies + log + engine = same result.
+ */
+export const replayMatchLog = (movies: Movie[], log: MatchEvent[], engine: RatingEngine): Movie[] => {
+  const seeded = movies.map(m => ({
+    ...m,
+    ...engine.initialState(m.initialElo),
+    matches: 0,
+    wins: 0,
+    losses: 0,
+    draws: 0,
+    history: []
+  }));
+
+  return applyMatchEvents(seeded, log, engine);
+};
@@ -0,0 +1,188 @@
+import { Movie, MatchmakingStrategyId } from '../types';
+import { INITIAL_RD, DEFAULT_MATCHMAKING } from '../constants';
+import type { RatingEngine } from './ratingEngine';
+import { PairHistory, pairKey, getPairWeight } from './pairHistory';
+
+export interface MatchmakingContext {
+  engine: RatingEngine;
+  history: PairHistory;
+  /** Votes a pair sits out after being compared (0 = no cooldown). */
+  cooldown: number;
+  /** Pair keys shown or queued but not in the log (skips, the queue); kept out like a cooldown. */
+  pendingPairs: string[];
+}
+
+/**
+ * A way of choosing which two films the arena shows next.
+ * Returns indices into `movies`.
+ */
+export interface MatchmakingStrategy {
+  id: MatchmakingStrategyId;
+  label: string;
+  description: string;
+  pickPair: (movies: Movie[], context: MatchmakingContext) => [number, number];
+}
+
+const randomIndex = (length: number) => Math.floor(Math.random() * length);
+
+// Weight of a pair given the history and anything pending (0 = on cooldown)
+const weighPair = (a: Movie, b: Movie, { history, cooldown, pendingPairs }: MatchmakingContext): number => {
+  const key = pairKey(a.id, b.id);
+  if (pendingPairs.includes(key)) return 0;
+  return getPairWeight(history, key, cooldown);
+};
+
+const MAX_ATTEMPTS = 20;
+
+/**
+ * The original picker: a random film, and 40% of the time an opponent with a
+ * similar Elo from a small random sample. Redraws pairs that are on cooldown.
+ */
+const pickRandomPair = (movies: Movie[], context: MatchmakingContext): [number, number] => {
+  let pair = drawRandomPair(movies);
+  for (let attempt = 1; attempt < MAX_ATTEMPTS && weighPair(movies[pair[0]], movies[pair[1]], context) === 0; attempt++) {
+    pair = drawRandomPair(movies);
+  }
+  return pair;
+};
+
+const drawRandomPair = (movies: Movie[]): [number, number] => {
+  if (movies.length < 2) return [0, 0];
+
+  const idx1 = randomIndex(movies.length);
+  let idx2 = randomIndex(movies.length);
+
+  // 40% chance smart pairing (match similar Elos)
+  const useSmartPairing = Math.random() > 0.6;
+
+  if (useSmartPairing) {
+    const targetElo = movies[idx1].elo;
+    // Optimization: Sample a subset instead of sorting entire array for performance
+    const candidates: {idx: number, diff: number}[] = [];
+    const attempts = Math.min(movies.length - 1, 20); // Try 20 random candidates
+
+    for (let i = 0; i < attempts; i++) {
+      const r = randomIndex(movies.length);
+      if (r !== idx1) {
+        candidates.push({ idx: r, diff: Math.abs(movies[r].elo - targetElo) });
+      }
+    }
+
+    candidates.sort((a, b) => a.diff - b.diff);
+    if (candidates.length > 0) {
+      // Pick from the top 3 closest matches to keep it slightly varied
+      const pool = candidates.slice(0, 3);
+      idx2 = pool[randomIndex(pool.length)].idx;
+    }
+  }
+
+  // Fallback: Ensure not same
+  let safety = 0;
+  while (idx1 === idx2 && safety < 100) {
+    idx2 = randomIndex(movies.length);
+    safety++;
+  }
+
+  return [idx1, idx2];
+};
+
+const ANCHOR_SAMPLES = 8;
+const BLOCKED_WEIGHT = 0.001; // Only wins when every candidate is on cooldown
+const NEIGHBOUR_SPAN = 6; // Films either side of the anchor in Elo order
+const RANDOM_OPPONENTS = 6;
+
+/**
+ * Expected information from comparing a and b.
+ * One comparison carries p(1-p) of Fisher information about the rating gap
+ * (highest at a coin flip), and is worth more the less sure we are of either film.
+ */
+export const pairInformation = (a: Movie, b: Movie, engine: RatingEngine): number => {
+  const p = engine.expectedScore(a, b);
+  const uncertainty = (a.rd * a.rd + b.rd * b.rd) / (2 * INITIAL_RD * INITIAL_RD);
+  return p * (1 - p) * uncertainty;
+};
+
+/**
+ * Active-learning picker. Samples anchors weighted by uncertainty, scores each
+ * against its Elo neighbours and a few random films, and favours the most
+ * informative pair that isn't on cooldown or already worn out.
+ */
+const pickInformativePair = (movies: Movie[], context: MatchmakingContext): [number, number] => {
+  if (movies.length < 2) return [0, 0];
+  const { engine, history, pendingPairs } = context;
+
+  // Films in the last couple of pairs get a rest so the same poster doesn't repeat
+  const justSeen = new Set<string>();
+  [...history.latest, ...pendingPairs].slice(-2).forEach(key => key.split('|').forEach(id => justSeen.add(id)));
+
+  const byElo = movies.map((_, i) => i).sort((a, b) => movies[a].elo - movies[b].elo);
+  const eloPosition = new Map<number, number>();
+  byElo.forEach((idx, pos) => eloPosition.set(idx, pos));
+
+  // Roulette-wheel anchor sampling on variance
+  const weights = movies.map(m => m.rd * m.rd);
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  const sampleAnchor = () => {
+    let r = Math.random() * totalWeight;
+    for (let i = 0; i < weights.length; i++) {
+      r -= weights[i];
+      if (r <= 0) return i;
+    }
+    return randomIndex(movies.length);
+  };
+
+  const scored: { pair: [number, number]; score: number }[] = [];
+  const considered = new Set<string>();
+
+  for (let a = 0; a < ANCHOR_SAMPLES; a++) {
+    const anchor = sampleAnchor();
+    const pos = eloPosition.get(anchor)!;
+    const opponents: number[] = [];
+    for (let p = Math.max(0, pos - NEIGHBOUR_SPAN); p <= Math.min(byElo.length - 1, pos + NEIGHBOUR_SPAN); p++) {
+      opponents.push(byElo[p]);
+    }
+    for (let r = 0; r < RANDOM_OPPONENTS; r++) opponents.push(randomIndex(movies.length));
+
+    for (const opp of opponents) {
+      if (opp === anchor) continue;
+      const key = pairKey(movies[anchor].id, movies[opp].id);
+      if (considered.has(key)) continue;
+      considered.add(key);
+
+      let score = pairInformation(movies[anchor], movies[opp], engine);
+      score *= Math.max(weighPair(movies[anchor], movies[opp], context), BLOCKED_WEIGHT);
+      if (justSeen.has(movies[anchor].id) || justSeen.has(movies[opp].id)) score *= 0.5;
+
+      scored.push({ pair: [anchor, opp], score });
+    }
+  }
+
+  if (scored.length === 0) return pickRandomPair(movies, context);
+
+  // Pick among the top 3 to keep it slightly varied (but never a much worse pair)
+  scored.sort((x, y) => y.score - x.score);
+  const pool = scored.slice(0, 3).filter(x => x.score >= scored[0].score / 4);
+  const pick = pool[randomIndex(pool.length)].pair;
+  // Randomize which side each film appears on
+  return Math.random() < 0.5 ? pick : [pick[1], pick[0]];
+};
+
+export const MATCHMAKING_STRATEGIES: MatchmakingStrategy[] = [
+  {
+    id: 'information',
+    label: 'Smart',
+    description: 'Shows the pairs your vote tells us most about: uncertain films, close calls, nothing you just compared.',
+    pickPair: pickInformativePair
+  },
+  {
+    id: 'random',
+    label: 'Random',
+    description: 'A random film against a random or similarly rated opponent. More variety, slower to settle.',
+    pickPair: pickRandomPair
+  }
+];
+
+export const getMatchmakingStrategy = (id: MatchmakingStrategyId | undefined): MatchmakingStrategy => {
+  return MATCHMAKING_STRATEGIES.find(s => s.id === id)
+    || MATCHMAKING_STRATEGIES.find(s => s.id === DEFAULT_MATCHMAKING)!;
+};
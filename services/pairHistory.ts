@@ -0,0 +1,81 @@
+import { MatchEvent } from '../types';
+
+/**
+ * Everything the match log says about one pair of films.
+ */
+export interface PairRecord {
+  count: number;
+  wins: Record<string, number>; // Film id -> decisive wins in this pair
+  draws: number;
+  lastIndex: number; // Position of the latest comparison in the log
+}
+
+export interface PairHistory {
+  pairs: Map<string, PairRecord>;
+  total: number; // Events indexed
+  latest: string[]; // Keys of the last few comparisons, oldest first
+}
+
+const LATEST_KEPT = 4;
+
+// Order-independent key for a pair of films
+export const pairKey = (idA: string, idB: string): string => {
+  return idA < idB ? `${idA}|${idB}` : `${idB}|${idA}`;
+};
+
+/**
+ * Indexes the match log by pair.
+ */
+export const buildPairHistory = (log: MatchEvent[]): PairHistory => {
+  const pairs = new Map<string, PairRecord>();
+
+  log.forEach((event, index) => {
+    const key = pairKey(event.winnerId, event.loserId);
+    const record = pairs.get(key) || { count: 0, wins: {}, draws: 0, lastIndex: index };
+    record.count++;
+    record.lastIndex = index;
+    if (event.outcome === 'DRAW') {
+      record.draws++;
+    } else {
+      record.wins[event.winnerId] = (record.wins[event.winnerId] || 0) + 1;
+    }
+    pairs.set(key, record);
+  });
+
+  return {
+    pairs,
+    total: log.length,
+    latest: log.slice(-LATEST_KEPT).map(e => pairKey(e.winnerId, e.loserId))
+  };
+};
+
+export const getPairRecord = (history: PairHistory, idA: string, idB: string): PairRecord | undefined => {
+  return history.pairs.get(pairKey(idA, idB));
+};
+
+/**
+ * How many votes have been cast since this pair was last compared.
+ */
+export const votesSince = (history: PairHistory, record: PairRecord): number => {
+  return history.total - 1 - record.lastIndex;
+};
+
+/**
+ * Weight (0–1) a matchmaker should give a pair. Pairs compared within the last
+ * `cooldown` votes are blocked; outside it, each previous comparison halves the weight.
+ */
+export const getPairWeight = (history: PairHistory, key: string, cooldown: number): number => {
+  const record = history.pairs.get(key);
+  if (!record) return 1;
+  if (cooldown > 0 && votesSince(history, record) < cooldown) return 0;
+  return 1 / 2 ** record.count;
+};
+
+/**
+ * "3–0", "2–1 (1 draw)" etc. from `idA`'s point of view.
+ */
+export const formatPairScore = (record: PairRecord, idA: string, idB: string): string => {
+  const score = `${record.wins[idA] || 0}–${record.wins[idB] || 0}`;
+  if (record.draws === 0) return score;
+  return `${score} (${record.draws} draw${record.draws === 1 ? '' : 's'})`;
+};
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { Movie, MatchEvent } from '../types';
+import { makeMovie } from './testFixtures';
+import { getRatingEngine } from './ratingEngine';
+import { applyMatchEvents, createMatchEvent, replayMatchLog } from './matchLog';
+import {
+  advancePlacement,
+  getPlacedRank,
+  getPlacementReference,
+  isPlacementDone,
+  seedPlacedFilm,
+  startPlacement
+} from './placement';
+
+const engine = getRatingEngine('elo');
+
+describe('placement', () => {
+  it('binary-searches the established films', () => {
+    const movies = [
+      makeMovie({ id: 'new' }),
+      makeMovie({ id: 'a', elo: 1400, matches: 6 }),
+      makeMovie({ id: 'b', elo: 1300, matches: 6 }),
+      makeMovie({ id: 'c', elo: 1100, matches: 6 })
+    ];
+    let state = startPlacement(movies)!;
+    expect(state.ladder).toEqual(['a', 'b', 'c']);
+    state = advancePlacement(state, 'LOSS');
+    state = advancePlacement(state, 'WIN');
+    expect(isPlacementDone(state)).toBe(true);
+    expect(state.low).toBe(2);
+  });
+
+  it('ranks a placed film among the films on the leaderboard', () => {
+    const movies = [
+      makeMovie({ id: 'new', elo: 1210, matches: 2 }),
+      makeMovie({ id: 'a', elo: 1400, matches: 6 }),
+      makeMovie({ id: 'b', elo: 1300, matches: 6 }),
+      makeMovie({ id: 'c', elo: 1100, matches: 6 }),
+      makeMovie({ id: 'd', elo: 1500, matches: 6, status: 'HIDDEN' })
+    ];
+    expect(getPlacedRank(movies, 'new')).toEqual({ rank: 3, total: 4 });
+  });
+
+  it('seeds the placed film into the slot its votes found', () => {
+    let log: MatchEvent[] = [createMatchEvent('a', 'b', 'WIN', 1), createMatchEvent('c', 'd', 'WIN', 2)];
+    let movies: Movie[] = applyMatchEvents([
+      makeMovie({ id: 'new' }),
+      makeMovie({ id: 'a', elo: 1600 }),
+      makeMovie({ id: 'b', elo: 1450 }),
+      makeMovie({ id: 'c', elo: 1350 }),
+      makeMovie({ id: 'd', elo: 900 })
+    ], log, engine);
+
+    // The new film belongs just below the second reference
+    let state = startPlacement(movies)!;
+    while (!isPlacementDone(state)) {
+      const referenceId = getPlacementReference(state)!;
+      const wins = state.ladder.indexOf(referenceId) >= 2;
+      const event = createMatchEvent(wins ? 'new' : referenceId, wins ? referenceId : 'new', 'WIN', 10 + log.length);
+      log = [...log, event];
+      movies = applyMatchEvents(movies, [event], engine);
+      state = advancePlacement(state, wins ? 'WIN' : 'LOSS');
+    }
+    expect(state.low).toBe(2);
+    expect(getPlacedRank(movies, 'new').rank).not.toBe(state.low + 1);
+
+    const placed = seedPlacedFilm(movies, log, state, engine);
+    expect(getPlacedRank(placed, 'new')).toEqual({ rank: state.low + 1, total: 5 });
+    // The seed is a starting rating, so the log still replays to the same place
+    expect(replayMatchLog(placed, log, engine).map(m => m.elo)).toEqual(placed.map(m => m.elo));
+  });
+});
@@ -0,0 +1,154 @@
+import { Movie, MatchEvent } from '../types';
+import type { RatingEngine } from './ratingEngine';
+import { isInArena, isOnLeaderboard } from './filmStatus';
+import { replayMatchLog } from './matchLog';
+
+// Films with at least this many matches can serve as reference points
+export const PLACEMENT_MIN_REFERENCE_MATCHES = 5;
+// How far past the best (or worst) reference a film placed above (or below) everything lands
+export const PLACEMENT_EDGE_GAP = 50;
+// Replays allowed to settle a placed film's seed; each one roughly halves the miss
+const SEED_ROUNDS = 8;
+
+/**
+ * An in-progress binary search for one new film's spot in the ranking.
+ * The film belongs somewhere in ladder slots [low, high]; slot i means
+ * "just above ladder[i]" and slot ladder.length means "below everything".
+ */
+export interface PlacementState {
+  filmId: string;
+  ladder: string[]; // Reference film ids, best first
+  low: number;
+  high: number;
+  votes: number;
+}
+
+// The new film's result against the current reference
+export type PlacementResult = 'WIN' | 'LOSS' | 'DRAW';
+
+/**
+ * Films nobody has voted on yet, in library order (excluded films don't count).
+ */
+export const getUnplacedMovies = (movies: Movie[]): Movie[] => {
+  return movies.filter(m => m.matches === 0 && isInArena(m));
+};
+
+/**
+ * Established films ranked best first. Falls back to every film that has
+ * played at all when too few are established to search over.
+ */
+const buildLadder = (movies: Movie[], filmId: string): string[] => {
+  const others = movies.filter(m => m.id !== filmId && m.matches > 0 && isInArena(m));
+  const established = others.filter(m => m.matches >= PLACEMENT_MIN_REFERENCE_MATCHES);
+  const pool = established.length >= 2 ? established : others;
+  return [...pool].sort((a, b) => b.elo - a.elo).map(m => m.id);
+};
+
+/**
+ * Starts placing the first unplaced film not in `deferredIds`
+ * (and, when `candidateIds` is given, among those films only).
+ * Returns null when there is nothing to place or nothing to compare against.
+ */
+export const startPlacement = (movies: Movie[], deferredIds: string[] = [], candidateIds?: string[]): PlacementState | null => {
+  const film = getUnplacedMovies(movies).find(m =>
+    !deferredIds.includes(m.id) && (!candidateIds || candidateIds.includes(m.id))
+  );
+  if (!film) return null;
+
+  const ladder = buildLadder(movies, film.id);
+  if (ladder.length === 0) return null;
+
+  return { filmId: film.id, ladder, low: 0, high: ladder.length, votes: 0 };
+};
+
+export const isPlacementDone = (state: PlacementState): boolean => state.low >= state.high;
+
+/**
+ * The reference film to compare against next: the middle of the remaining range.
+ */
+export const getPlacementReference = (state: PlacementState): string | null => {
+  if (isPlacementDone(state)) return null;
+  return state.ladder[Math.floor((state.low + state.high) / 2)];
+};
+
+/**
+ * Narrows the search after a vote. A win means the film belongs above the
+ * reference, a loss below it, and a draw settles it right next to it.
+ */
+export const advancePlacement = (state: PlacementState, result: PlacementResult): PlacementState => {
+  const mid = Math.floor((state.low + state.high) / 2);
+  const votes = state.votes + 1;
+
+  if (result === 'WIN') return { ...state, high: mid, votes };
+  if (result === 'LOSS') return { ...state, low: mid + 1, votes };
+  return { ...state, low: mid + 1, high: mid + 1, votes };
+};
+
+/**
+ * Takes a reference out of the search (e.g. it was excluded mid-placement),
+ * keeping the remaining range pointing at the same films.
+ */
+export const dropPlacementReference = (state: PlacementState, referenceId: string): PlacementState => {
+  const index = state.ladder.indexOf(referenceId);
+  if (index === -1) return state;
+  const ladder = state.ladder.filter(id => id !== referenceId);
+  return {
+    ...state,
+    ladder,
+    low: index < state.low ? state.low - 1 : state.low,
+    high: index < state.high ? state.high - 1 : state.high
+  };
+};
+
+/**
+ * The Elo that puts a placed film in the slot the search found: halfway between
+ * the references either side of it, or PLACEMENT_EDGE_GAP past the end ones.
+ * Null while the search is still running or a neighbouring reference is gone.
+ */
+export const getSlotElo = (state: PlacementState, movies: Movie[]): number | null => {
+  if (!isPlacementDone(state)) return null;
+  const eloOf = (index: number) => movies.find(m => m.id === state.ladder[index])?.elo;
+  const above = state.low > 0 ? eloOf(state.low - 1) : undefined;
+  const below = state.low < state.ladder.length ? eloOf(state.low) : undefined;
+  if (above !== undefined && below !== undefined) return (above + below) / 2;
+  if (above !== undefined) return above - PLACEMENT_EDGE_GAP;
+  if (below !== undefined) return below + PLACEMENT_EDGE_GAP;
+  return null;
+};
+
+/**
+ * Seeds a placed film so it ranks in the slot its votes found. Its starting Elo
+ * moves and the log is replayed; the placement votes still shift it on the way,
+ * so the seed is corrected until the replayed rating lands in the slot.
+ */
+export const seedPlacedFilm = (movies: Movie[], log: MatchEvent[], state: PlacementState, engine: RatingEngine): Movie[] => {
+  let seeded = movies;
+  for (let round = 0; round < SEED_ROUNDS; round++) {
+    const target = getSlotElo(state, seeded);
+    const film = seeded.find(m => m.id === state.filmId);
+    if (!film || target === null || Math.abs(target - film.elo) < 1) break;
+    const miss = target - film.elo;
+    seeded = replayMatchLog(
+      seeded.map(m => (m.id === film.id ? { ...m, initialElo: Math.round(m.initialElo + miss) } : m)),
+      log,
+      engine
+    );
+  }
+  return seeded;
+};
+
+/**
+ * Where the film stands once it's placed: its 1-based Elo rank on the
+ * leaderboard, out of every film there.
+ */
+export const getPlacedRank = (movies: Movie[], filmId: string): { rank: number; total: number } => {
+  const ranked = movies.filter(isOnLeaderboard).sort((a, b) => b.elo - a.elo);
+  return { rank: ranked.findIndex(m => m.id === filmId) + 1, total: ranked.length };
+};
+
+/**
+ * Worst-case number of votes to place one film against `ladderSize` references.
+ */
+export const estimatePlacementVotes = (ladderSize: number): number => {
+  return Math.ceil(Math.log2(ladderSize + 1));
+};
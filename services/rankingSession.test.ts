@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { makeMovie } from './testFixtures';
+import { applySessionFilter, getDiaryYears, wasWatchedIn } from './rankingSession';
+
+describe('watched-in filters', () => {
+  const rewatched = makeMovie({ id: 'heat', firstWatched: '2021-03-01', lastWatched: '2023-07-01', watchYears: [2021, 2022, 2023] });
+  const legacy = makeMovie({ id: 'alien', firstWatched: '2020-01-01', lastWatched: '2024-01-01' });
+
+  it('sees a rewatch between the first and last viewing', () => {
+    expect(wasWatchedIn(rewatched, 2022)).toBe(true);
+    expect(applySessionFilter([rewatched, legacy], { kind: 'WATCHED_IN', year: 2022 }).map(m => m.id)).toEqual(['heat']);
+  });
+
+  it('falls back to the first and last viewing for films without watch years', () => {
+    expect(wasWatchedIn(legacy, 2024)).toBe(true);
+    expect(wasWatchedIn(legacy, 2022)).toBe(false);
+    expect(getDiaryYears([rewatched, legacy])).toEqual([2024, 2023, 2022, 2021, 2020]);
+  });
+});
@@ -0,0 +1,117 @@
+import { Movie, MatchEvent, SessionFilter, RankingSession } from '../types';
+
+export const ALL_FILMS: SessionFilter = { kind: 'ALL' };
+
+const parseYear = (year: string): number => parseInt(year, 10);
+
+/**
+ * Whether the diary has the film watched in `year`. Libraries imported before
+ * every watch year was kept only know the first and last viewings.
+ */
+export const wasWatchedIn = (movie: Movie, year: number): boolean => {
+  if (movie.watchYears) return movie.watchYears.includes(year);
+  const prefix = `${year}-`;
+  return !!(movie.firstWatched?.startsWith(prefix) || movie.lastWatched?.startsWith(prefix));
+};
+
+/**
+ * Films a filter selects right now. "Top N" ranks by live Elo.
+ */
+export const applySessionFilter = (movies: Movie[], filter: SessionFilter): Movie[] => {
+  switch (filter.kind) {
+    case 'ALL':
+      return movies;
+    case 'DECADE':
+      return movies.filter(m => {
+        const year = parseYear(m.year);
+        return year >= filter.decade && year < filter.decade + 10;
+      });
+    case 'YEAR_RANGE':
+      return movies.filter(m => {
+        const year = parseYear(m.year);
+        return year >= filter.from && year <= filter.to;
+      });
+    case 'TOP':
+      return [...movies].sort((a, b) => b.elo - a.elo).slice(0, filter.count);
+    case 'FEW_MATCHES':
+      return movies.filter(m => m.matches < filter.below);
+    case 'SEARCH': {
+      const term = filter.term.trim().toLowerCase();
+      return movies.filter(m => m.name.toLowerCase().includes(term) || m.year.includes(term));
+    }
+    case 'WATCHED_IN':
+      return movies.filter(m => wasWatchedIn(m, filter.year));
+  }
+};
+
+export const describeSessionFilter = (filter: SessionFilter): string => {
+  switch (filter.kind) {
+    case 'ALL': return 'Whole Library';
+    case 'DECADE': return `The ${filter.decade}s`;
+    case 'YEAR_RANGE': return `${filter.from}–${filter.to}`;
+    case 'TOP': return `Top ${filter.count}`;
+    case 'FEW_MATCHES': return `Under ${filter.below} Matches`;
+    case 'SEARCH': return `"${filter.term.trim()}"`;
+    case 'WATCHED_IN': return `Watched in ${filter.year}`;
+  }
+};
+
+/**
+ * Starts a session. The subset is fixed at this point so films don't drift
+ * in and out (e.g. of the top 50) while you vote on them.
+ * Returns null for the whole library, which needs no session.
+ */
+export const createSession = (movies: Movie[], filter: SessionFilter, now: number = Date.now()): RankingSession | null => {
+  if (filter.kind === 'ALL') return null;
+  return {
+    filter,
+    filmIds: applySessionFilter(movies, filter).map(m => m.id),
+    startedAt: now
+  };
+};
+
+/**
+ * Indices into `movies` of the films in the session (every film when there is none).
+ */
+export const getSessionIndices = (movies: Movie[], session: RankingSession | null): number[] => {
+  if (!session) return movies.map((_, i) => i);
+  const ids = new Set(session.filmIds);
+  return movies.reduce<number[]>((acc, m, i) => {
+    if (ids.has(m.id)) acc.push(i);
+    return acc;
+  }, []);
+};
+
+/**
+ * Votes cast since the session started between two of its films.
+ */
+export const countSessionVotes = (session: RankingSession, log: MatchEvent[]): number => {
+  const ids = new Set(session.filmIds);
+  return log.filter(e => e.timestamp >= session.startedAt && ids.has(e.winnerId) && ids.has(e.loserId)).length;
+};
+
+/**
+ * Years with a logged viewing, newest first.
+ */
+export const getDiaryYears = (movies: Movie[]): number[] => {
+  const years = new Set<number>();
+  movies.forEach(m => {
+    m.watchYears?.forEach(year => years.add(year));
+    [m.firstWatched, m.lastWatched].forEach(date => {
+      if (date) years.add(parseYear(date.slice(0, 4)));
+    });
+  });
+  return Array.from(years).sort((a, b) => b - a);
+};
+
+/**
+ * Decades present in the library, oldest first.
+ */
+export const getLibraryDecades = (movies: Movie[]): number[] => {
+  const decades = new Set<number>();
+  movies.forEach(m => {
+    const year = parseYear(m.year);
+    if (!isNaN(year)) decades.add(Math.floor(year / 10) * 10);
+  });
+  return Array.from(decades).sort((a, b) => a - b);
+};
@@ -0,0 +1,143 @@
+import { Movie, MatchRecord, MatchOutcome, VoteStrength, RatingEngineId, EngineState } from '../types';
+import { DEFAULT_RATING_ENGINE } from '../constants';
+import { eloEngine } from './eloCalculator';
+import { glickoEngine } from './glickoCalculator';
+
+/**
+ * The rating fields an engine is allowed to change after a match.
+ */
+export type RatingState = Pick<Movie, 'elo' | 'rd' | 'volatility'>;
+
+/**
+ * A rating model the arena and the simulation can run on.
+ * Engines are stateless: everything they need lives on the Movie.
+ */
+export interface RatingEngine {
+  id: RatingEngineId;
+  label: string;
+  description: string;
+  /** Whether `rd` is the engine's own uncertainty. If not, it's only a match-count estimate for matchmaking and shouldn't be shown. */
+  tracksDeviation: boolean;
+  /** Starting state for a film nobody has voted on yet (optionally seeded, e.g. from stars). */
+  initialState: (seedElo?: number) => RatingState;
+  /** Probability that `a` beats `b`. */
+  expectedScore: (a: Movie, b: Movie) => number;
+  /** New states for [winner, loser] after a single match. `score` is 1 for a win, 0.5 for a draw. */
+  update: (winner: Movie, loser: Movie, score?: number) => [RatingState, RatingState];
+  /** Engine-specific fields worth persisting or exporting alongside a film. */
+  serializeState: (movie: Movie) => EngineState;
+  /** Restores a stored film, filling in anything it was saved without. */
+  deserializeState: (movie: Movie, state?: EngineState) => Movie;
+}
+
+export const RATING_ENGINES: RatingEngine[] = [eloEngine, glickoEngine];
+
+// Margin-of-victory multipliers applied to the rating change of a decisive vote
+export const STRENGTH_MULTIPLIERS: Record<VoteStrength, number> = {
+  SLIGHT: 0.5,
+  CLEAR: 1,
+  OVERWHELMING: 1.5
+};
+
+export const STRENGTH_LABELS: Record<VoteStrength, string> = {
+  SLIGHT: 'Slight',
+  CLEAR: 'Clear',
+  OVERWHELMING: 'Overwhelming'
+};
+
+export interface MatchOptions {
+  outcome?: MatchOutcome;
+  strength?: VoteStrength;
+  timestamp?: number;
+}
+
+export const getRatingEngine = (id: RatingEngineId | undefined): RatingEngine => {
+  return RATING_ENGINES.find(e => e.id === id)
+    || RATING_ENGINES.find(e => e.id === DEFAULT_RATING_ENGINE)!;
+};
+
+/**
+ * Restores a film from storage: generic fields first, then the engine's own.
+ */
+export const restoreMovie = (movie: Movie, engine: RatingEngine): Movie => {
+  return engine.deserializeState({
+    ...movie,
+    draws: movie.draws || 0,
+    initialElo: typeof movie.initialElo === 'number' ? movie.initialElo : inferInitialElo(movie.elo, movie.history)
+  });
+};
+
+/**
+ * Best guess at a film's starting Elo for libraries saved before it was stored:
+ * the rating just before its first recorded match.
+ */
+export const inferInitialElo = (elo: number, history: MatchRecord[] = []): number => {
+  if (history.length === 0) return elo;
+  const first = [...history].sort((a, b) => a.timestamp - b.timestamp)[0];
+  return first.newElo - first.eloChange;
+};
+
+/**
+ * Helper to update movie objects immutable style.
+ * On a DRAW "winner" and "loser" are just the two films, and each gets half a point.
+ * A decisive vote's rating change is scaled by its strength; uncertainty updates are not.
+ */
+export const updateMovieStats = (
+  winner: Movie,
+  loser: Movie,
+  engine: RatingEngine,
+  { outcome = 'WIN', strength, timestamp = Date.now() }: MatchOptions = {}
+): { winner: Movie; loser: Movie } => {
+  const isDraw = outcome === 'DRAW';
+  const multiplier = isDraw ? 1 : STRENGTH_MULTIPLIERS[strength || 'CLEAR'];
+  const [winnerState, loserState] = engine.update(winner, loser, isDraw ? 0.5 : 1);
+  const newWinnerElo = Math.round(winner.elo + (winnerState.elo - winner.elo) * multiplier);
+  const newLoserElo = Math.round(loser.elo + (loserState.elo - loser.elo) * multiplier);
+
+  const winnerDiff = newWinnerElo - winner.elo;
+  const loserDiff = newLoserElo - loser.elo;
+
+  const winnerRecord: MatchRecord = {
+    timestamp,
+    opponentId: loser.id,
+    opponentName: loser.name,
+    result: isDraw ? 'DRAW' : 'WIN',
+    eloChange: winnerDiff,
+    newElo: newWinnerElo,
+    opponentElo: loser.elo,
+    ...(isDraw || !strength ? {} : { strength })
+  };
+
+  const loserRecord: MatchRecord = {
+    timestamp,
+    opponentId: winner.id,
+    opponentName: winner.name,
+    result: isDraw ? 'DRAW' : 'LOSS',
+    eloChange: loserDiff,
+    newElo: newLoserElo,
+    opponentElo: winner.elo,
+    ...(isDraw || !strength ? {} : { strength })
+  };
+
+  const updatedWinner: Movie = {
+    ...winner,
+    ...winnerState,
+    elo: newWinnerElo,
+    matches: winner.matches + 1,
+    wins: winner.wins + (isDraw ? 0 : 1),
+    draws: winner.draws + (isDraw ? 1 : 0),
+    history: [...(winner.history || []), winnerRecord]
+  };
+
+  const updatedLoser: Movie = {
+    ...loser,
+    ...loserState,
+    elo: newLoserElo,
+    matches: loser.matches + 1,
+    losses: loser.losses + (isDraw ? 0 : 1),
+    draws: loser.draws + (isDraw ? 1 : 0),
+    history: [...(loser.history || []), loserRecord]
+  };
+
+  return { winner: updatedWinner, loser: updatedLoser };
+};
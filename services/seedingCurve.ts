@@ -0,0 +1,56 @@
+import { INITIAL_ELO } from '../constants';
+
+// How star ratings turn into starting Elo for the "Star Power" strategy
+export type SeedingCurveId = 'linear' | 'percentile' | 'custom';
+
+// Starting Elo for each half star, keyed '0.5' ... '5'
+export type SeedTable = Record<string, number>;
+
+export const HALF_STARS = [0.5, 1, 1.5, 2, 2.5, 3, 3.5, 4, 4.5, 5];
+
+export const SEEDING_CURVES: { id: SeedingCurveId; label: string; description: string }[] = [
+  { id: 'linear', label: 'Linear', description: '200 Elo per star around 3★ = 1200. Roughly 700 to 1600.' },
+  { id: 'percentile', label: 'Percentile', description: 'Spread by your own ratings: your median film starts at 1200, your best and worst 400 either side.' },
+  { id: 'custom', label: 'Custom', description: 'Set the starting Elo for each half star yourself.' }
+];
+
+// Elo either side of 1200 the percentile curve spans
+const PERCENTILE_RANGE = 400;
+
+export const LINEAR_SEED_TABLE: SeedTable = Object.fromEntries(
+  HALF_STARS.map(stars => [String(stars), INITIAL_ELO + (stars - 3) * 200])
+);
+
+/**
+ * Each half star's Elo from where it sits in the user's own rating
+ * distribution (its mid-rank percentile), so a library that's mostly 3.5–4★
+ * still spreads across the whole range.
+ */
+export const percentileSeedTable = (ratings: number[]): SeedTable => {
+  const rated = ratings.filter(r => r > 0);
+  if (rated.length === 0) return { ...LINEAR_SEED_TABLE };
+
+  return Object.fromEntries(HALF_STARS.map(stars => {
+    const below = rated.filter(r => r < stars).length;
+    const at = rated.filter(r => r === stars).length;
+    const percentile = (below + at / 2) / rated.length;
+    return [String(stars), Math.round(INITIAL_ELO + (percentile - 0.5) * 2 * PERCENTILE_RANGE)];
+  }));
+};
+
+/**
+ * The table a curve gives for these ratings. `custom` is the user's own table.
+ */
+export const buildSeedTable = (curve: SeedingCurveId, ratings: number[], custom: SeedTable): SeedTable => {
+  if (curve === 'percentile') return percentileSeedTable(ratings);
+  if (curve === 'custom') return custom;
+  return LINEAR_SEED_TABLE;
+};
+
+/**
+ * Starting Elo for a star rating, rounded to the nearest half star.
+ */
+export const seedEloForRating = (rating: number, table: SeedTable): number => {
+  const stars = Math.min(5, Math.max(0.5, Math.round(rating * 2) / 2));
+  return table[String(stars)] ?? LINEAR_SEED_TABLE[String(stars)];
+};
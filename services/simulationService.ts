@@ -1,6 +1,6 @@
 
 import { Movie } from '../types';
-import { calculateNewRatings } from './eloCalculator';
+import type { RatingEngine } from './ratingEngine';
 
 export interface SimulationStep {
   round: number;
@@ -11,7 +11,7 @@ export interface SimulationStep {
  * Runs a single round of "Swiss System" pairings.
  * Sorts movies by Elo, pairs adjacent neighbors, simulates match based on probability.
  */
-export const runSimulationRound = (currentMovies: Movie[]): Movie[] => {
+export const runSimulationRound = (currentMovies: Movie[], engine: RatingEngine): Movie[] => {
   // 1. Deep clone to avoid mutating state directly in the loop
   let movies = currentMovies.map(m => ({ ...m, history: [...m.history] }));
   
@@ -35,9 +35,8 @@ export const runSimulationRound = (currentMovies: Movie[]): Movie[] => {
     paired.add(m1.id);
     paired.add(m2.id);
 
-    // 3. Calculate Win Probability
-    // Expected score formula: 1 / (1 + 10^((Rb - Ra) / 400))
-    const probM1Wins = 1 / (1 + Math.pow(10, (m2.elo - m1.elo) / 400));
+    // 3. Calculate Win Probability (as the active rating engine sees it)
+    const probM1Wins = engine.expectedScore(m1, m2);
     
     // 4. Roll the die
     // Add a slight "Upset Factor" - occasionally the underdog wins more than stats suggest? 
@@ -47,28 +46,23 @@ export const runSimulationRound = (currentMovies: Movie[]): Movie[] => {
     const winner = m1IsWinner ? m1 : m2;
     const loser = m1IsWinner ? m2 : m1;
 
-    // 5. Calculate new Elos
+    // 5. Calculate new ratings
     // We increase match counts to simulate "confidence" growing
-    const [newWinnerElo, newLoserElo] = calculateNewRatings(
-      winner.elo,
-      winner.matches,
-      loser.elo,
-      loser.matches
-    );
+    const [winnerState, loserState] = engine.update(winner, loser);
 
     // 6. Update objects
     // Note: We don't add full history records here to save memory during mass simulation,
     // just stats needed for ranking.
     const updatedWinner: Movie = {
         ...winner,
-        elo: newWinnerElo,
+        ...winnerState,
         matches: winner.matches + 1,
         wins: winner.wins + 1,
     };
 
     const updatedLoser: Movie = {
         ...loser,
-        elo: newLoserElo,
+        ...loserState,
         matches: loser.matches + 1,
         losses: loser.losses + 1
     };
@@ -0,0 +1,23 @@
+import { Movie } from '../types';
+import { INITIAL_ELO } from '../constants';
+import { getRatingEngine } from './ratingEngine';
+
+/**
+ * A film for tests: unplayed and rated with Elo, seeded at `elo` (1200 by default).
+ * Anything in `overrides` replaces the defaults.
+ */
+export const makeMovie = (overrides: Partial<Movie> & { id: string }): Movie => {
+  const elo = overrides.elo ?? INITIAL_ELO;
+  return {
+    name: overrides.id,
+    year: '1995',
+    ...getRatingEngine('elo').initialState(elo),
+    initialElo: elo,
+    matches: 0,
+    wins: 0,
+    losses: 0,
+    draws: 0,
+    history: [],
+    ...overrides
+  };
+};
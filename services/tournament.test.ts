@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { Tournament } from '../types';
+import {
+  createTournament,
+  dedupeTournament,
+  forfeitTournamentMatch,
+  getNextTournamentMatch,
+  getStandings,
+  recordTournamentResult
+} from './tournament';
+
+// What merging film `drop` into `keep` does to a tournament's ids before it's cleaned up
+const merge = (tournament: Tournament, keep: string, drop: string): Tournament => {
+  const remap = (id: string | null) => (id === drop ? keep : id);
+  return {
+    ...tournament,
+    entrantIds: tournament.entrantIds.map(id => remap(id)!),
+    matches: tournament.matches.map(m => ({ ...m, aId: remap(m.aId), bId: remap(m.bId), winnerId: remap(m.winnerId) })),
+    championId: tournament.championId && remap(tournament.championId)!
+  };
+};
+
+const play = (tournament: Tournament, winnerId: string): Tournament => {
+  const match = getNextTournamentMatch(tournament)!;
+  return recordTournamentResult(tournament, match.id, winnerId, `e-${match.id}`, 1);
+};
+
+describe('dedupeTournament', () => {
+  it('leaves a tournament without repeated entrants untouched', () => {
+    const tournament = createTournament('Cup', 'SINGLE_ELIMINATION', ['a', 'b', 'c', 'd'], 0);
+    expect(dedupeTournament(tournament)).toBe(tournament);
+  });
+
+  it('settles a bracket match a film would play against itself as a walkover', () => {
+    // Bracket order [a, d], [b, c]
+    let tournament = createTournament('Cup', 'SINGLE_ELIMINATION', ['a', 'b', 'c', 'd'], 0);
+    tournament = play(tournament, 'a');
+    tournament = play(tournament, 'c');
+    // Final is a vs c; merging c into a leaves a against itself
+    const deduped = dedupeTournament(merge(tournament, 'a', 'c'), 2);
+
+    expect(deduped.entrantIds).toEqual(['a', 'b', 'd']);
+    const final = deduped.matches.find(m => m.round === 1)!;
+    expect(final).toMatchObject({ winnerId: 'a', isBye: true });
+    expect(final.aId === final.bId).toBe(false);
+    expect(deduped.championId).toBe('a');
+    expect(deduped.completedAt).toBe(2);
+  });
+
+  it('withdraws the copy furthest behind when a film is alive twice in a bracket', () => {
+    let tournament = createTournament('Cup', 'SINGLE_ELIMINATION', ['a', 'b', 'c', 'd'], 0);
+    tournament = play(tournament, 'a');
+    // a waits in the final; b merged into a still has its semifinal against c to play
+    const deduped = dedupeTournament(merge(tournament, 'a', 'b'), 2);
+
+    const semi = deduped.matches.find(m => m.round === 0 && m.slot === 1)!;
+    expect(semi).toMatchObject({ winnerId: 'c', isBye: true });
+    expect(getNextTournamentMatch(deduped)).toMatchObject({ aId: 'a', bId: 'c' });
+    expect(play(deduped, 'c')).toMatchObject({ championId: 'c' });
+  });
+
+  it('lets a walkover waiting on an earlier round go through once that round is played', () => {
+    // Bracket order [a, h], [d, e], [b, g], [c, f]
+    let tournament = createTournament('Cup', 'SINGLE_ELIMINATION', ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'], 0);
+    tournament = play(tournament, 'a');
+    tournament = play(tournament, 'd');
+    tournament = play(tournament, 'b');
+    // a beats d and waits in the final, ahead of the c–f first-round match
+    tournament = recordTournamentResult(tournament, 'r1-s0', 'a', 'e-r1-s0', 1);
+    // b, merged into a, waits in the other semifinal for c or f; that copy withdraws
+    let deduped = dedupeTournament(merge(tournament, 'a', 'b'), 2);
+    expect(deduped.matches.find(m => m.round === 1 && m.slot === 1)).toMatchObject({ aId: null, isBye: true, winnerId: null });
+
+    deduped = play(deduped, 'c');
+    expect(deduped.matches.find(m => m.round === 1 && m.slot === 1)).toMatchObject({ winnerId: 'c' });
+    expect(getNextTournamentMatch(deduped)).toMatchObject({ round: 2, aId: 'a', bId: 'c' });
+  });
+
+  it('drops self-matches and repeated fixtures from a round robin', () => {
+    let tournament = createTournament('League', 'ROUND_ROBIN', ['a', 'b', 'c', 'd'], 0);
+    const ab = tournament.matches.find(m => [m.aId, m.bId].sort().join() === 'a,b')!;
+    tournament = recordTournamentResult(tournament, ab.id, 'a', 'e1', 1);
+    const deduped = dedupeTournament(merge(tournament, 'a', 'b'), 2);
+
+    expect(deduped.entrantIds).toEqual(['a', 'c', 'd']);
+    expect(deduped.matches.some(m => m.aId === m.bId)).toBe(false);
+    const fixtures = deduped.matches.map(m => [m.aId, m.bId].sort().join());
+    expect(fixtures.sort()).toEqual(['a,c', 'a,d', 'c,d']);
+    expect(getStandings(deduped).find(r => r.id === 'a')?.played).toBe(0);
+  });
+
+  it('keeps a fixture that was already played over its unplayed repeat', () => {
+    let tournament = createTournament('League', 'ROUND_ROBIN', ['a', 'b', 'c'], 0);
+    const bc = tournament.matches.find(m => [m.aId, m.bId].sort().join() === 'b,c')!;
+    tournament = recordTournamentResult(tournament, bc.id, 'c', 'e1', 1);
+    const deduped = dedupeTournament(merge(tournament, 'a', 'b'), 2);
+
+    // a (merged with b) vs c: b's played fixture stands, a's unplayed one goes, so the league is over
+    expect(deduped.matches).toHaveLength(1);
+    expect(deduped.matches[0]).toMatchObject({ winnerId: 'c' });
+    expect(deduped).toMatchObject({ championId: 'c', completedAt: 2 });
+  });
+});
+
+describe('forfeitTournamentMatch', () => {
+  it('puts the opponent through a bracket on a walkover', () => {
+    const tournament = createTournament('Cup', 'SINGLE_ELIMINATION', ['a', 'b', 'c', 'd'], 0);
+    const forfeited = forfeitTournamentMatch(tournament, 'r0-s0', 'd', 1);
+    expect(forfeited.matches.find(m => m.id === 'r0-s0')).toMatchObject({ winnerId: 'a', isBye: true });
+    expect(forfeited.matches.find(m => m.id === 'r1-s0')).toMatchObject({ aId: 'a' });
+    expect(getNextTournamentMatch(forfeited)).toMatchObject({ aId: 'b', bId: 'c' });
+  });
+
+  it('settles a round robin match without scoring it, and can finish the tournament', () => {
+    let tournament = createTournament('League', 'ROUND_ROBIN', ['a', 'b', 'c'], 0);
+    tournament.matches.filter(m => m.aId !== 'c' && m.bId !== 'c').forEach(m => {
+      tournament = recordTournamentResult(tournament, m.id, 'a', 'e1', 1);
+    });
+    tournament.matches.filter(m => m.aId === 'c' || m.bId === 'c').forEach(m => {
+      tournament = forfeitTournamentMatch(tournament, m.id, 'c', 2);
+    });
+    expect(getStandings(tournament).find(r => r.id === 'b')).toMatchObject({ played: 1, points: 0 });
+    expect(tournament).toMatchObject({ championId: 'a', completedAt: 2 });
+  });
+
+  it('ignores a film that isn\'t in the match', () => {
+    const tournament = createTournament('Cup', 'SINGLE_ELIMINATION', ['a', 'b', 'c', 'd'], 0);
+    expect(forfeitTournamentMatch(tournament, 'r0-s0', 'b')).toBe(tournament);
+  });
+});
@@ -0,0 +1,329 @@
+import { Movie, Tournament, TournamentFormat, TournamentMatch } from '../types';
+
+export const ELIMINATION_SIZES = [4, 8, 16, 32, 64];
+export const ROUND_ROBIN_MIN = 3;
+export const ROUND_ROBIN_MAX = 8;
+
+export interface StandingsRow {
+  id: string;
+  played: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  points: number; // 1 per win, ½ per draw
+}
+
+const createId = (prefix: string) => `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Entrants ranked by live Elo, best first.
+ */
+export const seedByElo = (movies: Movie[], count: number): string[] => {
+  return [...movies].sort((a, b) => b.elo - a.elo).slice(0, count).map(m => m.id);
+};
+
+/**
+ * Standard bracket order for `size` seeds, so 1 and 2 can only meet in the final:
+ * [1, 8, 4, 5, 2, 7, 3, 6] for 8.
+ */
+const bracketSeedOrder = (size: number): number[] => {
+  let order = [1];
+  while (order.length < size) {
+    const mirror = order.length * 2 + 1;
+    order = order.flatMap(seed => [seed, mirror - seed]);
+  }
+  return order;
+};
+
+export const getRoundCount = (tournament: Tournament): number => {
+  return tournament.matches.reduce((max, m) => Math.max(max, m.round + 1), 0);
+};
+
+/**
+ * A seeded single-elimination bracket. Fields that aren't a power of two
+ * give the top seeds byes.
+ */
+const createEliminationMatches = (entrantIds: string[]): TournamentMatch[] => {
+  let size = 2;
+  while (size < entrantIds.length) size *= 2;
+
+  const seeds = bracketSeedOrder(size).map(seed => entrantIds[seed - 1] || null);
+  const matches: TournamentMatch[] = [];
+
+  let slots = size / 2;
+  for (let round = 0; slots >= 1; round++, slots /= 2) {
+    for (let slot = 0; slot < slots; slot++) {
+      matches.push({
+        id: `r${round}-s${slot}`,
+        round,
+        slot,
+        aId: round === 0 ? seeds[slot * 2] : null,
+        bId: round === 0 ? seeds[slot * 2 + 1] : null,
+        winnerId: null
+      });
+    }
+  }
+
+  // Byes: a first-round film without an opponent goes straight through
+  return matches
+    .filter(m => m.round === 0 && (!m.aId || !m.bId))
+    .reduce((acc, bye) => advanceWinner(acc, { ...bye, winnerId: bye.aId || bye.bId, isBye: true }), matches);
+};
+
+/**
+ * Every film plays every other once, scheduled into rounds with the circle method.
+ */
+const createRoundRobinMatches = (entrantIds: string[]): TournamentMatch[] => {
+  const ring: (string | null)[] = entrantIds.length % 2 === 0 ? [...entrantIds] : [...entrantIds, null];
+  const matches: TournamentMatch[] = [];
+  const rounds = ring.length - 1;
+
+  for (let round = 0; round < rounds; round++) {
+    let slot = 0;
+    for (let i = 0; i < ring.length / 2; i++) {
+      const a = ring[i];
+      const b = ring[ring.length - 1 - i];
+      if (a && b) {
+        matches.push({ id: `r${round}-s${slot}`, round, slot, aId: a, bId: b, winnerId: null });
+        slot++;
+      }
+    }
+    // Keep the first entry fixed and rotate the rest
+    ring.splice(1, 0, ring.pop()!);
+  }
+
+  return matches;
+};
+
+export const createTournament = (
+  name: string,
+  format: TournamentFormat,
+  entrantIds: string[],
+  now: number = Date.now()
+): Tournament => {
+  return {
+    id: createId('t'),
+    name,
+    format,
+    entrantIds,
+    matches: format === 'SINGLE_ELIMINATION'
+      ? createEliminationMatches(entrantIds)
+      : createRoundRobinMatches(entrantIds),
+    createdAt: now
+  };
+};
+
+export const isMatchPlayed = (match: TournamentMatch): boolean => !!match.winnerId || !!match.isDraw;
+
+// Fills the decided match in and moves its winner into the next round's slot.
+// A walkover waiting on that slot (see withdrawFromBracket) is decided as soon as it's filled.
+const advanceWinner = (matches: TournamentMatch[], decided: TournamentMatch): TournamentMatch[] => {
+  const nextRound = decided.round + 1;
+  const nextSlot = Math.floor(decided.slot / 2);
+  const side = decided.slot % 2 === 0 ? 'aId' : 'bId';
+
+  const advanced = matches.map(m => {
+    if (m.id === decided.id) return decided;
+    if (m.round === nextRound && m.slot === nextSlot) return { ...m, [side]: decided.winnerId };
+    return m;
+  });
+
+  const next = advanced.find(m => m.round === nextRound && m.slot === nextSlot);
+  return next?.isBye && !next.winnerId
+    ? advanceWinner(advanced, { ...next, winnerId: next.aId || next.bId })
+    : advanced;
+};
+
+/**
+ * Standings for a round robin: points, then wins, then seed.
+ */
+export const getStandings = (tournament: Tournament): StandingsRow[] => {
+  const rows = new Map<string, StandingsRow>();
+  tournament.entrantIds.forEach(id => rows.set(id, { id, played: 0, wins: 0, draws: 0, losses: 0, points: 0 }));
+
+  tournament.matches.filter(m => !m.isBye && isMatchPlayed(m)).forEach(m => {
+    const a = rows.get(m.aId!);
+    const b = rows.get(m.bId!);
+    if (!a || !b) return;
+    a.played++;
+    b.played++;
+    if (m.isDraw) {
+      a.draws++; b.draws++;
+      a.points += 0.5; b.points += 0.5;
+    } else {
+      const [winner, loser] = m.winnerId === a.id ? [a, b] : [b, a];
+      winner.wins++; winner.points += 1;
+      loser.losses++;
+    }
+  });
+
+  const seed = new Map(tournament.entrantIds.map((id, i) => [id, i]));
+  return Array.from(rows.values()).sort((x, y) =>
+    (y.points - x.points) || (y.wins - x.wins) || (seed.get(x.id)! - seed.get(y.id)!)
+  );
+};
+
+/**
+ * Records a vote. `winnerId` null means a draw (round robin only).
+ * Finishes the tournament when its last match is decided.
+ */
+export const recordTournamentResult = (
+  tournament: Tournament,
+  matchId: string,
+  winnerId: string | null,
+  eventId: string,
+  now: number = Date.now()
+): Tournament => {
+  const match = tournament.matches.find(m => m.id === matchId);
+  if (!match || isMatchPlayed(match)) return tournament;
+
+  const decided: TournamentMatch = winnerId
+    ? { ...match, winnerId, eventId }
+    : { ...match, isDraw: true, eventId };
+
+  const matches = tournament.format === 'SINGLE_ELIMINATION'
+    ? advanceWinner(tournament.matches, decided)
+    : tournament.matches.map(m => (m.id === matchId ? decided : m));
+
+  return finishIfDecided({ ...tournament, matches }, now);
+};
+
+// Crowns the champion once every match is decided
+const finishIfDecided = (tournament: Tournament, now: number): Tournament => {
+  if (tournament.completedAt || !tournament.matches.every(isMatchPlayed)) return tournament;
+
+  const championId = tournament.format === 'SINGLE_ELIMINATION'
+    ? tournament.matches.find(m => m.round === getRoundCount(tournament) - 1)!.winnerId!
+    : getStandings(tournament)[0].id;
+
+  return { ...tournament, championId, completedAt: now };
+};
+
+/**
+ * Takes one side of an unplayed bracket match out: the other side goes through
+ * on a walkover, or will as soon as it's known.
+ */
+const withdrawFromBracket = (matches: TournamentMatch[], matchId: string, side: 'aId' | 'bId'): TournamentMatch[] => {
+  const match = matches.find(m => m.id === matchId)!;
+  const walkover: TournamentMatch = { ...match, [side]: null, isBye: true };
+  const opponentId = side === 'aId' ? match.bId : match.aId;
+  return opponentId
+    ? advanceWinner(matches, { ...walkover, winnerId: opponentId })
+    : matches.map(m => (m.id === matchId ? walkover : m));
+};
+
+// Every unplayed bracket slot a film still holds, furthest round first
+const liveSlots = (matches: TournamentMatch[], id: string) => matches
+  .filter(m => !isMatchPlayed(m))
+  .flatMap(m => (['aId', 'bId'] as const).filter(side => m[side] === id).map(side => ({ match: m, side })))
+  .sort((x, y) => (y.match.round - x.match.round) || (x.match.slot - y.match.slot));
+
+/**
+ * Cleans a tournament up after two of its entrants were merged into one film.
+ * The film is entered once. A vote it played against itself no longer counts;
+ * in a round robin, so does any second fixture against the same opponent.
+ * Where a bracket still has it alive twice, the copy furthest behind withdraws,
+ * which also settles a match against itself as a walkover.
+ */
+export const dedupeTournament = (tournament: Tournament, now: number = Date.now()): Tournament => {
+  const entrantIds = tournament.entrantIds.filter((id, i) => tournament.entrantIds.indexOf(id) === i);
+  if (entrantIds.length === tournament.entrantIds.length) return tournament;
+
+  let matches: TournamentMatch[];
+  if (tournament.format === 'ROUND_ROBIN') {
+    const isSelfMatch = (m: TournamentMatch) => m.aId === m.bId;
+    const fixtureKey = (m: TournamentMatch) => [m.aId, m.bId].sort().join('|');
+    const played = new Set(tournament.matches.filter(m => isMatchPlayed(m) && !isSelfMatch(m)).map(fixtureKey));
+    const scheduled = new Set<string>();
+    matches = tournament.matches.filter(m => {
+      if (isSelfMatch(m)) return false;
+      if (isMatchPlayed(m)) return true;
+      const key = fixtureKey(m);
+      if (played.has(key) || scheduled.has(key)) return false;
+      scheduled.add(key);
+      return true;
+    });
+  } else {
+    // The vote itself was dropped from the match log, so the result stands without one
+    matches = tournament.matches.map(m => (
+      isMatchPlayed(m) && m.aId && m.aId === m.bId ? { ...m, isBye: true, eventId: undefined } : m
+    ));
+    entrantIds.forEach(id => {
+      let slots = liveSlots(matches, id);
+      while (slots.length > 1) {
+        const { match, side } = slots[slots.length - 1];
+        matches = withdrawFromBracket(matches, match.id, side);
+        slots = liveSlots(matches, id);
+      }
+    });
+  }
+
+  return finishIfDecided({ ...tournament, entrantIds, matches }, now);
+};
+
+/**
+ * Settles a match without a vote, e.g. when `loserId` is no longer in the
+ * library: the opponent goes through on a walkover. In a round robin the
+ * match is marked played but scores nothing for either side.
+ */
+export const forfeitTournamentMatch = (
+  tournament: Tournament,
+  matchId: string,
+  loserId: string,
+  now: number = Date.now()
+): Tournament => {
+  const match = tournament.matches.find(m => m.id === matchId);
+  if (!match || isMatchPlayed(match) || (match.aId !== loserId && match.bId !== loserId)) return tournament;
+  const side = match.aId === loserId ? 'aId' : 'bId';
+
+  const matches = tournament.format === 'SINGLE_ELIMINATION'
+    ? withdrawFromBracket(tournament.matches, matchId, side)
+    : tournament.matches.map(m => (
+      m.id === matchId ? { ...m, winnerId: side === 'aId' ? m.bId : m.aId, isBye: true } : m
+    ));
+
+  return finishIfDecided({ ...tournament, matches }, now);
+};
+
+/**
+ * The next fixture ready to be voted on, in schedule order.
+ */
+export const getNextTournamentMatch = (tournament: Tournament): TournamentMatch | null => {
+  return tournament.matches.find(m => !isMatchPlayed(m) && m.aId && m.bId) || null;
+};
+
+export const getTournamentProgress = (tournament: Tournament): { played: number; total: number } => {
+  const votable = tournament.matches.filter(m => !m.isBye);
+  return { played: votable.filter(isMatchPlayed).length, total: votable.length };
+};
+
+/**
+ * Final placings, best first: the champion, then the runner-up and so on.
+ * Elimination films that went out in the same round share a placing, listed by seed.
+ */
+export const getFinalPlacings = (tournament: Tournament): string[] => {
+  if (tournament.format === 'ROUND_ROBIN') return getStandings(tournament).map(r => r.id);
+
+  // The later a film lost, the better it finished
+  const exitRound = new Map<string, number>();
+  tournament.entrantIds.forEach(id => exitRound.set(id, Infinity));
+  tournament.matches.forEach(m => {
+    if (!m.winnerId) return;
+    const loser = m.winnerId === m.aId ? m.bId : m.aId;
+    if (loser) exitRound.set(loser, m.round);
+  });
+
+  const seed = new Map(tournament.entrantIds.map((id, i) => [id, i]));
+  return [...tournament.entrantIds].sort((x, y) =>
+    (exitRound.get(y)! - exitRound.get(x)!) || (seed.get(x)! - seed.get(y)!)
+  );
+};
+
+export const describeRound = (tournament: Tournament, round: number): string => {
+  if (tournament.format === 'ROUND_ROBIN') return `Round ${round + 1}`;
+  const fromEnd = getRoundCount(tournament) - round;
+  if (fromEnd === 1) return 'Final';
+  if (fromEnd === 2) return 'Semifinals';
+  if (fromEnd === 3) return 'Quarterfinals';
+  return `Round of ${2 ** fromEnd}`;
+};
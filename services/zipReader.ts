@@ -0,0 +1,81 @@
+/**
+ * Just enough of the ZIP format to read a Letterboxd export in the browser:
+ * stored and deflated entries, no encryption, no ZIP64.
+ */
+
+export interface ZipEntry {
+  path: string;
+  data: Uint8Array;
+  unreadable?: string; // Why the entry couldn't be decompressed (data is empty)
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_FILE_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const MAX_COMMENT_LENGTH = 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+export const isZipFile = (file: File): boolean => {
+  return file.name.toLowerCase().endsWith('.zip') || file.type === 'application/zip' || file.type === 'application/x-zip-compressed';
+};
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const findEndOfCentralDirectory = (view: DataView): number => {
+  const lowest = Math.max(0, view.byteLength - 22 - MAX_COMMENT_LENGTH);
+  for (let offset = view.byteLength - 22; offset >= lowest; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  return -1;
+};
+
+/**
+ * Reads every file in the archive (directories are skipped). `wanted` picks
+ * which entries get decompressed at all; ones we can't decompress come back marked unreadable.
+ */
+export const readZip = async (buffer: ArrayBuffer, wanted: (path: string) => boolean = () => true): Promise<ZipEntry[]> => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  const eocd = findEndOfCentralDirectory(view);
+  if (eocd === -1) throw new Error('Not a valid ZIP file.');
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_FILE_HEADER) throw new Error('Corrupt ZIP directory.');
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const path = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith('/') || !wanted(path)) continue;
+    if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) throw new Error(`Corrupt ZIP entry: ${path}`);
+
+    // The local header's own name/extra lengths can differ from the central directory's
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const raw = bytes.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === METHOD_STORED) {
+      entries.push({ path, data: raw });
+    } else if (method === METHOD_DEFLATE) {
+      entries.push({ path, data: await inflateRaw(raw) });
+    } else {
+      entries.push({ path, data: new Uint8Array(0), unreadable: `Unsupported ZIP compression method ${method}` });
+    }
+  }
+
+  return entries;
+};
@@ -3,31 +3,170 @@ export interface MatchRecord {
   timestamp: number;
   opponentId: string;
   opponentName: string;
-  result: 'WIN' | 'LOSS';
+  result: 'WIN' | 'LOSS' | 'DRAW';
   eloChange: number;
   newElo: number;
   opponentElo?: number; // Snapshot of opponent's Elo at match time
+  strength?: VoteStrength; // How strongly the winner was preferred (absent on draws and old data)
 }
 
+// ACTIVE: normal. EXCLUDED: kept out of the arena. HIDDEN: kept off the leaderboard (and out of the arena).
+// REWATCH: don't remember it well enough to judge; out of the arena until rewatched.
+export type FilmStatus = 'ACTIVE' | 'EXCLUDED' | 'HIDDEN' | 'REWATCH';
+
 export interface Movie {
-  id: string;
+  id: string; // Stable identity, see services/filmIdentity
   name: string;
   year: string;
   rating?: number; // User's original 0.5-5 star rating
   elo: number;
+  initialElo: number; // Seed rating before any votes; the match log is replayed from here
+  rd: number; // Glicko-2 rating deviation (lower = more certain)
+  volatility: number; // Glicko-2 volatility (expected fluctuation of the rating)
   matches: number;
   wins: number;
   losses: number;
+  draws: number;
   uri?: string; // Letterboxd URI
+  tmdbId?: string;
   posterPath?: string; // TMDB Poster Path
+  // From diary.csv (absent if the film was never logged)
+  firstWatched?: string; // YYYY-MM-DD
+  lastWatched?: string; // YYYY-MM-DD
+  watchYears?: number[]; // Every year with a diary entry, oldest first
+  watchCount?: number; // Diary entries
+  rewatchCount?: number; // Diary entries marked as a rewatch
+  status?: FilmStatus; // Missing means ACTIVE
   history: MatchRecord[];
 }
 
+// How a vote between two films ended, from the first film's point of view
+export type MatchOutcome = 'WIN' | 'DRAW';
+
+// How strongly the winner was preferred; scales the rating change (margin of victory)
+export type VoteStrength = 'SLIGHT' | 'CLEAR' | 'OVERWHELMING';
+
+export type RatingEngineId = 'elo' | 'glicko2';
+
+// How the arena picks the next pair of films
+export type MatchmakingStrategyId = 'random' | 'information';
+
+// Engine-specific values a rating engine wants persisted/exported with a film
+export type EngineState = Record<string, number>;
+
+// Which films a focused arena session draws from
+export type SessionFilter =
+  | { kind: 'ALL' }
+  | { kind: 'DECADE'; decade: number }
+  | { kind: 'YEAR_RANGE'; from: number; to: number }
+  | { kind: 'TOP'; count: number }
+  | { kind: 'FEW_MATCHES'; below: number }
+  | { kind: 'SEARCH'; term: string }
+  | { kind: 'WATCHED_IN'; year: number };
+
+// A focused session: the filter plus the films it matched when it started
+export interface RankingSession {
+  filter: SessionFilter;
+  filmIds: string[];
+  startedAt: number;
+}
+
+export type TournamentFormat = 'SINGLE_ELIMINATION' | 'ROUND_ROBIN';
+
+// One fixture in a tournament. Empty slots wait on an earlier round (or are byes).
+export interface TournamentMatch {
+  id: string;
+  round: number; // 0-based
+  slot: number;  // Position within the round
+  aId: string | null;
+  bId: string | null;
+  winnerId: string | null;
+  isDraw?: boolean;   // Round robin only
+  isBye?: boolean;    // Decided without a vote
+  eventId?: string;   // The match log event the vote produced
+}
+
+export interface Tournament {
+  id: string;
+  name: string;
+  format: TournamentFormat;
+  entrantIds: string[]; // Seeded order, best first
+  matches: TournamentMatch[];
+  createdAt: number;
+  completedAt?: number;
+  championId?: string;
+}
+
+// A strictly ordered top N built by binary insertion, one comparison at a time
+export interface DefinitiveList {
+  id: string;
+  size: number;
+  sortedIds: string[]; // Settled order so far, best first
+  pendingIds: string[]; // Still to be inserted, next first
+  low: number; // Search window for pendingIds[0] within sortedIds
+  high: number;
+  asked: number; // Comparisons put to the user
+  reused: number; // Comparisons answered by an earlier head-to-head result
+  startedAt: number;
+  lockedAt?: number; // Set once every film is in place
+}
+
+// Something an import couldn't take as-is
+export type ImportIssueKind = 'SKIPPED_FILE' | 'MISSING_COLUMNS' | 'MISSING_TITLE' | 'MISSING_YEAR' | 'BAD_RATING' | 'DUPLICATE';
+
+export interface ImportIssue {
+  kind: ImportIssueKind;
+  action: 'SKIPPED' | 'KEPT' | 'MERGED'; // Row dropped, imported anyway, or folded into another row
+  file: string;
+  row?: number; // Row in the file, header = 1 (blank lines not counted)
+  data?: string[]; // The offending row as read
+  detail: string;
+}
+
+// What one import did, kept with the library so the source data can be fixed
+export interface ImportReport {
+  id: string;
+  importedAt: number;
+  source: string; // e.g. "Letterboxd export", "IMDb Ratings", "Merge"
+  files: string[]; // Files read
+  imported: number; // Films added to the library
+  updated: number; // Existing films changed (merges only)
+  merged: number; // Rows folded into a film already read
+  skipped: number; // Rows (or files) dropped
+  issues: ImportIssue[];
+  truncatedIssues?: number; // Issues not kept past MAX_REPORT_ISSUES
+}
+
+// What the arena's convergence meter tracks, and whether to stop once it's settled
+export interface ConvergenceGoal {
+  topN: number;
+  stopWhenStable: boolean;
+}
+
+export interface LibrarySettings {
+  ratingEngine: RatingEngineId;
+  matchmaking: MatchmakingStrategyId;
+  pairCooldown: number; // Votes before the same pair can come up again (0 = off)
+  convergenceGoal: ConvergenceGoal;
+}
+
 export enum AppView {
   UPLOAD = 'UPLOAD',
   VOTE = 'VOTE',
   LEADERBOARD = 'LEADERBOARD',
   SIMULATION = 'SIMULATION',
+  TOURNAMENT = 'TOURNAMENT',
+  DEFINITIVE = 'DEFINITIVE',
+}
+
+// One vote in the canonical, append-only match log. Movie ratings/history are derived from these.
+export interface MatchEvent {
+  id: string;
+  timestamp: number;
+  winnerId: string; // On a DRAW, just the film shown on the left
+  loserId: string;
+  outcome: MatchOutcome;
+  strength?: VoteStrength;
 }
 
 export interface ComparisonResult {